@@ -1,12 +1,20 @@
 import { Ionicons } from '@expo/vector-icons';
+import { BottomTabBar } from '@react-navigation/bottom-tabs';
 import { Tabs } from 'expo-router';
 import React from 'react';
 import { AuthGuard } from '../../src/components/AuthGuard';
+import { OfflineBanner } from '../../src/components/OfflineBanner';
 
 export default function TabLayout() {
   return (
     <AuthGuard>
       <Tabs
+        tabBar={props => (
+          <>
+            <OfflineBanner />
+            <BottomTabBar {...props} />
+          </>
+        )}
         screenOptions={{
           tabBarActiveTintColor: '#007bff',
           tabBarInactiveTintColor: '#666',
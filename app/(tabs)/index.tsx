@@ -13,6 +13,7 @@ import TonightLogo from '../../src/components/TonightLogo';
 import { useAuth } from '../../src/contexts/AuthContext';
 import { dateEventService, userService } from '../../src/services';
 import { DateEvent } from '../../src/types';
+import { logger } from '../../src/utils/logger';
 
 const DashboardScreen: React.FC = () => {
   const { user: currentUser } = useAuth();
@@ -24,8 +25,8 @@ const DashboardScreen: React.FC = () => {
   // Get user's created events using the proper API endpoint
   const myEventsQuery = useQuery({
     queryKey: ['userEvents', currentUser?.username],
-    queryFn: () => {
-      return dateEventService.getUserEvents(currentUser!.username);
+    queryFn: ({ signal }) => {
+      return dateEventService.getUserEvents(currentUser!.username, { signal });
     },
     enabled: !!currentUser?.username,
     retry: 1, // Reduce retries to fail faster
@@ -36,8 +37,10 @@ const DashboardScreen: React.FC = () => {
   // Get user's available requests (events they can potentially join)
   const availableRequestsQuery = useQuery({
     queryKey: ['availableRequests', currentUser?.username],
-    queryFn: () => {
-      return dateEventService.getAvailableRequests(currentUser!.username);
+    queryFn: ({ signal }) => {
+      return dateEventService.getAvailableRequests(currentUser!.username, {
+        signal,
+      });
     },
     enabled: !!currentUser?.username,
     retry: 1, // Reduce retries to fail faster
@@ -48,14 +51,14 @@ const DashboardScreen: React.FC = () => {
   // Get all events to find ones where user was accepted
   const allEventsQuery = useQuery({
     queryKey: ['allDateEvents'],
-    queryFn: async () => {
-      console.log('Fetching all date events...');
+    queryFn: async ({ signal }) => {
+      logger.debug('Fetching all date events...');
       try {
-        const events = await dateEventService.getDateEvents();
-        console.log('Date events received:', events);
+        const events = await dateEventService.getDateEvents({ signal });
+        logger.debug('Date events received:', events);
         return events;
       } catch (error) {
-        console.error('Failed to fetch date events:', error);
+        logger.error('Failed to fetch date events:', error);
         throw error;
       }
     },
@@ -72,9 +75,9 @@ const DashboardScreen: React.FC = () => {
     error: profileError,
   } = useQuery({
     queryKey: ['publicProfile', selectedUserId],
-    queryFn: async () => {
+    queryFn: async ({ signal }) => {
       if (!selectedUserId) return null;
-      return await userService.getPublicProfile(selectedUserId);
+      return await userService.getPublicProfile(selectedUserId, { signal });
     },
     enabled: !!selectedUserId && showPublicProfile,
     retry: 2,
@@ -82,14 +85,13 @@ const DashboardScreen: React.FC = () => {
   });
 
   // Get events from proper API endpoints
-  const myEvents =
-    (myEventsQuery.data as any)?.data || myEventsQuery.data || [];
+  const myEvents = myEventsQuery.data || [];
   const allEventsData = allEventsQuery.data || [];
 
   // Ensure we have an array to work with
   const allEvents = Array.isArray(allEventsData) ? allEventsData : [];
 
-  console.log('Dashboard data processing:', {
+  logger.debug('Dashboard data processing:', {
     currentUsername: currentUser?.username,
     myEventsLength: myEvents.length,
     allEventsLength: allEvents.length,
@@ -146,7 +148,7 @@ const DashboardScreen: React.FC = () => {
   });
 
   // Debug: Check what's in both queries
-  console.log('Events debugging:', {
+  logger.debug('Events debugging:', {
     currentUsername: currentUser?.username,
     myEventsQuery: {
       data: myEventsQuery.data,
@@ -169,7 +171,7 @@ const DashboardScreen: React.FC = () => {
   });
 
   const handleViewProfile = (userId: string) => {
-    console.log('👤 Profile button clicked for user:', userId);
+    logger.debug('👤 Profile button clicked for user:', userId);
     setSelectedUserId(userId);
     setShowPublicProfile(true);
   };
@@ -331,74 +333,65 @@ const DashboardScreen: React.FC = () => {
                 <Text style={styles.errorText}>Failed to load profile</Text>
               </View>
             ) : publicProfile ? (
-              (() => {
-                // Handle both wrapped and unwrapped API response formats
-                const profileData = (publicProfile as any).data
-                  ? (publicProfile as any).data
-                  : publicProfile;
-
-                return (
-                  <>
-                    <Text style={styles.profileUsername}>
-                      {profileData.username}
+              <>
+                <Text style={styles.profileUsername}>
+                  {publicProfile.username}
+                </Text>
+
+                <View style={styles.profileInfo}>
+                  {publicProfile.dob && (
+                    <Text style={styles.profileAge}>
+                      Age:{' '}
+                      {new Date().getFullYear() -
+                        new Date(publicProfile.dob).getFullYear()}{' '}
+                      years old
                     </Text>
+                  )}
 
-                    <View style={styles.profileInfo}>
-                      {profileData.dob && (
-                        <Text style={styles.profileAge}>
-                          Age:{' '}
-                          {new Date().getFullYear() -
-                            new Date(profileData.dob).getFullYear()}{' '}
-                          years old
-                        </Text>
-                      )}
+                  {publicProfile.id && (
+                    <Text style={styles.profileDetail}>
+                      User ID: {publicProfile.id}
+                    </Text>
+                  )}
 
-                      {profileData.id && (
-                        <Text style={styles.profileDetail}>
-                          User ID: {profileData.id}
-                        </Text>
-                      )}
+                  {publicProfile.gender && (
+                    <Text style={styles.profileDetail}>
+                      Gender:{' '}
+                      {publicProfile.gender.charAt(0).toUpperCase() +
+                        publicProfile.gender.slice(1)}
+                    </Text>
+                  )}
 
-                      {profileData.gender && (
-                        <Text style={styles.profileDetail}>
-                          Gender:{' '}
-                          {profileData.gender.charAt(0).toUpperCase() +
-                            profileData.gender.slice(1)}
-                        </Text>
-                      )}
+                  {publicProfile.orientation && (
+                    <Text style={styles.profileDetail}>
+                      Orientation:{' '}
+                      {publicProfile.orientation.charAt(0).toUpperCase() +
+                        publicProfile.orientation.slice(1)}
+                    </Text>
+                  )}
+                </View>
 
-                      {profileData.orientation && (
-                        <Text style={styles.profileDetail}>
-                          Orientation:{' '}
-                          {profileData.orientation.charAt(0).toUpperCase() +
-                            profileData.orientation.slice(1)}
-                        </Text>
+                {publicProfile.promptAnswers &&
+                  publicProfile.promptAnswers.length > 0 && (
+                    <View style={styles.promptAnswersSection}>
+                      <Text style={styles.promptAnswersTitle}>
+                        Profile Questions
+                      </Text>
+                      {publicProfile.promptAnswers.map(
+                        (answer: any, index: number) => (
+                          <View key={index} style={styles.promptAnswer}>
+                            <Text style={styles.promptQuestion}>
+                              Question {index + 1}
+                            </Text>
+                            <Text style={styles.promptAnswerText}>
+                              {answer.answer}
+                            </Text>
+                          </View>
+                        )
                       )}
                     </View>
-
-                    {profileData.promptAnswers &&
-                      profileData.promptAnswers.length > 0 && (
-                        <View style={styles.promptAnswersSection}>
-                          <Text style={styles.promptAnswersTitle}>
-                            Profile Questions
-                          </Text>
-                          {profileData.promptAnswers.map(
-                            (answer: any, index: number) => (
-                              <View key={index} style={styles.promptAnswer}>
-                                <Text style={styles.promptQuestion}>
-                                  Question {index + 1}
-                                </Text>
-                                <Text style={styles.promptAnswerText}>
-                                  {answer.answer}
-                                </Text>
-                              </View>
-                            )
-                          )}
-                        </View>
-                      )}
-                  </>
-                );
-              })()
+                  )}
+              </>
             ) : null}
           </ScrollView>
         </View>
@@ -13,17 +13,20 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import TonightLogo from '../../src/components/TonightLogo';
 import { useAuth } from '../../src/contexts/AuthContext';
-import { dateEventService } from '../../src/services';
+import { PendingSyncList } from '../../src/components/PendingSyncList';
+import { useMutationOutbox } from '../../src/hooks/useMutationOutbox';
+import { dateEventService, MutationQueuedError } from '../../src/services';
 import { DateRequest } from '../../src/types';
+import { logger } from '../../src/utils/logger';
 
 const RequestsScreen: React.FC = () => {
   const { user } = useAuth();
   const queryClient = useQueryClient();
 
   // Debug logging
-  console.log('RequestsScreen - Current user:', user);
-  console.log('RequestsScreen - User username:', user?.username);
-  console.log('RequestsScreen - User enabled check:', !!user?.username);
+  logger.debug('RequestsScreen - Current user:', user);
+  logger.debug('RequestsScreen - User username:', user?.username);
+  logger.debug('RequestsScreen - User enabled check:', !!user?.username);
 
   // Fetch incoming requests for events I'm hosting
   const {
@@ -34,14 +37,28 @@ const RequestsScreen: React.FC = () => {
     isRefetching,
   } = useQuery({
     queryKey: ['incomingRequests', user?.username],
-    queryFn: () =>
-      dateEventService.getIncomingDateRequests(user?.username || ''),
+    queryFn: ({ signal }) =>
+      dateEventService.getIncomingDateRequests(user?.username || '', {
+        signal,
+      }),
     enabled: !!user?.username,
     staleTime: 1000 * 60 * 5, // 5 minutes
   });
 
-  // Mutation for responding to requests
+  // Responses made while offline wait in the outbox until they are synced
+  const queuedResponses = useMutationOutbox(['respond-date-request']);
+  const pendingSyncRequestIds = new Set(
+    queuedResponses.flatMap(item =>
+      item.type === 'respond-date-request' && item.status === 'pending'
+        ? [item.payload.requestId]
+        : []
+    )
+  );
+
+  // Mutation for responding to requests. Runs while offline too, so the
+  // service can save the response to the outbox.
   const respondMutation = useMutation({
+    networkMode: 'always',
     mutationFn: ({
       requestId,
       accept,
@@ -58,6 +75,10 @@ const RequestsScreen: React.FC = () => {
       );
     },
     onError: (error: any) => {
+      if (error instanceof MutationQueuedError) {
+        Alert.alert('Saved Offline', error.message);
+        return;
+      }
       Alert.alert('Error', error.message || 'Failed to respond to request');
     },
   });
@@ -99,6 +120,7 @@ const RequestsScreen: React.FC = () => {
   const renderRequestItem = ({ item }: { item: DateRequest }) => {
     const event = item.dateEvent;
     const venueName = event?.venue?.name || event?.bar?.name || 'Unknown Venue';
+    const awaitingSync = pendingSyncRequestIds.has(item.id);
 
     return (
       <View style={styles.requestCard}>
@@ -106,8 +128,16 @@ const RequestsScreen: React.FC = () => {
           <Text style={styles.requesterName}>
             From: {item.requester?.username || `User ${item.requesterUserId}`}
           </Text>
-          <View style={[styles.statusBadge, getStatusStyle(item.status)]}>
-            <Text style={styles.statusText}>{item.status}</Text>
+          <View
+            style={[
+              styles.statusBadge,
+              awaitingSync
+                ? styles.pendingSyncStatus
+                : getStatusStyle(item.status),
+            ]}>
+            <Text style={styles.statusText}>
+              {awaitingSync ? 'pending sync' : item.status}
+            </Text>
           </View>
         </View>
 
@@ -122,7 +152,7 @@ const RequestsScreen: React.FC = () => {
           Requested: {new Date(item.requestedAt).toLocaleDateString()}
         </Text>
 
-        {item.status === 'pending' && (
+        {item.status === 'pending' && !awaitingSync && (
           <View style={styles.actionButtons}>
             <TouchableOpacity
               style={[styles.actionButton, styles.acceptButton]}
@@ -209,6 +239,7 @@ const RequestsScreen: React.FC = () => {
         keyExtractor={item => item.id}
         renderItem={renderRequestItem}
         contentContainerStyle={styles.listContainer}
+        ListHeaderComponent={<PendingSyncList items={queuedResponses} />}
         refreshControl={
           <RefreshControl
             refreshing={isRefetching}
@@ -302,6 +333,9 @@ const styles = StyleSheet.create({
   declinedStatus: {
     backgroundColor: '#f8d7da',
   },
+  pendingSyncStatus: {
+    backgroundColor: '#e2e3e5',
+  },
   venueName: {
     fontSize: 18,
     fontWeight: '700',
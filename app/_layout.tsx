@@ -1,11 +1,19 @@
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { Stack } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import 'react-native-gesture-handler';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
 
+import { EnvironmentBanner } from '../src/components/EnvironmentBanner';
+import { HealthGate } from '../src/components/HealthGate';
 import { AuthProvider } from '../src/contexts/AuthContext';
+import { demoMode, installMockBackendFromEnv } from '../src/mocks';
+import { apiEnvironment, connectivity, mutationOutbox } from '../src/services';
+import { runStorageMigrations } from '../src/utils/storageMigrations';
+
+// Before anything talks to the API, so no request reaches the real backend
+installMockBackendFromEnv();
 
 const queryClient = new QueryClient({
   defaultOptions: {
@@ -21,25 +29,58 @@ export const unstable_settings = {
 };
 
 export default function RootLayout() {
+  const [isReady, setIsReady] = useState(false);
+
+  // Stored data is brought up to date first. Then the chosen backend and a
+  // demo left running must be back in place before any request is made.
+  useEffect(() => {
+    runStorageMigrations()
+      .then(() => Promise.all([apiEnvironment.restore(), demoMode.restore()]))
+      .finally(() => setIsReady(true));
+  }, []);
+
+  // Pause queries while offline and refetch on reconnect or foreground
+  useEffect(() => connectivity.start(), []);
+
+  // Replay mutations queued while offline, refreshing screens once they land
+  useEffect(() => {
+    if (!isReady) {
+      return;
+    }
+    return mutationOutbox.start({
+      onSent: () => queryClient.invalidateQueries(),
+    });
+  }, [isReady]);
+
+  if (!isReady) {
+    return null;
+  }
+
   return (
     <SafeAreaProvider>
       <QueryClientProvider client={queryClient}>
         <AuthProvider>
-          <Stack>
-            <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
-            <Stack.Screen
-              name="modal"
-              options={{ presentation: 'modal', title: 'Modal' }}
-            />
-            <Stack.Screen name="signup" options={{ title: 'Create Account' }} />
-            <Stack.Screen
-              name="edit-profile"
-              options={{
-                presentation: 'modal',
-                title: 'Edit Profile',
-              }}
-            />
-          </Stack>
+          <HealthGate>
+            <Stack>
+              <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+              <Stack.Screen
+                name="modal"
+                options={{ presentation: 'modal', title: 'Modal' }}
+              />
+              <Stack.Screen
+                name="signup"
+                options={{ title: 'Create Account' }}
+              />
+              <Stack.Screen
+                name="edit-profile"
+                options={{
+                  presentation: 'modal',
+                  title: 'Edit Profile',
+                }}
+              />
+            </Stack>
+          </HealthGate>
+          <EnvironmentBanner />
           <StatusBar style="auto" />
         </AuthProvider>
       </QueryClientProvider>
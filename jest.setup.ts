@@ -0,0 +1,31 @@
+import { logger } from './src/utils/logger';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+// The native module is stubbed under jest-expo; idempotency keys need real
+// UUIDs and secure storage needs real random bytes
+jest.mock('expo-crypto', () => ({
+  ...jest.requireActual('expo-crypto'),
+  randomUUID: () => require('crypto').randomUUID(),
+  getRandomBytes: (count: number) =>
+    new Uint8Array(require('crypto').randomBytes(count)),
+}));
+
+// An in-memory keystore
+jest.mock('expo-secure-store', () => {
+  const items = new Map<string, string>();
+  return {
+    getItemAsync: async (key: string) => items.get(key) ?? null,
+    setItemAsync: async (key: string, value: string) => {
+      items.set(key, value);
+    },
+    deleteItemAsync: async (key: string) => {
+      items.delete(key);
+    },
+  };
+});
+
+// Keep test output readable; tests that care about logging add a sink
+logger.setLevel('silent');
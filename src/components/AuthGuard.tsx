@@ -1,4 +1,5 @@
-import React from 'react';
+import { Href, router, usePathname } from 'expo-router';
+import React, { useEffect, useRef, useState } from 'react';
 import { ActivityIndicator, StyleSheet, View } from 'react-native';
 import { useAuth } from '../contexts/AuthContext';
 import LoginScreen from '../screens/LoginScreen';
@@ -8,7 +9,30 @@ interface AuthGuardProps {
 }
 
 export const AuthGuard: React.FC<AuthGuardProps> = ({ children }) => {
-  const { user, isLoading } = useAuth();
+  const { user, isLoading, endReason } = useAuth();
+  const pathname = usePathname();
+  // Where the user was when the session expired, to go back after logging in
+  const lastPathname = useRef(pathname);
+  const [returnTo, setReturnTo] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (user) {
+      lastPathname.current = pathname;
+    }
+  }, [user, pathname]);
+
+  useEffect(() => {
+    if (!user && endReason === 'expired') {
+      setReturnTo(lastPathname.current);
+    }
+  }, [user, endReason]);
+
+  useEffect(() => {
+    if (user && returnTo) {
+      setReturnTo(null);
+      router.replace(returnTo as Href);
+    }
+  }, [user, returnTo]);
 
   // Show loading spinner while checking authentication status
   if (isLoading) {
@@ -21,7 +45,15 @@ export const AuthGuard: React.FC<AuthGuardProps> = ({ children }) => {
 
   // Show login screen if user is not authenticated
   if (!user) {
-    return <LoginScreen />;
+    return (
+      <LoginScreen
+        notice={
+          endReason === 'expired'
+            ? 'Your session expired. Please log in again.'
+            : undefined
+        }
+      />
+    );
   }
 
   // Show the main app if user is authenticated
@@ -0,0 +1,255 @@
+import { useQueryClient } from '@tanstack/react-query';
+import React, { useState } from 'react';
+import {
+  Alert,
+  Modal,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { useAuth } from '../contexts/AuthContext';
+import { useApiEnvironment } from '../hooks/useApiEnvironment';
+import { ApiEnvironmentName, apiEnvironment } from '../services/apiEnvironment';
+
+interface DebugMenuProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+// Hidden QA tools, opened by long-pressing the Tonight logo
+export const DebugMenu: React.FC<DebugMenuProps> = ({ visible, onClose }) => {
+  const current = useApiEnvironment();
+  const { logout } = useAuth();
+  const queryClient = useQueryClient();
+  const [customUrl, setCustomUrl] = useState('');
+  const [error, setError] = useState('');
+  const [isSwitching, setIsSwitching] = useState(false);
+
+  const switchTo = async (name: ApiEnvironmentName, url?: string) => {
+    try {
+      setError('');
+      // Check the URL while the menu can still show the error: logging out
+      // unmounts the screen that hosts it
+      apiEnvironment.resolve(name, url);
+      setIsSwitching(true);
+      // Tokens, queued mutations and cached data belong to the old backend
+      await logout();
+      const environment = await apiEnvironment.switchTo(name, url);
+      queryClient.clear();
+      setCustomUrl('');
+      onClose();
+      Alert.alert(
+        'Environment switched',
+        `Now using ${environment.label} (${environment.baseUrl}). Please log in again.`
+      );
+    } catch (error: any) {
+      setError(error?.errors?.[0] || error?.message || 'Failed to switch');
+    } finally {
+      setIsSwitching(false);
+    }
+  };
+
+  const confirmSwitch = (name: ApiEnvironmentName, url?: string) => {
+    Alert.alert(
+      'Switch environment?',
+      'You will be logged out and cached data will be cleared.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Switch', onPress: () => switchTo(name, url) },
+      ]
+    );
+  };
+
+  const handleClose = () => {
+    setError('');
+    onClose();
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={handleClose}>
+      <View style={styles.overlay}>
+        <View style={styles.container}>
+          <Text style={styles.title}>Debug Menu</Text>
+          <Text style={styles.currentText}>
+            Current: {current.label} ({current.baseUrl})
+          </Text>
+
+          <Text style={styles.sectionLabel}>Environment</Text>
+          {apiEnvironment.getPresets().map(environment => {
+            const isCurrent =
+              environment.name === current.name &&
+              environment.baseUrl === current.baseUrl;
+            return (
+              <TouchableOpacity
+                key={environment.name}
+                style={[
+                  styles.environmentButton,
+                  isCurrent && styles.environmentButtonActive,
+                ]}
+                onPress={() => confirmSwitch(environment.name)}
+                disabled={isCurrent || isSwitching}>
+                <Text style={styles.environmentLabel}>{environment.label}</Text>
+                <Text style={styles.environmentUrl}>{environment.baseUrl}</Text>
+              </TouchableOpacity>
+            );
+          })}
+
+          <Text style={styles.sectionLabel}>Custom base URL</Text>
+          <TextInput
+            style={[styles.input, error ? styles.inputError : null]}
+            placeholder="https://api.example.com"
+            value={customUrl}
+            onChangeText={text => {
+              setCustomUrl(text);
+              if (error) setError('');
+            }}
+            autoCapitalize="none"
+            autoCorrect={false}
+            keyboardType="url"
+            editable={!isSwitching}
+          />
+          {error ? <Text style={styles.errorText}>{error}</Text> : null}
+
+          <View style={styles.buttonContainer}>
+            <TouchableOpacity
+              style={[styles.button, styles.cancelButton]}
+              onPress={handleClose}
+              disabled={isSwitching}>
+              <Text style={styles.cancelButtonText}>Close</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[
+                styles.button,
+                styles.applyButton,
+                (!customUrl.trim() || isSwitching) &&
+                  styles.applyButtonDisabled,
+              ]}
+              onPress={() => confirmSwitch('custom', customUrl)}
+              disabled={!customUrl.trim() || isSwitching}>
+              <Text style={styles.applyButtonText}>
+                {isSwitching ? 'Switching...' : 'Use Custom URL'}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  container: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 24,
+    width: '100%',
+    maxWidth: 400,
+    maxHeight: '90%',
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#333',
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  currentText: {
+    fontSize: 13,
+    color: '#666',
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  sectionLabel: {
+    fontSize: 16,
+    color: '#333',
+    fontWeight: '500',
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  environmentButton: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+  },
+  environmentButtonActive: {
+    borderColor: '#8B5CF6',
+    backgroundColor: '#F5F3FF',
+  },
+  environmentLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  environmentUrl: {
+    fontSize: 12,
+    color: '#666',
+    fontFamily: 'monospace',
+    marginTop: 2,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    marginBottom: 8,
+    fontFamily: 'monospace',
+  },
+  inputError: {
+    borderColor: '#d32f2f',
+    backgroundColor: '#ffebee',
+  },
+  errorText: {
+    color: '#d32f2f',
+    fontSize: 14,
+    marginBottom: 8,
+  },
+  buttonContainer: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 8,
+  },
+  button: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  cancelButton: {
+    backgroundColor: '#f5f5f5',
+    borderWidth: 1,
+    borderColor: '#ddd',
+  },
+  cancelButtonText: {
+    color: '#333',
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  applyButton: {
+    backgroundColor: '#8B5CF6',
+  },
+  applyButtonDisabled: {
+    opacity: 0.5,
+  },
+  applyButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
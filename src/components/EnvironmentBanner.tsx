@@ -0,0 +1,42 @@
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useApiEnvironment } from '../hooks/useApiEnvironment';
+
+// Marks every screen with the backend in use, unless it is production
+export const EnvironmentBanner: React.FC = () => {
+  const environment = useApiEnvironment();
+  const insets = useSafeAreaInsets();
+
+  if (environment.name === 'production') {
+    return null;
+  }
+
+  return (
+    <View
+      pointerEvents="none"
+      style={[styles.container, { top: insets.top + 4 }]}>
+      <Text style={styles.text} numberOfLines={1}>
+        {environment.label}
+        {environment.name === 'custom' ? ` · ${environment.baseUrl}` : ''}
+      </Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    right: 8,
+    maxWidth: '60%',
+    backgroundColor: 'rgba(139, 92, 246, 0.9)',
+    borderRadius: 10,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+  },
+  text: {
+    color: '#fff',
+    fontSize: 11,
+    fontWeight: '600',
+  },
+});
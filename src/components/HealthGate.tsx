@@ -0,0 +1,162 @@
+import React, { ReactNode, useState } from 'react';
+import {
+  ActivityIndicator,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useBackendHealth } from '../hooks/useBackendHealth';
+import { useIsOnline } from '../hooks/useIsOnline';
+import { demoMode, mockBackend } from '../mocks';
+import TonightLogo from './TonightLogo';
+
+interface HealthGateProps {
+  children: ReactNode;
+}
+
+// Keeps the notice clear of the tab bar
+const TAB_BAR_CLEARANCE = 72;
+
+// Holds the app back until the backend answers its health check, and covers
+// it with a maintenance screen whenever a check finds the backend down. An
+// unreachable backend does not block the app, so cached screens stay usable
+// under a notice with a retry.
+export const HealthGate: React.FC<HealthGateProps> = ({ children }) => {
+  const { health, isChecking, recheck } = useBackendHealth();
+  const isOnline = useIsOnline();
+  const insets = useSafeAreaInsets();
+  // Once the app has been shown, keep it mounted underneath the maintenance
+  // screen so navigation state survives an outage
+  const [hasStarted, setHasStarted] = useState(false);
+  // The in-process backends never go down for maintenance
+  const isMocked = demoMode.isActive() || mockBackend.isInstalled();
+  const isDown = !isMocked && health?.state === 'maintenance';
+  // Without a connection the offline banner already explains the failure
+  const isUnreachable = !isMocked && isOnline && health?.state === 'offline';
+
+  if ((isMocked || health) && !isDown && !hasStarted) {
+    setHasStarted(true);
+  }
+
+  if (!health && !hasStarted) {
+    return (
+      <View style={styles.container}>
+        <TonightLogo size="large" />
+        <ActivityIndicator style={styles.spinner} color="#8B5CF6" />
+      </View>
+    );
+  }
+
+  return (
+    <>
+      {hasStarted && children}
+      {hasStarted && isUnreachable && (
+        <View
+          style={[styles.notice, { bottom: insets.bottom + TAB_BAR_CLEARANCE }]}
+          accessibilityRole="alert">
+          <Text style={styles.noticeText}>
+            Can&apos;t reach Tonight. Showing saved data.
+          </Text>
+          <TouchableOpacity onPress={() => recheck()} disabled={isChecking}>
+            {isChecking ? (
+              <ActivityIndicator color="#fff" size="small" />
+            ) : (
+              <Text style={styles.noticeAction}>Retry</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      )}
+      {isDown && (
+        <View style={[styles.container, hasStarted && styles.overlay]}>
+          <TonightLogo size="large" />
+          <Text style={styles.title}>We&apos;ll be right back</Text>
+          <Text style={styles.message}>
+            Tonight is down for maintenance. Please try again in a few minutes.
+          </Text>
+          <TouchableOpacity
+            style={[styles.retryButton, isChecking && styles.retryDisabled]}
+            onPress={() => recheck()}
+            disabled={isChecking}>
+            {isChecking ? (
+              <ActivityIndicator color="#fff" />
+            ) : (
+              <Text style={styles.retryText}>Try Again</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      )}
+    </>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 32,
+    backgroundColor: '#f5f5f5',
+  },
+  overlay: {
+    ...StyleSheet.absoluteFillObject,
+  },
+  spinner: {
+    marginTop: 24,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#333',
+    marginTop: 24,
+    textAlign: 'center',
+  },
+  message: {
+    fontSize: 16,
+    color: '#666',
+    marginTop: 8,
+    textAlign: 'center',
+    lineHeight: 22,
+  },
+  retryButton: {
+    marginTop: 32,
+    backgroundColor: '#8B5CF6',
+    paddingVertical: 14,
+    paddingHorizontal: 32,
+    borderRadius: 8,
+    minWidth: 160,
+    alignItems: 'center',
+  },
+  retryDisabled: {
+    opacity: 0.7,
+  },
+  retryText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  notice: {
+    position: 'absolute',
+    left: 12,
+    right: 12,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+    backgroundColor: '#333',
+    borderRadius: 8,
+    paddingVertical: 10,
+    paddingHorizontal: 14,
+  },
+  noticeText: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 14,
+  },
+  noticeAction: {
+    color: '#C4B5FD',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+});
@@ -0,0 +1,66 @@
+import React from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { identityProviders } from '../services';
+
+interface IdentityProviderButtonsProps {
+  // Button text before the provider's name, e.g. "Continue with"
+  action: string;
+  onSelect: (providerId: string) => void;
+  // The provider whose sign-in is in progress, if any
+  pendingProviderId?: string | null;
+}
+
+// One button per configured identity provider; renders nothing when none
+// are configured
+export const IdentityProviderButtons: React.FC<
+  IdentityProviderButtonsProps
+> = ({ action, onSelect, pendingProviderId }) => {
+  const providers = identityProviders.list();
+
+  if (providers.length === 0) {
+    return null;
+  }
+
+  return (
+    <View style={styles.container}>
+      {providers.map(provider => {
+        const isPending = pendingProviderId === provider.id;
+        return (
+          <TouchableOpacity
+            key={provider.id}
+            style={[styles.button, !!pendingProviderId && styles.disabled]}
+            onPress={() => onSelect(provider.id)}
+            disabled={!!pendingProviderId}>
+            <Text style={styles.buttonText}>
+              {isPending
+                ? `Signing in with ${provider.label}...`
+                : `${action} ${provider.label}`}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 10,
+  },
+  button: {
+    backgroundColor: '#4285f4',
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+    borderRadius: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  disabled: {
+    backgroundColor: '#ccc',
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,39 @@
+import { Ionicons } from '@expo/vector-icons';
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import { useIsOnline } from '../hooks/useIsOnline';
+
+// Shown across the tabs while the device has no connection
+export const OfflineBanner: React.FC = () => {
+  const isOnline = useIsOnline();
+
+  if (isOnline) {
+    return null;
+  }
+
+  return (
+    <View style={styles.container} accessibilityRole="alert">
+      <Ionicons name="cloud-offline-outline" size={16} color="#fff" />
+      <Text style={styles.text}>
+        You&apos;re offline. Showing saved data until you reconnect.
+      </Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    backgroundColor: '#6c757d',
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+  },
+  text: {
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: '500',
+  },
+});
@@ -0,0 +1,139 @@
+import React from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import {
+  mutationOutbox,
+  OutboxItem,
+  OutboxItemStatus,
+} from '../services/mutationOutbox';
+
+interface PendingSyncListProps {
+  items: OutboxItem[];
+}
+
+const STATUS_LABELS: Record<OutboxItemStatus, string> = {
+  pending: 'Pending sync',
+  sent: 'Synced',
+  failed: 'Failed',
+  conflict: 'Conflict',
+};
+
+const describeItem = (item: OutboxItem): string => {
+  switch (item.type) {
+    case 'create-date-event':
+      return `New date on ${item.payload.eventDate} at ${item.payload.eventTime}`;
+    case 'join-date-event':
+      return 'Join request';
+    case 'respond-date-request':
+      return item.payload.response.accept
+        ? 'Accepting a request'
+        : 'Declining a request';
+  }
+};
+
+// Mutations made offline that have not been confirmed by the server yet
+export const PendingSyncList: React.FC<PendingSyncListProps> = ({ items }) => {
+  if (items.length === 0) {
+    return null;
+  }
+
+  return (
+    <View style={styles.container}>
+      {items.map(item => (
+        <View key={item.id} style={styles.item}>
+          <View style={styles.itemText}>
+            <Text style={styles.description}>{describeItem(item)}</Text>
+            {item.error && item.status !== 'pending' && (
+              <Text style={styles.errorText}>{item.error}</Text>
+            )}
+          </View>
+
+          <View style={[styles.statusBadge, statusStyles[item.status]]}>
+            <Text style={styles.statusText}>{STATUS_LABELS[item.status]}</Text>
+          </View>
+
+          {item.status === 'failed' && (
+            <TouchableOpacity
+              style={styles.actionButton}
+              onPress={() => mutationOutbox.retry(item.id)}>
+              <Text style={styles.actionText}>Retry</Text>
+            </TouchableOpacity>
+          )}
+          {item.status !== 'pending' && (
+            <TouchableOpacity
+              style={styles.actionButton}
+              onPress={() => mutationOutbox.dismiss(item.id)}>
+              <Text style={styles.actionText}>✕</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#e9ecef',
+  },
+  item: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    gap: 8,
+  },
+  itemText: {
+    flex: 1,
+  },
+  description: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+  errorText: {
+    fontSize: 12,
+    color: '#dc3545',
+    marginTop: 2,
+  },
+  statusBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  statusText: {
+    fontSize: 12,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+  },
+  actionButton: {
+    paddingHorizontal: 6,
+    paddingVertical: 4,
+  },
+  actionText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#007bff',
+  },
+});
+
+const statusStyles = StyleSheet.create({
+  pending: {
+    backgroundColor: '#fff3cd',
+  },
+  sent: {
+    backgroundColor: '#d4edda',
+  },
+  failed: {
+    backgroundColor: '#f8d7da',
+  },
+  conflict: {
+    backgroundColor: '#ffe5d0',
+  },
+});
+
+export default PendingSyncList;
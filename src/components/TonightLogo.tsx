@@ -1,6 +1,11 @@
 import { LinearGradient } from 'expo-linear-gradient';
-import React from 'react';
-import { StyleSheet, Text, View } from 'react-native';
+import React, { useState } from 'react';
+import { Pressable, StyleSheet, Text, View } from 'react-native';
+import { DebugMenu } from './DebugMenu';
+
+// QA builds opt in to the hidden debug menu; development builds always have it
+const DEBUG_MENU_ENABLED =
+  __DEV__ || process.env.EXPO_PUBLIC_DEBUG_MENU === 'true';
 
 interface TonightLogoProps {
   size?: 'small' | 'medium' | 'large';
@@ -13,6 +18,8 @@ const TonightLogo: React.FC<TonightLogoProps> = ({
   showHeart = false,
   style,
 }) => {
+  const [isDebugMenuVisible, setIsDebugMenuVisible] = useState(false);
+
   const getSizeStyles = () => {
     switch (size) {
       case 'small':
@@ -42,7 +49,12 @@ const TonightLogo: React.FC<TonightLogoProps> = ({
   const sizeStyles = getSizeStyles();
 
   return (
-    <View style={[styles.container, style]}>
+    <Pressable
+      style={[styles.container, style]}
+      onLongPress={
+        DEBUG_MENU_ENABLED ? () => setIsDebugMenuVisible(true) : undefined
+      }
+      delayLongPress={1500}>
       {showHeart && (
         <View style={styles.heartContainer}>
           <LinearGradient
@@ -81,7 +93,13 @@ const TonightLogo: React.FC<TonightLogoProps> = ({
           TONIGHT
         </Text>
       </LinearGradient>
-    </View>
+      {DEBUG_MENU_ENABLED && (
+        <DebugMenu
+          visible={isDebugMenuVisible}
+          onClose={() => setIsDebugMenuVisible(false)}
+        />
+      )}
+    </Pressable>
   );
 };
 
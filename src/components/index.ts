@@ -1,4 +1,9 @@
 // Component exports
 export { default as TonightLogo } from './TonightLogo';
+export { DebugMenu } from './DebugMenu';
+export { EnvironmentBanner } from './EnvironmentBanner';
+export { HealthGate } from './HealthGate';
+export { IdentityProviderButtons } from './IdentityProviderButtons';
+export { OfflineBanner } from './OfflineBanner';
 
 // Re-export other components as needed
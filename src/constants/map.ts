@@ -0,0 +1,5 @@
+// Where the map opens when the user's location is unknown (Manchester)
+export const DEFAULT_MAP_CENTER = {
+  lat: 53.4808,
+  lng: -2.2426,
+};
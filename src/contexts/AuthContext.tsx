@@ -1,3 +1,4 @@
+import { useQueryClient } from '@tanstack/react-query';
 import React, {
   createContext,
   ReactNode,
@@ -5,18 +6,33 @@ import React, {
   useEffect,
   useState,
 } from 'react';
-import { authService } from '../services';
-import { userService } from '../services/userService';
-import { CompleteProfileRequest, UserResponse } from '../types';
-import { platformStorage } from '../utils/platformStorage';
+import { demoMode } from '../mocks';
+import {
+  LoginMethod,
+  oidcService,
+  SessionEndReason,
+  sessionManager,
+  SessionState,
+} from '../services';
+import { CompleteProfileRequest, LoginRequest, UserResponse } from '../types';
 
 interface AuthContextType {
   user: UserResponse | null;
   isAuthenticated: boolean;
   isLoading: boolean;
-  login: (user: UserResponse) => Promise<void>;
-  signup: (profileData: CompleteProfileRequest) => Promise<void>;
-  googleLogin: (credential: string) => Promise<void>;
+  loginMethod: LoginMethod | null;
+  // Epoch ms when the access token expires, if known
+  expiresAt: number | null;
+  // Why the previous session ended, if it did
+  endReason: SessionEndReason | null;
+  login: (credentials: LoginRequest) => Promise<UserResponse>;
+  signup: (profileData: CompleteProfileRequest) => Promise<UserResponse>;
+  // Runs the provider's sign-in flow, then logs in with its ID token
+  loginWithProvider: (providerId: string) => Promise<UserResponse>;
+  linkProvider: (providerId: string) => Promise<void>;
+  unlinkProvider: (providerId: string) => Promise<void>;
+  startDemo: () => Promise<UserResponse>;
+  resetDemo: () => Promise<void>;
   logout: () => Promise<void>;
   updateUser: (user: UserResponse) => Promise<void>;
   deleteUser: () => Promise<void>;
@@ -28,136 +44,72 @@ interface AuthProviderProps {
   children: ReactNode;
 }
 
-export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
-  const [user, setUser] = useState<UserResponse | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
-
-  // Load user data from platformStorage on app start
-  useEffect(() => {
-    const loadUserData = async () => {
-      try {
-        const storedUser = await platformStorage.getItem('userData');
-        if (storedUser) {
-          const parsedUser = JSON.parse(storedUser);
-
-          // Handle migration: if the stored user has a 'data' property, extract it
-          if (parsedUser.data && parsedUser.success) {
-            console.log('Migrating user data from old format');
-            const migratedUser = parsedUser.data;
-            setUser(migratedUser);
-            // Update storage with the correct format
-            await platformStorage.setItem(
-              'userData',
-              JSON.stringify(migratedUser)
-            );
-          } else {
-            // Already in correct format
-            setUser(parsedUser);
-          }
-        }
-      } catch (error) {
-        console.error('Failed to load user data:', error);
-      } finally {
-        setIsLoading(false);
-      }
-    };
-
-    loadUserData();
-  }, []);
-
-  const login = async (userData: UserResponse) => {
-    try {
-      if (!userData) {
-        console.error('Login called with undefined userData');
-        return;
-      }
-      setUser(userData);
-      await platformStorage.setItem('userData', JSON.stringify(userData));
-    } catch (error) {
-      console.error('Failed to save user data:', error);
-    }
-  };
-
-  const signup = async (profileData: CompleteProfileRequest) => {
-    try {
-      console.log('Creating user profile and logging in...');
-      const userData = await authService.completeProfile(profileData);
+const loginWithProvider = async (providerId: string): Promise<UserResponse> => {
+  const { idToken } = await oidcService.signIn(providerId);
+  return sessionManager.loginWithProvider(providerId, idToken);
+};
 
-      // Automatically log the user in after successful profile creation
-      setUser(userData);
-      await platformStorage.setItem('userData', JSON.stringify(userData));
+// The user signs in to the provider to prove they own that account
+const linkProvider = async (providerId: string): Promise<void> => {
+  const { idToken } = await oidcService.signIn(providerId);
+  await sessionManager.linkProvider(providerId, idToken);
+};
 
-      console.log('User created and logged in successfully:', userData);
-    } catch (error) {
-      console.error('Failed to create profile and login:', error);
-      throw error;
-    }
-  };
+// Signs in as the demo user on the demo backend
+const startDemo = async (): Promise<UserResponse> => {
+  const auth = await demoMode.start();
+  return sessionManager.begin(auth, 'demo');
+};
 
-  const googleLogin = async (credential: string) => {
-    try {
-      const authResponse = await authService.googleLogin(credential);
-      setUser(authResponse.user);
-      await platformStorage.setItem(
-        'userData',
-        JSON.stringify(authResponse.user)
-      );
-      if (authResponse.token) {
-        await platformStorage.setItem('authToken', authResponse.token);
-      }
-    } catch (error) {
-      console.error('Failed to login with Google:', error);
-      throw error;
-    }
-  };
+// Puts the demo data back and signs the demo user in again, since the reset
+// ended their session
+const resetDemo = async (): Promise<void> => {
+  const auth = await demoMode.reset();
+  if (auth) {
+    await sessionManager.begin(auth, 'demo');
+  }
+};
 
-  const logout = async () => {
-    try {
-      setUser(null);
-      await platformStorage.removeItem('userData');
-      await platformStorage.removeItem('authToken');
-    } catch (error) {
-      console.error('Failed to clear user data:', error);
-    }
-  };
+// A view over sessionManager, which owns the session and keeps storage and
+// the API client in step with it
+export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
+  const [session, setSession] = useState<SessionState>(() =>
+    sessionManager.getState()
+  );
 
-  const updateUser = async (userData: UserResponse) => {
-    try {
-      setUser(userData);
-      await platformStorage.setItem('userData', JSON.stringify(userData));
-    } catch (error) {
-      console.error('Failed to update user data:', error);
-    }
-  };
+  const queryClient = useQueryClient();
 
-  const deleteUser = async () => {
-    try {
-      if (!user?.id) {
-        throw new Error('No user logged in');
+  useEffect(() => {
+    // Catch a change made between the first render and subscribing
+    setSession(sessionManager.getState());
+    const unsubscribe = sessionManager.subscribe(state => {
+      setSession(state);
+      // Cached queries belong to the user whose session just ended
+      if (state.status === 'signed-out') {
+        queryClient.clear();
       }
-
-      await userService.deleteUser(user.id);
-
-      // Clear user data after successful deletion
-      setUser(null);
-      await platformStorage.removeItem('userData');
-      await platformStorage.removeItem('authToken');
-    } catch (error) {
-      console.error('Failed to delete user account:', error);
-      throw error; // Re-throw so the UI can handle it
-    }
-  };
+    });
+    sessionManager.restore();
+    return unsubscribe;
+  }, [queryClient]);
 
   const value: AuthContextType = {
-    user,
-    isAuthenticated: !!user,
-    isLoading,
-    login,
-    signup,
-    googleLogin,
-    logout,
-    updateUser,
-    deleteUser,
+    user: session.user,
+    isAuthenticated: session.status === 'signed-in',
+    isLoading: session.status === 'loading',
+    loginMethod: session.loginMethod,
+    expiresAt: session.expiresAt,
+    endReason: session.endReason,
+    login: credentials => sessionManager.loginWithPassword(credentials),
+    signup: profileData => sessionManager.signup(profileData),
+    loginWithProvider,
+    linkProvider,
+    unlinkProvider: providerId => sessionManager.unlinkProvider(providerId),
+    startDemo,
+    resetDemo,
+    logout: () => sessionManager.logout(),
+    updateUser: user => sessionManager.updateUser(user),
+    deleteUser: () => sessionManager.deleteAccount(),
   };
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
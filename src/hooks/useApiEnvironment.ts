@@ -0,0 +1,19 @@
+import { useEffect, useState } from 'react';
+import { ApiEnvironment, apiEnvironment } from '../services/apiEnvironment';
+
+// The backend the app is currently talking to, updated when QA switches it
+export const useApiEnvironment = (): ApiEnvironment => {
+  const [environment, setEnvironment] = useState(() =>
+    apiEnvironment.getCurrent()
+  );
+
+  useEffect(() => {
+    // Catch a switch made between the first render and subscribing
+    setEnvironment(apiEnvironment.getCurrent());
+    return apiEnvironment.subscribe(setEnvironment);
+  }, []);
+
+  return environment;
+};
+
+export default useApiEnvironment;
@@ -0,0 +1,75 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { AppState } from 'react-native';
+import { apiEnvironment } from '../services/apiEnvironment';
+import { BackendHealth, healthService } from '../services/healthService';
+
+// How often the backend is re-checked while the app is in the foreground
+const HEALTHY_INTERVAL_MS = 60 * 1000;
+const UNHEALTHY_INTERVAL_MS = 15 * 1000;
+
+interface BackendHealthState {
+  // Null until the first check finishes
+  health: BackendHealth | null;
+  isChecking: boolean;
+  recheck: () => Promise<void>;
+}
+
+// Health of the backend, checked on mount, when the app returns to the
+// foreground, when the API environment changes and periodically in between
+export const useBackendHealth = (): BackendHealthState => {
+  const [health, setHealth] = useState<BackendHealth | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [isActive, setIsActive] = useState(
+    AppState.currentState !== 'background'
+  );
+  const inFlight = useRef<Promise<void> | null>(null);
+
+  const recheck = useCallback(() => {
+    // Overlapping triggers share one request
+    if (!inFlight.current) {
+      setIsChecking(true);
+      inFlight.current = healthService
+        .check()
+        .then(setHealth)
+        .finally(() => {
+          inFlight.current = null;
+          setIsChecking(false);
+        });
+    }
+    return inFlight.current;
+  }, []);
+
+  useEffect(() => {
+    recheck();
+    const appState = AppState.addEventListener('change', state => {
+      const active = state === 'active';
+      setIsActive(active);
+      if (active) {
+        recheck();
+      }
+    });
+    const unsubscribe = apiEnvironment.subscribe(() => {
+      recheck();
+    });
+    return () => {
+      appState.remove();
+      unsubscribe();
+    };
+  }, [recheck]);
+
+  const state = health?.state;
+  useEffect(() => {
+    if (!isActive || !state) {
+      return;
+    }
+    const timer = setInterval(
+      recheck,
+      state === 'ok' ? HEALTHY_INTERVAL_MS : UNHEALTHY_INTERVAL_MS
+    );
+    return () => clearInterval(timer);
+  }, [isActive, state, recheck]);
+
+  return { health, isChecking, recheck };
+};
+
+export default useBackendHealth;
@@ -0,0 +1,16 @@
+import { useEffect, useState } from 'react';
+import { connectivity } from '../services/connectivity';
+
+// Whether the device is online, as tracked by the connectivity monitor
+export const useIsOnline = (): boolean => {
+  const [isOnline, setIsOnline] = useState(() => connectivity.isOnline());
+
+  useEffect(() => {
+    setIsOnline(connectivity.isOnline());
+    return connectivity.subscribe(setIsOnline);
+  }, []);
+
+  return isOnline;
+};
+
+export default useIsOnline;
@@ -0,0 +1,31 @@
+import { useEffect, useState } from 'react';
+import {
+  mutationOutbox,
+  OutboxItem,
+  OutboxMutationType,
+} from '../services/mutationOutbox';
+
+// Live view of the offline outbox, optionally limited to some mutation types
+export const useMutationOutbox = (
+  types?: OutboxMutationType[]
+): OutboxItem[] => {
+  const [items, setItems] = useState<OutboxItem[]>([]);
+
+  useEffect(() => {
+    let active = true;
+    mutationOutbox.getItems().then(loaded => {
+      if (active) {
+        setItems(loaded);
+      }
+    });
+    const unsubscribe = mutationOutbox.subscribe(setItems);
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, []);
+
+  return types ? items.filter(item => types.includes(item.type)) : items;
+};
+
+export default useMutationOutbox;
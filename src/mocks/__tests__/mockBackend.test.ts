@@ -0,0 +1,243 @@
+import { apiClient } from '../../services/apiClient';
+import {
+  ConflictError,
+  DuplicateRequestError,
+  NetworkError,
+  NotFoundError,
+  ServerError,
+  UnauthorizedError,
+  ValidationFailedError,
+} from '../../services/apiErrors';
+import { authService } from '../../services/authService';
+import { dateEventService } from '../../services/dateEventService';
+import { referenceCache } from '../../services/referenceCache';
+import { userService } from '../../services/userService';
+import { venueService } from '../../services/venueService';
+import { dayOffset, MOCK_PASSWORD } from '../fixtures';
+import { MockBackend } from '../mockBackend';
+import { matchRoute } from '../mockRoutes';
+
+// The services talk to the mock backend exactly as they would to the API
+describe('MockBackend', () => {
+  let backend: MockBackend;
+  let uninstall: () => void;
+
+  const signIn = async (identifier: string) => {
+    const auth = await authService.login({
+      identifier,
+      password: MOCK_PASSWORD,
+    });
+    await apiClient.setSession({
+      accessToken: auth.token!,
+      refreshToken: auth.refreshToken,
+    });
+    return auth.user;
+  };
+
+  beforeEach(() => {
+    backend = new MockBackend();
+    uninstall = backend.install();
+  });
+
+  afterEach(async () => {
+    uninstall();
+    await apiClient.clearSession();
+    await referenceCache.clear();
+  });
+
+  describe('auth', () => {
+    it('signs in a fixture user by username or email', async () => {
+      await expect(signIn('alex')).resolves.toMatchObject({ id: 'user-1' });
+      await expect(signIn('sam@example.com')).resolves.toMatchObject({
+        id: 'user-2',
+      });
+      await expect(authService.getCurrentUser()).resolves.toMatchObject({
+        user: { id: 'user-2' },
+      });
+    });
+
+    it('rejects a wrong password', async () => {
+      await expect(
+        authService.login({ identifier: 'alex', password: 'wrong' })
+      ).rejects.toBeInstanceOf(UnauthorizedError);
+    });
+
+    it('refreshes an expired access token transparently', async () => {
+      await signIn('alex');
+      backend.setScenario('expired-token');
+
+      await expect(dateEventService.getDateEvents()).resolves.toHaveLength(2);
+      expect(apiClient.getToken()).not.toBeNull();
+    });
+
+    it('ends the session once it has been revoked', async () => {
+      await signIn('alex');
+      backend.revokeSessions();
+
+      await expect(dateEventService.getDateEvents()).rejects.toBeInstanceOf(
+        UnauthorizedError
+      );
+      expect(apiClient.getToken()).toBeNull();
+    });
+  });
+
+  describe('date events', () => {
+    const tomorrow = dayOffset(new Date(), 1);
+
+    it('runs a date from creation to a match', async () => {
+      await signIn('alex');
+      const event = await dateEventService.createDateEvent({
+        hostUserId: 'user-1',
+        barId: 'venue-1',
+        eventDate: tomorrow,
+        eventTime: '20:00',
+      });
+
+      await signIn('sam');
+      const joined = await dateEventService.requestToJoinDateEvent({
+        dateEventId: event.id,
+        requesterId: 'user-2',
+      });
+      await expect(
+        dateEventService.requestToJoinDateEvent({
+          dateEventId: event.id,
+          requesterId: 'user-2',
+        })
+      ).rejects.toBeInstanceOf(ConflictError);
+
+      await signIn('alex');
+      await expect(
+        dateEventService.getAvailableRequests('user-1')
+      ).resolves.toEqual([expect.objectContaining({ id: joined.id })]);
+      await dateEventService.respondToDateRequest(joined.id, { accept: true });
+
+      await expect(
+        dateEventService.getDateEvent(event.id)
+      ).resolves.toMatchObject({
+        status: 'accepted',
+        acceptedUserId: 'user-2',
+        isOpen: false,
+      });
+    });
+
+    it('finds open dates near a point, excluding the requester’s own', async () => {
+      await signIn('alex');
+
+      const events = await dateEventService.getDateEventsInArea({
+        lat: 51.5074,
+        lng: -0.1278,
+        radius: 5000,
+        requestingUserId: 'user-2',
+      });
+
+      expect(events.map(event => event.hostUserId)).not.toContain('user-2');
+      expect(events.length).toBeGreaterThan(0);
+    });
+
+    it('only lets users act on their own behalf', async () => {
+      await signIn('alex');
+
+      await expect(
+        dateEventService.createDateEvent({
+          hostUserId: 'user-2',
+          barId: 'venue-1',
+          eventDate: tomorrow,
+          eventTime: '20:00',
+        })
+      ).rejects.toMatchObject({ status: 403 });
+    });
+
+    it('validates required fields', async () => {
+      await signIn('alex');
+
+      await expect(
+        apiClient.postData('/date-events', { hostUserId: 'user-1' })
+      ).rejects.toBeInstanceOf(ValidationFailedError);
+    });
+
+    it('reports a replayed idempotency key', async () => {
+      await signIn('alex');
+      const body = {
+        hostUserId: 'user-1',
+        barId: 'venue-1',
+        eventDate: tomorrow,
+        eventTime: '21:00',
+      };
+      await apiClient.postData('/date-events', body, { idempotencyKey: 'k1' });
+
+      await expect(
+        apiClient.postData('/date-events', body, { idempotencyKey: 'k1' })
+      ).rejects.toBeInstanceOf(DuplicateRequestError);
+    });
+  });
+
+  describe('users and venues', () => {
+    it('serves profiles, venues and reference data', async () => {
+      await signIn('alex');
+
+      await expect(
+        userService.getPublicProfile('user-2')
+      ).resolves.toMatchObject({ username: 'sam' });
+      await expect(venueService.getCities()).resolves.toContain('London');
+      await expect(userService.getPromptCategories()).resolves.not.toHaveLength(
+        0
+      );
+      await expect(
+        venueService.searchVenues({ lat: 51.5074, lng: -0.1278 })
+      ).resolves.not.toHaveLength(0);
+    });
+
+    it('answers unknown routes with a 404', async () => {
+      await expect(
+        apiClient.get('/nowhere', { retry: false })
+      ).rejects.toBeInstanceOf(NotFoundError);
+    });
+  });
+
+  describe('scenarios', () => {
+    it('fails the planned number of requests, then recovers', async () => {
+      backend.failNext(1, { status: 500, endpoint: '/health' });
+
+      await expect(
+        apiClient.get('/health', { retry: false })
+      ).rejects.toBeInstanceOf(ServerError);
+      await expect(apiClient.get('/health')).resolves.toMatchObject({
+        status: 'ok',
+      });
+    });
+
+    it('simulates a device without a connection', async () => {
+      backend.setScenario('offline');
+
+      await expect(
+        apiClient.get('/health', { retry: false })
+      ).rejects.toBeInstanceOf(NetworkError);
+    });
+
+    it('starts over from the seed on reset', async () => {
+      await signIn('alex');
+      await apiClient.postData('/date-events', {
+        hostUserId: 'user-1',
+        barId: 'venue-1',
+        eventDate: dayOffset(new Date(), 2),
+        eventTime: '19:00',
+      });
+      backend.setScenario('server-error');
+
+      backend.reset();
+
+      expect(backend.store.events).toHaveLength(2);
+      await expect(apiClient.get('/health')).resolves.toBeDefined();
+    });
+  });
+});
+
+describe('matchRoute', () => {
+  it('extracts placeholders and rejects other paths', () => {
+    expect(matchRoute('/users/:id/profile', '/users/user%201/profile')).toEqual(
+      { id: 'user 1' }
+    );
+    expect(matchRoute('/users/:id', '/users/1/profile')).toBeNull();
+    expect(matchRoute('/users/search', '/users/1')).toBeNull();
+  });
+});
@@ -0,0 +1,140 @@
+import { authService } from '../services/authService';
+import { UnauthorizedError } from '../services/apiErrors';
+import { connectivity } from '../services/connectivity';
+import { referenceCache } from '../services/referenceCache';
+import { sessionManager } from '../services/sessionManager';
+import { AuthResponseData } from '../types';
+import { logger } from '../utils/logger';
+import { platformStorage } from '../utils/platformStorage';
+import { createDemoSeed, DEMO_CREDENTIALS } from './demoSeed';
+import { MockBackend } from './mockBackend';
+
+const ENABLED_KEY = 'demoMode';
+const STATE_KEY = 'demoMode:state';
+
+// Runs the app against an in-memory backend seeded with a fake city, for
+// demos without network access. Changes made during a demo are saved on
+// the device and survive restarts until the demo is reset.
+class DemoMode {
+  private backend = new MockBackend(createDemoSeed);
+  private uninstall: (() => void) | null = null;
+  private stateLoaded = false;
+
+  constructor() {
+    this.backend.subscribe(() => {
+      this.saveState();
+    });
+    // Leaving the demo account also leaves the demo backend
+    sessionManager.subscribe(({ status }) => {
+      if (status === 'signed-out') {
+        this.stop().catch(error => {
+          logger.error('Failed to stop demo mode:', error);
+        });
+      }
+    });
+  }
+
+  isActive(): boolean {
+    return this.uninstall !== null;
+  }
+
+  // Resumes demo mode on launch if it was on when the app last closed.
+  // Must finish before anything talks to the API.
+  async restore(): Promise<void> {
+    try {
+      if ((await platformStorage.getItem(ENABLED_KEY)) === 'true') {
+        await this.activate();
+      }
+    } catch (error) {
+      logger.error('Failed to restore demo mode:', error);
+    }
+  }
+
+  // Switches to the demo backend and signs in as the demo user
+  async start(): Promise<AuthResponseData> {
+    await this.activate();
+    await platformStorage.setItem(ENABLED_KEY, 'true');
+
+    try {
+      return await authService.login(DEMO_CREDENTIALS);
+    } catch (error) {
+      // The demo account was deleted during an earlier demo
+      if (error instanceof UnauthorizedError) {
+        logger.warn('Demo account missing, resetting demo data');
+        await this.resetData();
+        return authService.login(DEMO_CREDENTIALS);
+      }
+      throw error;
+    }
+  }
+
+  // Switches back to the real backend. Demo data is kept for next time.
+  async stop(): Promise<void> {
+    if (!this.uninstall) {
+      return;
+    }
+    this.uninstall();
+    this.uninstall = null;
+    connectivity.setAlwaysOnline(false);
+    await platformStorage.removeItem(ENABLED_KEY);
+    // Cities and prompt categories came from the demo backend
+    await referenceCache.clear();
+    logger.info('Demo mode stopped');
+  }
+
+  // Puts the demo data back to its initial state. When the demo is running
+  // the demo user is signed in again, since the reset ended the session.
+  async reset(): Promise<AuthResponseData | null> {
+    await this.resetData();
+    return this.isActive() ? authService.login(DEMO_CREDENTIALS) : null;
+  }
+
+  private async activate(): Promise<void> {
+    if (this.uninstall) {
+      return;
+    }
+    await this.loadState();
+    // Cached cities and prompt categories belong to the real backend
+    await referenceCache.clear();
+    this.uninstall = this.backend.install();
+    // The demo backend answers without a connection
+    connectivity.setAlwaysOnline(true);
+    logger.info('Demo mode started');
+  }
+
+  private async resetData(): Promise<void> {
+    this.backend.reset();
+    this.stateLoaded = true;
+    await this.saveState();
+  }
+
+  private async loadState(): Promise<void> {
+    if (this.stateLoaded) {
+      return;
+    }
+    this.stateLoaded = true;
+    try {
+      const saved = await platformStorage.getItem(STATE_KEY);
+      if (saved) {
+        this.backend.reset(JSON.parse(saved));
+      }
+    } catch (error) {
+      logger.error('Failed to load demo data, starting fresh:', error);
+      this.backend.reset();
+    }
+  }
+
+  private async saveState(): Promise<void> {
+    try {
+      await platformStorage.setItem(
+        STATE_KEY,
+        JSON.stringify(this.backend.store.snapshot())
+      );
+    } catch (error) {
+      logger.error('Failed to save demo data:', error);
+    }
+  }
+}
+
+export const demoMode = new DemoMode();
+export default demoMode;
@@ -0,0 +1,290 @@
+import { PROMPT_CATEGORIES } from '../constants/promptCategories';
+import { DEFAULT_MAP_CENTER } from '../constants/map';
+import {
+  City,
+  DateEvent,
+  DateRequest,
+  Gender,
+  Orientation,
+  UserPromptAnswer,
+  Venue,
+  VenueType,
+} from '../types';
+import { createMockEvent, dayOffset, MockSeed, MockUser } from './fixtures';
+
+export const DEMO_USER_ID = 'demo-user';
+
+// Credentials of the account demo mode signs in with
+export const DEMO_CREDENTIALS = {
+  identifier: 'demo',
+  password: 'tonight-demo',
+};
+
+const DEMO_CITY: City = {
+  key: 'tonightville',
+  name: 'Tonightville',
+  lat: DEFAULT_MAP_CENTER.lat,
+  lng: DEFAULT_MAP_CENTER.lng,
+  radius: 4000,
+};
+
+const VENUE_NAMES: Record<VenueType, string[]> = {
+  bar: [
+    'The Velvet Lantern',
+    'Copper & Clove',
+    'The Night Owl',
+    'Juniper Social',
+    'The Gilded Anchor',
+    'Neon Tide',
+    'The Hidden Stair',
+    'Barrel & Vine',
+    'The Moonlit Fox',
+    'Amber Room',
+    'The Crooked Key',
+    'Saltwater Tavern',
+    'Midnight Botanist',
+    'The Last Orders',
+  ],
+  restaurant: [
+    'Olive & Ember',
+    'Little Saigon Kitchen',
+    'Casa Luz',
+    'The Hungry Heron',
+    'Smoke & Salt',
+    'Trattoria Nove',
+    'Golden Lotus',
+    'The Sunday Table',
+    'Fig Tree Bistro',
+  ],
+  'coffee-shop': [
+    'Bean There',
+    'The Daily Grind',
+    'Roast Republic',
+    'Ground Floor Coffee',
+    'Steam & Story',
+    'The Morning Ritual',
+    'Kettle & Crumb',
+  ],
+};
+
+const STREETS = [
+  'Market St',
+  'King St',
+  'Canal St',
+  'Oldham St',
+  'Deansgate',
+  'Portland St',
+  'Thomas St',
+  'Tib St',
+];
+
+const ANSWERS: Record<string, string> = {
+  'two-truths-lie':
+    "I've met a penguin, I speak four languages, I hate chocolate",
+  'random-fact': 'Octopuses have three hearts',
+  'cocktail-personality': 'An espresso martini: sweet but keeps you up',
+  'karaoke-song': "Don't Stop Me Now",
+  'drink-order': 'A spicy margarita, extra salt',
+  'bar-snack': 'Salt and vinegar crisps, no contest',
+  'bar-type': 'Somewhere with dim lights and good vinyl',
+  'weekend-activity': 'Hunting for the best brunch in town',
+  'friends-describe': 'The one who always knows a place',
+  'sunday-activity': 'Long walk, roast dinner, early night',
+  'makes-me-smile': 'Dogs who think they are much bigger than they are',
+  'pineapple-pizza': 'Yes, and I will defend it',
+  'best-first-date': 'A pub quiz where we came dead last',
+  'hoping-to-meet': 'Laughs at their own jokes before the punchline',
+  'bar-revisit': 'A tiny rooftop bar in Lisbon',
+  'perfect-toast': 'To the people who make the night worth it',
+};
+
+const PEOPLE: {
+  username: string;
+  dob: string;
+  gender: Gender;
+  orientation: Orientation;
+}[] = [
+  {
+    username: 'maya',
+    dob: '1995-04-18',
+    gender: 'female',
+    orientation: 'straight',
+  },
+  { username: 'leo', dob: '1993-09-02', gender: 'male', orientation: 'gay' },
+  {
+    username: 'priya',
+    dob: '1997-01-25',
+    gender: 'female',
+    orientation: 'bisexual',
+  },
+  {
+    username: 'tom',
+    dob: '1990-06-11',
+    gender: 'male',
+    orientation: 'straight',
+  },
+  {
+    username: 'riley',
+    dob: '1996-12-03',
+    gender: 'non-binary',
+    orientation: 'pansexual',
+  },
+  {
+    username: 'sofia',
+    dob: '1992-08-29',
+    gender: 'female',
+    orientation: 'lesbian',
+  },
+  {
+    username: 'daniel',
+    dob: '1994-02-14',
+    gender: 'male',
+    orientation: 'straight',
+  },
+  {
+    username: 'aisha',
+    dob: '1998-05-07',
+    gender: 'female',
+    orientation: 'straight',
+  },
+  {
+    username: 'kai',
+    dob: '1991-10-21',
+    gender: 'male',
+    orientation: 'bisexual',
+  },
+  {
+    username: 'hannah',
+    dob: '1995-11-30',
+    gender: 'female',
+    orientation: 'straight',
+  },
+  { username: 'omar', dob: '1993-03-16', gender: 'male', orientation: 'gay' },
+  {
+    username: 'zoe',
+    dob: '1999-07-09',
+    gender: 'female',
+    orientation: 'pansexual',
+  },
+];
+
+// Small deterministic generator so every reset produces the same city
+const createRandom = (seed: number) => () => {
+  seed = (seed * 1664525 + 1013904223) % 4294967296;
+  return seed / 4294967296;
+};
+
+// Prompt answers for the n-th person, cycling through answerable questions
+const promptAnswersFor = (index: number): UserPromptAnswer[] => {
+  const answerable = PROMPT_CATEGORIES.flatMap(category =>
+    category.questions
+      .filter(question => ANSWERS[question.id])
+      .map(question => ({ categoryId: category.id, questionId: question.id }))
+  );
+  return [0, 5, 11].map(offset => {
+    const prompt = answerable[(index * 3 + offset) % answerable.length];
+    return { ...prompt, answer: ANSWERS[prompt.questionId] };
+  });
+};
+
+// Data set for demo mode: a fake city around the map's default center with
+// a few dozen venues, people with profiles and open dates over the next days
+export const createDemoSeed = (now: Date = new Date()): MockSeed => {
+  const random = createRandom(20240601);
+  const jitter = (spread: number) => (random() - 0.5) * spread;
+
+  const venues: Venue[] = (Object.keys(VENUE_NAMES) as VenueType[]).flatMap(
+    type =>
+      VENUE_NAMES[type].map((name, index) => ({
+        id: `demo-${type}-${index + 1}`,
+        name,
+        address: `${Math.floor(random() * 180) + 1} ${
+          STREETS[Math.floor(random() * STREETS.length)]
+        }`,
+        city: DEMO_CITY.name,
+        // Within roughly 2.5km of the center
+        lat: DEMO_CITY.lat + jitter(0.045),
+        lng: DEMO_CITY.lng + jitter(0.07),
+        rating: Math.round((3.8 + random() * 1.1) * 10) / 10,
+        userRatingCount: Math.floor(random() * 2500) + 40,
+        type,
+      }))
+  );
+
+  const demoUser: MockUser = {
+    id: DEMO_USER_ID,
+    username: DEMO_CREDENTIALS.identifier,
+    email: 'demo@example.com',
+    password: DEMO_CREDENTIALS.password,
+    dob: '1994-06-15',
+    gender: 'female',
+    orientation: 'straight',
+    showGender: true,
+    showOrientation: true,
+    promptAnswers: promptAnswersFor(PEOPLE.length),
+  };
+
+  const people: MockUser[] = PEOPLE.map((person, index) => ({
+    ...person,
+    id: `demo-person-${index + 1}`,
+    email: `${person.username}@example.com`,
+    password: DEMO_CREDENTIALS.password,
+    showGender: true,
+    showOrientation: index % 3 !== 0,
+    promptAnswers: promptAnswersFor(index),
+  }));
+
+  const createdAt = now.toISOString();
+  const times = ['18:30', '19:00', '19:30', '20:00', '20:30', '21:00'];
+  const events: DateEvent[] = people.map((person, index) => {
+    const venue = venues[(index * 7) % venues.length];
+    return createMockEvent(
+      {
+        id: `demo-event-${index + 1}`,
+        hostUserId: person.id,
+        barId: venue.id,
+        eventDate: dayOffset(now, index % 4),
+        eventTime: times[index % times.length],
+        createdAt,
+      },
+      venue
+    );
+  });
+
+  // The demo user hosts two dates that already have people asking to join
+  const hosted = [venues[2], venues[16]].map((venue, index) =>
+    createMockEvent(
+      {
+        id: `demo-event-hosted-${index + 1}`,
+        hostUserId: DEMO_USER_ID,
+        barId: venue.id,
+        eventDate: dayOffset(now, index + 1),
+        eventTime: times[index + 2],
+        createdAt,
+      },
+      venue
+    )
+  );
+
+  const requests: DateRequest[] = [
+    { event: hosted[0], requester: people[3] },
+    { event: hosted[0], requester: people[8] },
+    { event: hosted[1], requester: people[6] },
+  ].map(({ event, requester }, index) => ({
+    id: `demo-request-${index + 1}`,
+    requesterUserId: requester.id,
+    hostId: DEMO_USER_ID,
+    dateEventId: event.id,
+    status: 'pending',
+    requestedAt: createdAt,
+  }));
+
+  return {
+    users: [demoUser, ...people],
+    cities: [DEMO_CITY],
+    venues,
+    events: [...events, ...hosted],
+    requests,
+    promptCategories: PROMPT_CATEGORIES,
+  };
+};
@@ -0,0 +1,211 @@
+import {
+  PROMPT_CATEGORIES,
+  PromptCategory,
+} from '../constants/promptCategories';
+import { City, DateEvent, DateRequest, UserResponse, Venue } from '../types';
+
+// A stored user together with the password the mock accepts at login
+export interface MockUser extends UserResponse {
+  password: string;
+}
+
+// Issued tokens and id counter, kept in snapshots so a saved store resumes
+// where it left off
+export interface MockSessions {
+  counter: number;
+  accessTokens: [string, { userId: string; expired: boolean }][];
+  refreshTokens: [string, string][];
+  idempotencyKeys: string[];
+}
+
+// Everything the mock backend serves. Events are stored without their
+// populated venue / user fields; those are filled in when responding.
+export interface MockSeed {
+  users: MockUser[];
+  cities: City[];
+  venues: Venue[];
+  events: DateEvent[];
+  requests: DateRequest[];
+  promptCategories: PromptCategory[];
+  sessions?: MockSessions;
+}
+
+// Password shared by every fixture user
+export const MOCK_PASSWORD = 'Password123!';
+
+const CITY: City = {
+  key: 'london',
+  name: 'London',
+  lat: 51.5074,
+  lng: -0.1278,
+  radius: 5000,
+};
+
+// YYYY-MM-DD for a day relative to `now`, so fixture events stay upcoming
+export const dayOffset = (now: Date, days: number): string => {
+  const date = new Date(now.getTime() + days * 24 * 60 * 60 * 1000);
+  return date.toISOString().split('T')[0];
+};
+
+export const createMockEvent = (
+  fields: Pick<
+    DateEvent,
+    'id' | 'hostUserId' | 'barId' | 'eventDate' | 'eventTime'
+  > &
+    Partial<DateEvent>,
+  venue?: Venue
+): DateEvent => {
+  const createdAt = fields.createdAt ?? new Date().toISOString();
+  return {
+    eventDateTime: `${fields.eventDate}T${fields.eventTime}:00.000Z`,
+    isOpen: true,
+    status: 'open',
+    lat: venue?.lat,
+    lng: venue?.lng,
+    createdAt,
+    updatedAt: createdAt,
+    ...fields,
+  };
+};
+
+// Small, predictable data set used by default and by tests. Pass `now` to
+// pin the event dates.
+export const createDefaultSeed = (now: Date = new Date()): MockSeed => {
+  const users: MockUser[] = [
+    {
+      id: 'user-1',
+      username: 'alex',
+      email: 'alex@example.com',
+      password: MOCK_PASSWORD,
+      dob: '1994-03-12',
+      gender: 'male',
+      orientation: 'straight',
+      showGender: true,
+      showOrientation: true,
+      promptAnswers: [
+        {
+          categoryId: 'bar-nightlife',
+          questionId: 'drink-order',
+          answer: 'A negroni, stirred not shaken',
+        },
+      ],
+    },
+    {
+      id: 'user-2',
+      username: 'sam',
+      email: 'sam@example.com',
+      password: MOCK_PASSWORD,
+      dob: '1996-07-30',
+      gender: 'female',
+      orientation: 'straight',
+      showGender: true,
+      showOrientation: false,
+      promptAnswers: [
+        {
+          categoryId: 'icebreakers',
+          questionId: 'karaoke-song',
+          answer: 'Dancing Queen, every time',
+        },
+      ],
+    },
+    {
+      id: 'user-3',
+      username: 'jordan',
+      email: 'jordan@example.com',
+      password: MOCK_PASSWORD,
+      dob: '1991-11-02',
+      gender: 'non-binary',
+      orientation: 'pansexual',
+      showGender: true,
+      showOrientation: true,
+      promptAnswers: [
+        {
+          categoryId: 'personality-lifestyle',
+          questionId: 'weekend-activity',
+          answer: 'At a market with a flat white',
+        },
+      ],
+    },
+  ];
+
+  const venues: Venue[] = [
+    {
+      id: 'venue-1',
+      name: 'The Lamb & Flag',
+      address: '33 Rose St',
+      city: CITY.name,
+      lat: 51.5117,
+      lng: -0.1253,
+      rating: 4.4,
+      userRatingCount: 1820,
+      type: 'bar',
+    },
+    {
+      id: 'venue-2',
+      name: 'Gordon’s Wine Bar',
+      address: '47 Villiers St',
+      city: CITY.name,
+      lat: 51.5078,
+      lng: -0.1226,
+      rating: 4.5,
+      userRatingCount: 6120,
+      type: 'bar',
+    },
+    {
+      id: 'venue-3',
+      name: 'Dishoom Covent Garden',
+      address: '12 Upper St Martin’s Ln',
+      city: CITY.name,
+      lat: 51.5124,
+      lng: -0.1268,
+      rating: 4.7,
+      userRatingCount: 15230,
+      type: 'restaurant',
+    },
+    {
+      id: 'venue-4',
+      name: 'Monmouth Coffee',
+      address: '27 Monmouth St',
+      city: CITY.name,
+      lat: 51.5143,
+      lng: -0.1269,
+      rating: 4.6,
+      userRatingCount: 2870,
+      type: 'coffee-shop',
+    },
+  ];
+
+  const events: DateEvent[] = [
+    createMockEvent(
+      {
+        id: 'event-1',
+        hostUserId: 'user-2',
+        barId: 'venue-1',
+        eventDate: dayOffset(now, 1),
+        eventTime: '19:30',
+        createdAt: now.toISOString(),
+      },
+      venues[0]
+    ),
+    createMockEvent(
+      {
+        id: 'event-2',
+        hostUserId: 'user-3',
+        barId: 'venue-4',
+        eventDate: dayOffset(now, 2),
+        eventTime: '11:00',
+        createdAt: now.toISOString(),
+      },
+      venues[3]
+    ),
+  ];
+
+  return {
+    users,
+    cities: [CITY],
+    venues,
+    events,
+    requests: [],
+    promptCategories: PROMPT_CATEGORIES,
+  };
+};
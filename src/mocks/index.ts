@@ -0,0 +1,30 @@
+import { logger } from '../utils/logger';
+import { MOCK_SCENARIOS, mockBackend, MockScenarioName } from './mockBackend';
+
+// Re-export the mock backend for the dev toggle, demo mode and tests
+export * from './demoMode';
+export * from './demoSeed';
+export * from './fixtures';
+export * from './mockBackend';
+export * from './mockRoutes';
+export * from './mockStore';
+
+// Dev toggle: EXPO_PUBLIC_USE_MOCK_API=true serves every API call from the
+// in-process mock backend, and EXPO_PUBLIC_MOCK_API_SCENARIO optionally picks
+// one of MOCK_SCENARIOS (e.g. slow, server-error, expired-token, offline)
+export const installMockBackendFromEnv = (): void => {
+  if (process.env.EXPO_PUBLIC_USE_MOCK_API !== 'true') {
+    return;
+  }
+  mockBackend.install();
+
+  const scenario = process.env.EXPO_PUBLIC_MOCK_API_SCENARIO;
+  if (!scenario) {
+    return;
+  }
+  if (scenario in MOCK_SCENARIOS) {
+    mockBackend.setScenario(scenario as MockScenarioName);
+  } else {
+    logger.warn(`Unknown mock API scenario "${scenario}"`);
+  }
+};
@@ -0,0 +1,297 @@
+import { apiClient } from '../services/apiClient';
+import { NetworkError } from '../services/apiErrors';
+import { Interceptor, RequestContext } from '../services/interceptors';
+import { logger } from '../utils/logger';
+import { createDefaultSeed, MockSeed } from './fixtures';
+import {
+  matchRoute,
+  MOCK_ROUTES,
+  MockQuery,
+  MockRequest,
+  MockRoute,
+} from './mockRoutes';
+import { MockHttpError, MockStore } from './mockStore';
+
+// Conditions the mock backend simulates for every request
+export interface MockScenario {
+  // Delay before each response, in milliseconds
+  latencyMs?: number;
+  // Answer every request with this HTTP status, e.g. 500 or 503
+  failWithStatus?: number;
+  // Fail every request as if the device had no connection
+  offline?: boolean;
+  // Expire every access token issued so far when the scenario starts, so
+  // the next authenticated call goes through a token refresh
+  expireAccessTokens?: boolean;
+}
+
+export const MOCK_SCENARIOS = {
+  normal: {},
+  slow: { latencyMs: 3000 },
+  'server-error': { failWithStatus: 500 },
+  'expired-token': { expireAccessTokens: true },
+  offline: { offline: true },
+} satisfies Record<string, MockScenario>;
+
+export type MockScenarioName = keyof typeof MOCK_SCENARIOS;
+
+type MockChangeListener = (store: MockStore) => void;
+
+interface PlannedFailure {
+  status: number;
+  endpoint?: string;
+  remaining: number;
+}
+
+const delay = (ms: number) =>
+  new Promise<void>(resolve => setTimeout(resolve, ms));
+
+const jsonResponse = (
+  status: number,
+  body: unknown,
+  headers: Record<string, string> = {}
+): Response =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+
+const errorResponse = (
+  error: MockHttpError,
+  headers?: Record<string, string>
+): Response =>
+  jsonResponse(
+    error.status,
+    {
+      success: false,
+      message: error.message,
+      details: error.details,
+    },
+    headers
+  );
+
+// Minimal query string parser; React Native's URLSearchParams is incomplete
+const parseQuery = (queryString: string): MockQuery => {
+  const values = new Map<string, string[]>();
+  queryString
+    .split('&')
+    .filter(Boolean)
+    .forEach(pair => {
+      const [rawName, rawValue = ''] = pair.split('=');
+      const name = decodeURIComponent(rawName.replace(/\+/g, ' '));
+      const value = decodeURIComponent(rawValue.replace(/\+/g, ' '));
+      values.set(name, [...(values.get(name) ?? []), value]);
+    });
+  return {
+    get: name => values.get(name)?.[0] ?? null,
+    getAll: name => values.get(name) ?? [],
+  };
+};
+
+// In-process implementation of the Tonight API. Installed as an ApiClient
+// interceptor it answers every request itself, so the app and tests run
+// without a server. Data lives in memory and starts from a seed.
+export class MockBackend {
+  readonly store: MockStore;
+  private createSeed: () => MockSeed;
+  private scenario: MockScenario = {};
+  private failures: PlannedFailure[] = [];
+  private listeners = new Set<MockChangeListener>();
+  private installed = false;
+
+  readonly interceptor: Interceptor = {
+    name: 'mockBackend',
+    onRequest: request => this.handle(request),
+  };
+
+  constructor(createSeed: () => MockSeed = createDefaultSeed) {
+    this.createSeed = createSeed;
+    this.store = new MockStore(createSeed());
+  }
+
+  // Restores the seed data (or loads another one) and clears any scenario
+  reset(seed: MockSeed = this.createSeed()): void {
+    this.store.load(seed);
+    this.scenario = {};
+    this.failures = [];
+  }
+
+  setScenario(scenario: MockScenarioName | MockScenario): void {
+    this.scenario =
+      typeof scenario === 'string' ? MOCK_SCENARIOS[scenario] : scenario;
+    if (this.scenario.expireAccessTokens) {
+      this.store.expireAccessTokens();
+    }
+  }
+
+  // Called after every request that may have changed data (any successful
+  // mutation); returns an unsubscribe function
+  subscribe(listener: MockChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Answers the next `times` requests (optionally only those whose path
+  // starts with `endpoint`) with an error status, then behaves normally
+  failNext(
+    times: number,
+    options: { status?: number; endpoint?: string } = {}
+  ): void {
+    this.failures.push({
+      status: options.status ?? 500,
+      endpoint: options.endpoint,
+      remaining: times,
+    });
+  }
+
+  // Makes the next authenticated request fail with 401 until it refreshes
+  expireAccessTokens(): void {
+    this.store.expireAccessTokens();
+  }
+
+  // Ends every session; refreshing fails too, so the user is logged out
+  revokeSessions(): void {
+    this.store.revokeSessions();
+  }
+
+  // Routes ApiClient requests to this backend; returns a function that
+  // switches back to the network
+  install(
+    client: Pick<typeof apiClient, 'use' | 'clearHttpCache'> = apiClient
+  ) {
+    // Responses cached from another backend must not be revalidated here
+    client.clearHttpCache();
+    const uninstall = client.use(this.interceptor);
+    this.installed = true;
+    logger.info('Using the in-process mock backend');
+    return () => {
+      uninstall();
+      this.installed = false;
+      client.clearHttpCache();
+    };
+  }
+
+  // Whether ApiClient requests are currently answered by this backend
+  isInstalled(): boolean {
+    return this.installed;
+  }
+
+  async handle(request: RequestContext): Promise<Response> {
+    const { latencyMs, offline, failWithStatus } = this.scenario;
+    if (latencyMs) {
+      await delay(latencyMs);
+    }
+    if (offline) {
+      throw new NetworkError(['The mock backend is offline']);
+    }
+
+    const [path, queryString = ''] = request.endpoint.split('?');
+    const status = this.takePlannedFailure(path) ?? failWithStatus;
+    if (status) {
+      return errorResponse(new MockHttpError(status, 'Simulated failure'));
+    }
+
+    const match = this.findRoute(request.method, path);
+    if (!match) {
+      return errorResponse(
+        new MockHttpError(404, `No mock route for ${request.method} ${path}`)
+      );
+    }
+
+    try {
+      const response = this.dispatch(request, match, parseQuery(queryString));
+      logger.debug(`Mock ${request.method} ${path} -> ${response.status}`);
+      return response;
+    } catch (error) {
+      if (error instanceof MockHttpError) {
+        return errorResponse(error);
+      }
+      logger.error(`Mock handler for ${request.method} ${path} failed:`, error);
+      return errorResponse(new MockHttpError(500, 'Internal server error'));
+    }
+  }
+
+  private dispatch(
+    request: RequestContext,
+    match: { route: MockRoute; params: Record<string, string> },
+    query: MockQuery
+  ): Response {
+    const { route, params } = match;
+    const token = request.headers.Authorization?.replace(/^Bearer /, '');
+    const idempotencyKey = request.headers['Idempotency-Key'];
+    if (idempotencyKey && this.store.hasIdempotencyKey(idempotencyKey)) {
+      return errorResponse(new MockHttpError(409, 'Duplicate request'), {
+        'Idempotent-Replayed': 'true',
+      });
+    }
+
+    const mockRequest: MockRequest = {
+      method: request.method,
+      path: request.endpoint,
+      params,
+      query,
+      // Handlers get their own copy, as if it had been sent over the wire
+      body:
+        request.body === undefined
+          ? undefined
+          : JSON.parse(JSON.stringify(request.body)),
+      headers: request.headers,
+      store: this.store,
+      token,
+      user: route.auth ? this.store.authenticate(token) : undefined,
+    };
+    const result = route.handler(mockRequest);
+    if (idempotencyKey) {
+      this.store.rememberIdempotencyKey(idempotencyKey);
+    }
+    if (request.method !== 'GET') {
+      this.notifyChange();
+    }
+    return jsonResponse(result.status, result.body);
+  }
+
+  private notifyChange(): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(this.store);
+      } catch (error) {
+        logger.error('Mock backend listener failed:', error);
+      }
+    });
+  }
+
+  private findRoute(
+    method: string,
+    path: string
+  ): { route: MockRoute; params: Record<string, string> } | null {
+    for (const route of MOCK_ROUTES) {
+      if (route.method !== method) {
+        continue;
+      }
+      const params = matchRoute(route.pattern, path);
+      if (params) {
+        return { route, params };
+      }
+    }
+    return null;
+  }
+
+  private takePlannedFailure(path: string): number | undefined {
+    const failure = this.failures.find(
+      planned => !planned.endpoint || path.startsWith(planned.endpoint)
+    );
+    if (!failure) {
+      return undefined;
+    }
+    failure.remaining--;
+    if (failure.remaining <= 0) {
+      this.failures = this.failures.filter(planned => planned !== failure);
+    }
+    return failure.status;
+  }
+}
+
+export const mockBackend = new MockBackend();
+export default mockBackend;
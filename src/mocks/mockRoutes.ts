@@ -0,0 +1,675 @@
+import { HttpMethod } from '../services/interceptors';
+import {
+  CompleteProfileData,
+  CreateDateEventRequest,
+  CreateUserRequest,
+  DateEvent,
+  DateRequestResponse,
+  HealthResponse,
+  JoinDateEventRequest,
+  LinkIdentityRequest,
+  LoginRequest,
+  UpdateProfileRequest,
+  UserSearchResult,
+  Venue,
+  VenueType,
+} from '../types';
+import { createMockEvent, MockUser } from './fixtures';
+import {
+  ageFromDob,
+  distanceMeters,
+  MockHttpError,
+  MockStore,
+} from './mockStore';
+
+// Read access to query string parameters
+export interface MockQuery {
+  get(name: string): string | null;
+  getAll(name: string): string[];
+}
+
+// A request as seen by a route handler
+export interface MockRequest {
+  method: HttpMethod;
+  path: string;
+  params: Record<string, string>;
+  query: MockQuery;
+  body: any;
+  headers: Record<string, string>;
+  store: MockStore;
+  token?: string;
+  // Signed-in user, always set for routes that require authentication
+  user?: MockUser;
+}
+
+export interface MockResult {
+  status: number;
+  body: unknown;
+}
+
+export interface MockRoute {
+  method: HttpMethod;
+  // Path with :name placeholders, e.g. /users/:id/profile
+  pattern: string;
+  auth?: boolean;
+  handler: (request: MockRequest) => MockResult;
+}
+
+const DEFAULT_SEARCH_RADIUS = 5000;
+const VENUE_TYPES: VenueType[] = ['bar', 'restaurant', 'coffee-shop'];
+
+// Successful responses use the backend's { data, success, message } envelope
+const ok = (data: unknown, message = 'OK', status = 200): MockResult => ({
+  status,
+  body: { data, success: true, message },
+});
+
+const signedInUser = (request: MockRequest): MockUser => {
+  if (!request.user) {
+    throw new MockHttpError(401, 'Authentication required');
+  }
+  return request.user;
+};
+
+// Users may only change their own account
+const requireSelf = (request: MockRequest, userId: string): MockUser => {
+  const user = signedInUser(request);
+  if (user.id !== userId) {
+    throw new MockHttpError(403, 'You can only change your own account');
+  }
+  return user;
+};
+
+const requireFields = (body: any, fields: string[]): void => {
+  const missing = fields.filter(
+    field => body?.[field] === undefined || body?.[field] === ''
+  );
+  if (missing.length > 0) {
+    throw new MockHttpError(
+      400,
+      'Validation failed',
+      missing.map(field => ({ field, message: `${field} is required` }))
+    );
+  }
+};
+
+const numberParam = (query: MockQuery, name: string) => {
+  const value = query.get(name);
+  return value === null || value === '' ? undefined : Number(value);
+};
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const isUpcoming = (event: DateEvent) => event.eventDate >= today();
+
+// Venues matching ?city= or ?lat=&lng=&radius=, plus optional type and text
+const searchVenues = (
+  request: MockRequest,
+  types: VenueType[] = VENUE_TYPES
+): { venues: Venue[]; lat?: number; lng?: number; radius: number } => {
+  const { query, store } = request;
+  const city = query.get('city')?.toLowerCase();
+  const text = query.get('query')?.toLowerCase();
+  const radius = numberParam(query, 'radius') ?? DEFAULT_SEARCH_RADIUS;
+  let lat = numberParam(query, 'lat');
+  let lng = numberParam(query, 'lng');
+
+  if (city) {
+    const match = store.cities.find(
+      candidate =>
+        candidate.key.toLowerCase() === city ||
+        candidate.name.toLowerCase() === city
+    );
+    lat = match?.lat;
+    lng = match?.lng;
+  }
+
+  const venues = store.venues.filter(venue => {
+    if (venue.type && !types.includes(venue.type)) {
+      return false;
+    }
+    if (text && !venue.name.toLowerCase().includes(text)) {
+      return false;
+    }
+    if (city && venue.city.toLowerCase() === city) {
+      return true;
+    }
+    if (lat === undefined || lng === undefined) {
+      return !city;
+    }
+    return distanceMeters({ lat, lng }, venue) <= radius;
+  });
+
+  return { venues, lat, lng, radius };
+};
+
+const typedVenueSearch =
+  (type: VenueType) =>
+  (request: MockRequest): MockResult =>
+    ok(searchVenues(request, [type]).venues);
+
+const userEvents = (request: MockRequest): DateEvent[] => {
+  const { userId } = request.params;
+  return request.store.events.filter(
+    event => event.hostUserId === userId || event.acceptedUserId === userId
+  );
+};
+
+// Every endpoint the app calls. Routes are matched in order, so literal
+// paths must come before patterns that would also match them.
+export const MOCK_ROUTES: MockRoute[] = [
+  {
+    method: 'GET',
+    pattern: '/health',
+    handler: () => {
+      const health: HealthResponse = {
+        status: 'ok',
+        timestamp: new Date().toISOString(),
+        environment: 'mock',
+        services: { database: 'ok' },
+      };
+      return { status: 200, body: health };
+    },
+  },
+
+  // Auth
+  {
+    method: 'POST',
+    pattern: '/auth/login',
+    handler: ({ body, store }) => {
+      const { identifier, password } = (body ?? {}) as LoginRequest;
+      requireFields(body, ['identifier', 'password']);
+      const user = store.findUserByLogin(identifier);
+      if (!user || user.password !== password) {
+        throw new MockHttpError(401, 'Invalid username or password');
+      }
+      return ok(
+        { user: store.toUserResponse(user), ...store.issueTokens(user.id) },
+        'Login successful'
+      );
+    },
+  },
+  {
+    method: 'POST',
+    pattern: '/auth/refresh',
+    handler: ({ body, store }) => {
+      requireFields(body, ['refreshToken']);
+      const { token, refreshToken } = store.refresh(body.refreshToken);
+      return ok({ accessToken: token, refreshToken }, 'Token refreshed');
+    },
+  },
+  {
+    method: 'POST',
+    pattern: '/auth/logout',
+    handler: ({ store, token }) => {
+      if (token) {
+        store.revokeToken(token);
+      }
+      return ok(null, 'Logged out');
+    },
+  },
+  {
+    method: 'POST',
+    pattern: '/auth/:provider',
+    handler: ({ body, params, store }) => {
+      requireFields(body, ['token']);
+      // Any provider token is accepted; it signs in the first fixture user
+      const user = store.users[0];
+      if (!user) {
+        throw new MockHttpError(401, `Invalid ${params.provider} token`);
+      }
+      return ok(
+        {
+          user: store.toUserResponse(user),
+          profileComplete: !!user.dob,
+          ...store.issueTokens(user.id),
+        },
+        'Login successful'
+      );
+    },
+  },
+  {
+    method: 'GET',
+    pattern: '/auth/me',
+    auth: true,
+    handler: request => ok(request.store.toUserResponse(signedInUser(request))),
+  },
+
+  // Reference data
+  {
+    method: 'GET',
+    pattern: '/prompts/categories',
+    handler: ({ store }) => ok(store.promptCategories),
+  },
+  {
+    method: 'GET',
+    pattern: '/venues/cities',
+    handler: ({ store }) => ok(store.cities),
+  },
+
+  // Users
+  {
+    method: 'POST',
+    pattern: '/users',
+    handler: ({ body, store }) => {
+      const data = body as CreateUserRequest;
+      requireFields(data, ['username', 'email', 'password']);
+      if (
+        store.findUserByLogin(data.username) ||
+        store.findUserByLogin(data.email)
+      ) {
+        throw new MockHttpError(409, 'Username or email already in use');
+      }
+      const user: MockUser = {
+        showGender: false,
+        showOrientation: false,
+        promptAnswers: [],
+        ...data,
+        id: store.nextId('user'),
+      };
+      store.users.push(user);
+      return ok(store.toUserResponse(user), 'User created', 201);
+    },
+  },
+  {
+    method: 'GET',
+    pattern: '/users/search',
+    auth: true,
+    handler: request => {
+      const { query, store } = request;
+      const me = signedInUser(request);
+      const minAge = numberParam(query, 'minAge');
+      const maxAge = numberParam(query, 'maxAge');
+      const genders = query.getAll('genders');
+      const orientations = query.getAll('orientations');
+
+      const results: UserSearchResult[] = store.users
+        .filter(user => {
+          const age = ageFromDob(user.dob);
+          return (
+            user.id !== me.id &&
+            (minAge === undefined || (age !== undefined && age >= minAge)) &&
+            (maxAge === undefined || (age !== undefined && age <= maxAge)) &&
+            (genders.length === 0 || genders.includes(user.gender ?? '')) &&
+            (orientations.length === 0 ||
+              orientations.includes(user.orientation ?? ''))
+          );
+        })
+        .map(user => ({
+          id: user.id,
+          dob: user.dob ?? '',
+          gender: user.gender ?? '',
+          orientation: user.orientation ?? '',
+        }));
+      return ok(results);
+    },
+  },
+  {
+    method: 'GET',
+    pattern: '/users/:id/profile',
+    auth: true,
+    handler: ({ params, store }) =>
+      ok(store.toPublicProfile(store.getUser(params.id))),
+  },
+  {
+    method: 'PUT',
+    pattern: '/users/:id/profile',
+    auth: true,
+    handler: request => {
+      const user = requireSelf(request, request.params.id);
+      const changes = request.body as UpdateProfileRequest;
+      if (
+        changes.username &&
+        changes.username !== user.username &&
+        request.store.findUserByLogin(changes.username)
+      ) {
+        throw new MockHttpError(409, 'Username already in use');
+      }
+      Object.assign(user, changes);
+      return ok(request.store.toUserResponse(user), 'Profile updated');
+    },
+  },
+  {
+    method: 'POST',
+    pattern: '/users/:id/complete-profile',
+    auth: true,
+    handler: request => {
+      const user = requireSelf(request, request.params.id);
+      const data = request.body as CompleteProfileData;
+      requireFields(data, ['dob', 'gender', 'orientation']);
+      Object.assign(user, data);
+      return ok(request.store.toUserResponse(user), 'Profile completed');
+    },
+  },
+  {
+    method: 'POST',
+    pattern: '/users/:id/identities',
+    auth: true,
+    handler: request => {
+      const user = requireSelf(request, request.params.id);
+      const data = request.body as LinkIdentityRequest;
+      requireFields(data, ['provider', 'token']);
+      user.linkedProviders = [
+        ...(user.linkedProviders ?? []).filter(id => id !== data.provider),
+        data.provider,
+      ];
+      return ok(request.store.toUserResponse(user), 'Account linked');
+    },
+  },
+  {
+    method: 'DELETE',
+    pattern: '/users/:id/identities/:provider',
+    auth: true,
+    handler: request => {
+      const user = requireSelf(request, request.params.id);
+      user.linkedProviders = user.linkedProviders?.filter(
+        id => id !== request.params.provider
+      );
+      return ok(request.store.toUserResponse(user), 'Account unlinked');
+    },
+  },
+  {
+    method: 'GET',
+    pattern: '/users/:id',
+    auth: true,
+    handler: ({ params, store }) =>
+      ok(store.toUserResponse(store.getUser(params.id))),
+  },
+  {
+    method: 'DELETE',
+    pattern: '/users/:id',
+    auth: true,
+    handler: request => {
+      const user = requireSelf(request, request.params.id);
+      request.store.deleteUser(user.id);
+      return ok(null, 'Account deleted');
+    },
+  },
+
+  // Venues
+  {
+    method: 'GET',
+    pattern: '/venues/search',
+    handler: request => {
+      const requested = request.query.getAll('venueTypes') as VenueType[];
+      const types = requested.length > 0 ? requested : VENUE_TYPES;
+      const { venues, lat, lng, radius } = searchVenues(request, types);
+      return ok({
+        venues,
+        searchCenter: lat !== undefined ? { lat, lng } : undefined,
+        radiusMeters: radius,
+        venueTypes: types,
+        totalResults: venues.length,
+      });
+    },
+  },
+  {
+    method: 'GET',
+    pattern: '/venues/bars/search',
+    handler: typedVenueSearch('bar'),
+  },
+  {
+    method: 'GET',
+    pattern: '/venues/restaurants/search',
+    handler: typedVenueSearch('restaurant'),
+  },
+  {
+    method: 'GET',
+    pattern: '/venues/coffee-shops/search',
+    handler: typedVenueSearch('coffee-shop'),
+  },
+  {
+    method: 'GET',
+    pattern: '/restaurants',
+    handler: typedVenueSearch('restaurant'),
+  },
+  {
+    method: 'GET',
+    pattern: '/coffee-shops',
+    handler: typedVenueSearch('coffee-shop'),
+  },
+
+  // Date events
+  {
+    method: 'GET',
+    pattern: '/date-events',
+    auth: true,
+    handler: ({ store }) =>
+      ok(store.events.map(event => store.toEventResponse(event))),
+  },
+  {
+    method: 'POST',
+    pattern: '/date-events',
+    auth: true,
+    handler: request => {
+      const { store } = request;
+      const data = request.body as CreateDateEventRequest;
+      requireFields(data, ['hostUserId', 'barId', 'eventDate', 'eventTime']);
+      requireSelf(request, data.hostUserId);
+      const venue = store.findVenue(data.barId);
+      if (!venue) {
+        throw new MockHttpError(404, 'Venue not found');
+      }
+      const event = createMockEvent(
+        { ...data, id: store.nextId('event') },
+        venue
+      );
+      store.events.push(event);
+      return ok(store.toEventResponse(event), 'Date event created', 201);
+    },
+  },
+  {
+    method: 'GET',
+    pattern: '/date-events/in-area',
+    auth: true,
+    handler: ({ query, store }) => {
+      const lat = numberParam(query, 'lat');
+      const lng = numberParam(query, 'lng');
+      const radius = numberParam(query, 'radius');
+      const requestingUserId = query.get('requestingUserId');
+      if (lat === undefined || lng === undefined || radius === undefined) {
+        throw new MockHttpError(400, 'lat, lng and radius are required');
+      }
+      const minAge = numberParam(query, 'minAge');
+      const maxAge = numberParam(query, 'maxAge');
+      const excludeRequested = query.get('excludeRequested') === 'true';
+
+      const events = store.events.filter(event => {
+        const venue = store.findVenue(event.barId);
+        const host = store.findUser(event.hostUserId);
+        const age = ageFromDob(host?.dob);
+        return (
+          event.isOpen &&
+          event.status === 'open' &&
+          isUpcoming(event) &&
+          event.hostUserId !== requestingUserId &&
+          !!venue &&
+          distanceMeters({ lat, lng }, venue) <= radius &&
+          (minAge === undefined || (age !== undefined && age >= minAge)) &&
+          (maxAge === undefined || (age !== undefined && age <= maxAge)) &&
+          !(
+            excludeRequested &&
+            store.requests.some(
+              request =>
+                request.dateEventId === event.id &&
+                request.requesterUserId === requestingUserId
+            )
+          )
+        );
+      });
+      return ok(events.map(event => store.toEventResponse(event)));
+    },
+  },
+  {
+    method: 'POST',
+    pattern: '/date-events/request',
+    auth: true,
+    handler: request => {
+      const { store } = request;
+      const data = request.body as JoinDateEventRequest;
+      requireFields(data, ['dateEventId', 'requesterId']);
+      requireSelf(request, data.requesterId);
+      const event = store.getEvent(data.dateEventId);
+      if (event.hostUserId === data.requesterId) {
+        throw new MockHttpError(400, 'You cannot join your own date');
+      }
+      if (!event.isOpen || event.status !== 'open') {
+        throw new MockHttpError(409, 'This date is no longer open');
+      }
+      if (
+        store.requests.some(
+          existing =>
+            existing.dateEventId === event.id &&
+            existing.requesterUserId === data.requesterId
+        )
+      ) {
+        throw new MockHttpError(409, 'You already asked to join this date');
+      }
+      const dateRequest = {
+        id: store.nextId('request'),
+        requesterUserId: data.requesterId,
+        hostId: event.hostUserId,
+        dateEventId: event.id,
+        status: 'pending' as const,
+        requestedAt: new Date().toISOString(),
+      };
+      store.requests.push(dateRequest);
+      return ok(store.toRequestResponse(dateRequest), 'Request sent', 201);
+    },
+  },
+  {
+    method: 'POST',
+    pattern: '/date-events/request/:id/respond',
+    auth: true,
+    handler: request => {
+      const { store } = request;
+      const { accept } = (request.body ?? {}) as DateRequestResponse;
+      if (typeof accept !== 'boolean') {
+        throw new MockHttpError(400, 'accept must be a boolean value');
+      }
+      const dateRequest = store.getRequest(request.params.id);
+      const event = store.getEvent(dateRequest.dateEventId);
+      requireSelf(request, event.hostUserId);
+
+      const status = accept ? 'accepted' : 'declined';
+      // Answering again with the same decision is a no-op
+      if (dateRequest.status !== 'pending' && dateRequest.status !== status) {
+        throw new MockHttpError(409, 'This request was already answered');
+      }
+      if (accept && event.acceptedUserId && dateRequest.status !== status) {
+        throw new MockHttpError(409, 'This date already has a match');
+      }
+
+      dateRequest.status = status;
+      if (accept) {
+        const now = new Date().toISOString();
+        Object.assign(event, {
+          acceptedUserId: dateRequest.requesterUserId,
+          status: 'accepted',
+          isOpen: false,
+          updatedAt: now,
+        });
+        store.requests
+          .filter(
+            other =>
+              other.dateEventId === event.id &&
+              other.id !== dateRequest.id &&
+              other.status === 'pending'
+          )
+          .forEach(other => {
+            other.status = 'declined';
+          });
+      }
+      return ok(
+        store.toRequestResponse(dateRequest),
+        accept ? 'Request accepted' : 'Request declined'
+      );
+    },
+  },
+  {
+    method: 'GET',
+    pattern: '/date-events/user/:userId/events',
+    auth: true,
+    handler: request =>
+      ok(
+        userEvents(request).map(event => request.store.toEventResponse(event))
+      ),
+  },
+  {
+    method: 'GET',
+    pattern: '/date-events/user/:userId/active',
+    auth: true,
+    handler: request =>
+      ok(
+        userEvents(request)
+          .filter(
+            event =>
+              (event.status === 'open' || event.status === 'accepted') &&
+              isUpcoming(event)
+          )
+          .map(event => request.store.toEventResponse(event))
+      ),
+  },
+  {
+    method: 'GET',
+    pattern: '/date-events/available/:userId',
+    auth: true,
+    handler: ({ params, store }) => {
+      const hosted = store.events
+        .filter(event => event.hostUserId === params.userId)
+        .map(event => event.id);
+      return ok(
+        store.requests
+          .filter(
+            request =>
+              request.status === 'pending' &&
+              hosted.includes(request.dateEventId)
+          )
+          .map(request => store.toRequestResponse(request))
+      );
+    },
+  },
+  {
+    method: 'GET',
+    pattern: '/date-events/:id/attendees',
+    auth: true,
+    handler: ({ params, store }) => {
+      const event = store.getEvent(params.id);
+      const attendees = [event.hostUserId, event.acceptedUserId]
+        .map(userId => (userId ? store.findUser(userId) : undefined))
+        .filter((user): user is MockUser => !!user)
+        .map(user => store.toUserResponse(user));
+      return ok({ ...store.toEventResponse(event), attendees });
+    },
+  },
+  {
+    method: 'GET',
+    pattern: '/date-events/:id',
+    auth: true,
+    handler: ({ params, store }) =>
+      ok(store.toEventResponse(store.getEvent(params.id))),
+  },
+];
+
+// Matches a path against a route pattern, returning the placeholder values
+export const matchRoute = (
+  pattern: string,
+  path: string
+): Record<string, string> | null => {
+  const patternParts = pattern.split('/').filter(Boolean);
+  const pathParts = path.split('/').filter(Boolean);
+  if (patternParts.length !== pathParts.length) {
+    return null;
+  }
+
+  const params: Record<string, string> = {};
+  for (let index = 0; index < patternParts.length; index++) {
+    const part = patternParts[index];
+    if (part.startsWith(':')) {
+      params[part.slice(1)] = decodeURIComponent(pathParts[index]);
+    } else if (part !== pathParts[index]) {
+      return null;
+    }
+  }
+  return params;
+};
@@ -0,0 +1,286 @@
+import {
+  DateEvent,
+  DateRequest,
+  PublicUserProfile,
+  UserResponse,
+  ValidationError,
+  Venue,
+} from '../types';
+import { MockSeed, MockSessions, MockUser } from './fixtures';
+
+type IssuedToken = MockSessions['accessTokens'][number][1];
+
+// Thrown by route handlers; turned into an error response by the backend
+export class MockHttpError extends Error {
+  constructor(
+    public status: number,
+    message: string,
+    public details: (string | ValidationError)[] = []
+  ) {
+    super(message);
+    this.name = 'MockHttpError';
+  }
+}
+
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+// Great-circle distance in meters
+export const distanceMeters = (
+  from: { lat: number; lng: number },
+  to: { lat: number; lng: number }
+): number => {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(to.lat - from.lat);
+  const dLng = toRadians(to.lng - from.lng);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.lat)) *
+      Math.cos(toRadians(to.lat)) *
+      Math.sin(dLng / 2) ** 2;
+  return 2 * 6371000 * Math.asin(Math.sqrt(a));
+};
+
+export const ageFromDob = (dob: string | undefined, now = new Date()) => {
+  if (!dob) {
+    return undefined;
+  }
+  const birth = new Date(dob);
+  let age = now.getFullYear() - birth.getFullYear();
+  const hadBirthday =
+    now.getMonth() > birth.getMonth() ||
+    (now.getMonth() === birth.getMonth() && now.getDate() >= birth.getDate());
+  if (!hadBirthday) {
+    age--;
+  }
+  return age;
+};
+
+// In-memory data behind the mock backend. Ids and tokens come from counters
+// so a given sequence of calls always produces the same values.
+export class MockStore {
+  users: MockUser[] = [];
+  cities: MockSeed['cities'] = [];
+  venues: Venue[] = [];
+  events: DateEvent[] = [];
+  requests: DateRequest[] = [];
+  promptCategories: MockSeed['promptCategories'] = [];
+
+  private counter = 0;
+  private accessTokens = new Map<string, IssuedToken>();
+  private refreshTokens = new Map<string, string>();
+  // Idempotency keys of mutations that already succeeded
+  private idempotencyKeys = new Set<string>();
+
+  constructor(seed: MockSeed) {
+    this.load(seed);
+  }
+
+  // Replaces all data with a copy of the seed. Sessions are restored when
+  // the seed is a snapshot and forgotten otherwise.
+  load(seed: MockSeed): void {
+    const data = clone(seed);
+    this.users = data.users;
+    this.cities = data.cities;
+    this.venues = data.venues;
+    this.events = data.events;
+    this.requests = data.requests;
+    this.promptCategories = data.promptCategories;
+    this.counter = data.sessions?.counter ?? 0;
+    this.accessTokens = new Map(data.sessions?.accessTokens);
+    this.refreshTokens = new Map(data.sessions?.refreshTokens);
+    this.idempotencyKeys = new Set(data.sessions?.idempotencyKeys);
+  }
+
+  // Current data and sessions, in a shape load() accepts
+  snapshot(): MockSeed {
+    return clone({
+      users: this.users,
+      cities: this.cities,
+      venues: this.venues,
+      events: this.events,
+      requests: this.requests,
+      promptCategories: this.promptCategories,
+      sessions: {
+        counter: this.counter,
+        accessTokens: [...this.accessTokens],
+        refreshTokens: [...this.refreshTokens],
+        idempotencyKeys: [...this.idempotencyKeys],
+      },
+    });
+  }
+
+  nextId(prefix: string): string {
+    this.counter++;
+    return `${prefix}-mock-${this.counter}`;
+  }
+
+  // Sessions
+
+  issueTokens(userId: string): { token: string; refreshToken: string } {
+    const token = this.nextId('access');
+    const refreshToken = this.nextId('refresh');
+    this.accessTokens.set(token, { userId, expired: false });
+    this.refreshTokens.set(refreshToken, userId);
+    return { token, refreshToken };
+  }
+
+  // Refresh tokens are single use, like the real backend's rotation
+  refresh(refreshToken: string): { token: string; refreshToken: string } {
+    const userId = this.refreshTokens.get(refreshToken);
+    if (!userId || !this.findUser(userId)) {
+      throw new MockHttpError(401, 'Invalid refresh token');
+    }
+    this.refreshTokens.delete(refreshToken);
+    return this.issueTokens(userId);
+  }
+
+  // Resolves a bearer token to its user, failing like an expired JWT would
+  authenticate(token: string | undefined): MockUser {
+    const issued = token ? this.accessTokens.get(token) : undefined;
+    if (!issued) {
+      throw new MockHttpError(401, 'Authentication required');
+    }
+    if (issued.expired) {
+      throw new MockHttpError(401, 'Token expired');
+    }
+    const user = this.findUser(issued.userId);
+    if (!user) {
+      throw new MockHttpError(401, 'User no longer exists');
+    }
+    return user;
+  }
+
+  revokeToken(token: string): void {
+    this.accessTokens.delete(token);
+  }
+
+  expireAccessTokens(): void {
+    this.accessTokens.forEach(issued => {
+      issued.expired = true;
+    });
+  }
+
+  // Expires access tokens and forgets refresh tokens, ending every session
+  revokeSessions(): void {
+    this.expireAccessTokens();
+    this.refreshTokens.clear();
+  }
+
+  // Whether a mutation with this Idempotency-Key already succeeded
+  hasIdempotencyKey(key: string): boolean {
+    return this.idempotencyKeys.has(key);
+  }
+
+  rememberIdempotencyKey(key: string): void {
+    this.idempotencyKeys.add(key);
+  }
+
+  // Users
+
+  findUser(userId: string): MockUser | undefined {
+    return this.users.find(user => user.id === userId);
+  }
+
+  getUser(userId: string): MockUser {
+    const user = this.findUser(userId);
+    if (!user) {
+      throw new MockHttpError(404, 'User not found');
+    }
+    return user;
+  }
+
+  findUserByLogin(identifier: string): MockUser | undefined {
+    const normalized = identifier.trim().toLowerCase();
+    return this.users.find(
+      user =>
+        user.username.toLowerCase() === normalized ||
+        user.email.toLowerCase() === normalized
+    );
+  }
+
+  toUserResponse(user: MockUser): UserResponse {
+    const { password, ...response } = user;
+    return clone(response);
+  }
+
+  toPublicProfile(user: MockUser): PublicUserProfile {
+    return clone({
+      id: user.id,
+      username: user.username,
+      dob: user.dob ?? '',
+      gender: user.showGender ? user.gender : undefined,
+      orientation: user.showOrientation ? user.orientation : undefined,
+      promptAnswers: user.promptAnswers ?? [],
+    });
+  }
+
+  deleteUser(userId: string): void {
+    const hostedEventIds = this.events
+      .filter(event => event.hostUserId === userId)
+      .map(event => event.id);
+    this.users = this.users.filter(user => user.id !== userId);
+    this.events = this.events.filter(event => event.hostUserId !== userId);
+    this.requests = this.requests.filter(
+      request =>
+        request.requesterUserId !== userId &&
+        !hostedEventIds.includes(request.dateEventId)
+    );
+  }
+
+  // Venues
+
+  findVenue(venueId: string): Venue | undefined {
+    return this.venues.find(venue => venue.id === venueId);
+  }
+
+  // Events and requests
+
+  getEvent(eventId: string): DateEvent {
+    const event = this.events.find(candidate => candidate.id === eventId);
+    if (!event) {
+      throw new MockHttpError(404, 'Date event not found');
+    }
+    return event;
+  }
+
+  getRequest(requestId: string): DateRequest {
+    const request = this.requests.find(candidate => candidate.id === requestId);
+    if (!request) {
+      throw new MockHttpError(404, 'Date request not found');
+    }
+    return request;
+  }
+
+  // An event as the API returns it, with its venue, people and requests
+  toEventResponse(event: DateEvent): DateEvent {
+    const venue = this.findVenue(event.barId);
+    const host = this.findUser(event.hostUserId);
+    const accepted = event.acceptedUserId
+      ? this.findUser(event.acceptedUserId)
+      : undefined;
+    return clone({
+      ...event,
+      venue,
+      hostUser: host && this.toUserResponse(host),
+      acceptedUser: accepted && this.toUserResponse(accepted),
+      requests: this.requests
+        .filter(request => request.dateEventId === event.id)
+        .map(request => this.toRequestResponse(request, false)),
+    });
+  }
+
+  toRequestResponse(request: DateRequest, withEvent = true): DateRequest {
+    const requester = this.findUser(request.requesterUserId);
+    const event = this.events.find(
+      candidate => candidate.id === request.dateEventId
+    );
+    return clone({
+      ...request,
+      requester: requester && this.toUserResponse(requester),
+      dateEvent:
+        withEvent && event
+          ? { ...event, venue: this.findVenue(event.barId) }
+          : undefined,
+    });
+  }
+}
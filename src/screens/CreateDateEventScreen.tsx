@@ -14,13 +14,23 @@ import {
 } from 'react-native';
 import TonightLogo from '../components/TonightLogo';
 import { useAuth } from '../contexts/AuthContext';
-import { dateEventService, venueService } from '../services';
+import { useIsOnline } from '../hooks/useIsOnline';
+import { demoMode } from '../mocks';
+import {
+  dateEventService,
+  describeApiError,
+  DuplicateRequestError,
+  MutationQueuedError,
+  venueService,
+} from '../services';
 import { Bar, CreateDateEventRequest } from '../types';
+import { logger } from '../utils/logger';
 
 export default function CreateDateEventScreen() {
   const router = useRouter();
   const queryClient = useQueryClient();
   const { user, isAuthenticated } = useAuth();
+  const isOnline = useIsOnline();
 
   // Form state
   const [formData, setFormData] = useState<CreateDateEventRequest>({
@@ -69,7 +79,8 @@ export default function CreateDateEventScreen() {
   // Get user's current location
   useEffect(() => {
     const getCurrentLocation = async () => {
-      if (!locationPermissionAsked) {
+      // Demo venues are only found by picking the demo city
+      if (!locationPermissionAsked && !demoMode.isActive()) {
         setLocationPermissionAsked(true);
         try {
           const { status } = await Location.requestForegroundPermissionsAsync();
@@ -82,7 +93,7 @@ export default function CreateDateEventScreen() {
             setUseCurrentLocation(true);
           }
         } catch (error) {
-          console.error('Failed to get location:', error);
+          logger.error('Failed to get location:', error);
         }
       }
     };
@@ -93,7 +104,7 @@ export default function CreateDateEventScreen() {
   // Query to fetch available cities from backend
   const citiesQuery = useQuery({
     queryKey: ['cities'],
-    queryFn: () => venueService.getCities(),
+    queryFn: ({ signal }) => venueService.getCities({ signal }),
     staleTime: 5 * 60 * 1000, // Cache for 5 minutes
   });
 
@@ -108,9 +119,9 @@ export default function CreateDateEventScreen() {
       searchRadius,
       formData.eventDate, // Include event date for date-based filtering
     ],
-    queryFn: async () => {
+    queryFn: async ({ signal }) => {
       try {
-        console.log('Venues query triggered:', {
+        logger.debug('Venues query triggered:', {
           useCurrentLocation,
           userLocation,
           selectedCity,
@@ -120,38 +131,44 @@ export default function CreateDateEventScreen() {
 
         // Use location-based search if user location is available and enabled
         if (useCurrentLocation && userLocation) {
-          console.log('Fetching venues by location:', userLocation);
-          const venues = await venueService.getBars({
-            lat: userLocation.lat,
-            lng: userLocation.lng,
-            radius: searchRadius * 1000, // Convert km to meters for API
-            venueTypes:
-              selectedVenueTypes.length > 0 ? selectedVenueTypes : undefined,
-            eventDate: formData.eventDate || undefined, // Include event date for filtering
-          });
-          console.log('Venues found by location:', venues.length);
+          logger.debug('Fetching venues by location:', userLocation);
+          const venues = await venueService.getBars(
+            {
+              lat: userLocation.lat,
+              lng: userLocation.lng,
+              radius: searchRadius * 1000, // Convert km to meters for API
+              venueTypes:
+                selectedVenueTypes.length > 0 ? selectedVenueTypes : undefined,
+              eventDate: formData.eventDate || undefined, // Include event date for filtering
+            },
+            { signal }
+          );
+          logger.debug('Venues found by location:', venues.length);
           return venues;
         }
 
         // Use city-based search if city is selected
         if (selectedCity) {
-          console.log('Fetching venues by city:', selectedCity);
-          const venues = await venueService.getBars({
-            city: selectedCity,
-            radius: searchRadius * 1000, // Convert km to meters for API
-            venueTypes:
-              selectedVenueTypes.length > 0 ? selectedVenueTypes : undefined,
-            eventDate: formData.eventDate || undefined, // Include event date for filtering
-          });
-          console.log('Venues found by city:', venues.length);
+          logger.debug('Fetching venues by city:', selectedCity);
+          const venues = await venueService.getBars(
+            {
+              city: selectedCity,
+              radius: searchRadius * 1000, // Convert km to meters for API
+              venueTypes:
+                selectedVenueTypes.length > 0 ? selectedVenueTypes : undefined,
+              eventDate: formData.eventDate || undefined, // Include event date for filtering
+            },
+            { signal }
+          );
+          logger.debug('Venues found by city:', venues.length);
           return venues;
         }
 
         // Return empty array if no location/city selected
-        console.log('No location or city selected, returning empty array');
+        logger.debug('No location or city selected, returning empty array');
         return [];
       } catch (error) {
-        console.error('Venues query error:', error);
+        logger.error('Venues query error:', error);
         throw error;
       }
     },
@@ -159,19 +176,35 @@ export default function CreateDateEventScreen() {
       (useCurrentLocation && userLocation !== null) || selectedCity.length > 0,
   });
 
-  // Create event mutation
+  const handleCreateSuccess = () => {
+    queryClient.invalidateQueries({ queryKey: ['dateEvents'] });
+    Alert.alert('Success', 'Date event created successfully!', [
+      { text: 'OK', onPress: () => router.back() },
+    ]);
+  };
+
+  // Create event mutation. Runs while offline too, so the service can save
+  // the event to the outbox instead of React Query pausing the mutation.
   const createEventMutation = useMutation({
+    networkMode: 'always',
     mutationFn: (eventData: CreateDateEventRequest) =>
       dateEventService.createDateEvent(eventData),
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['dateEvents'] });
-      Alert.alert('Success', 'Date event created successfully!', [
-        { text: 'OK', onPress: () => router.back() },
-      ]);
-    },
+    onSuccess: () => handleCreateSuccess(),
     onError: (error: any) => {
-      console.error('Failed to create event:', error);
-      Alert.alert('Error', error.message || 'Failed to create event');
+      // The event was already created by an earlier attempt
+      if (error instanceof DuplicateRequestError) {
+        handleCreateSuccess();
+        return;
+      }
+      // Offline: the event will be created once the device reconnects
+      if (error instanceof MutationQueuedError) {
+        Alert.alert('Saved Offline', error.message, [
+          { text: 'OK', onPress: () => router.back() },
+        ]);
+        return;
+      }
+      logger.error('Failed to create event:', error);
+      Alert.alert('Error', describeApiError(error, 'Failed to create event'));
     },
   });
 
@@ -556,9 +589,16 @@ export default function CreateDateEventScreen() {
           {createEventMutation.isPending ? (
             <ActivityIndicator color="#fff" />
           ) : (
-            <Text style={styles.createButtonText}>Create Date Event</Text>
+            <Text style={styles.createButtonText}>
+              {isOnline ? 'Create Date Event' : 'Save and Send Later'}
+            </Text>
           )}
         </TouchableOpacity>
+        {!isOnline && (
+          <Text style={styles.offlineHintText}>
+            You&apos;re offline. Your date will be created once you reconnect.
+          </Text>
+        )}
       </View>
 
       {/* Date Picker */}
@@ -761,6 +801,12 @@ const styles = StyleSheet.create({
   disabledButton: {
     backgroundColor: '#ccc',
   },
+  offlineHintText: {
+    fontSize: 14,
+    color: '#6c757d',
+    textAlign: 'center',
+    marginTop: 8,
+  },
   createButtonText: {
     color: '#fff',
     fontSize: 18,
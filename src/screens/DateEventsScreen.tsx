@@ -12,8 +12,14 @@ import {
   View,
 } from 'react-native';
 import { useAuth } from '../contexts/AuthContext';
-import { dateEventService } from '../services';
+import {
+  dateEventService,
+  describeApiError,
+  DuplicateRequestError,
+  MutationQueuedError,
+} from '../services';
 import { DateEvent } from '../types';
+import { logger } from '../utils/logger';
 
 const getStatusStyle = (status: string) => {
   switch (status) {
@@ -45,8 +51,8 @@ const DateEventItem: React.FC<DateEventItemProps> = ({
   isLoading,
   currentUserId,
 }) => {
-  console.log('DateEventItem - Rendering event:', event.id);
-  console.log('DateEventItem - Event data:', {
+  logger.debug('DateEventItem - Rendering event:', event.id);
+  logger.debug('DateEventItem - Event data:', {
     hostUserId: event.hostUserId,
     currentUserId: currentUserId,
     isMyEvent: event.hostUserId === currentUserId,
@@ -158,16 +164,16 @@ export default function DateEventsScreen() {
   const [refreshing, setRefreshing] = useState(false);
   const [activeTab, setActiveTab] = useState<'attending' | 'all'>('attending');
 
-  console.log('DateEventsScreen - Current user:', user);
-  console.log('DateEventsScreen - Active tab:', activeTab);
-  console.log('DateEventsScreen - User enabled check:', !!user?.username);
+  logger.debug('DateEventsScreen - Current user:', user);
+  logger.debug('DateEventsScreen - Active tab:', activeTab);
+  logger.debug('DateEventsScreen - User enabled check:', !!user?.username);
 
   // Get all events (for browsing)
   const allEventsQuery = useQuery({
     queryKey: ['dateEvents'],
-    queryFn: async () => {
-      const events = await dateEventService.getDateEvents();
-      console.log('All events loaded:', events.length, events);
+    queryFn: async ({ signal }) => {
+      const events = await dateEventService.getDateEvents({ signal });
+      logger.debug('All events loaded:', events.length, events);
       return events;
     },
     enabled: true, // Always enabled so we can debug
@@ -177,10 +183,10 @@ export default function DateEventsScreen() {
   // Get events where user is involved (both hosting and accepted to join)
   const attendingEventsQuery = useQuery({
     queryKey: ['attendingEvents', user?.username],
-    queryFn: async () => {
-      console.log('Fetching attending events for user:', user?.username);
-      const allEvents = await dateEventService.getDateEvents();
-      console.log('All events received:', allEvents.length);
+    queryFn: async ({ signal }) => {
+      logger.debug('Fetching attending events for user:', user?.username);
+      const allEvents = await dateEventService.getDateEvents({ signal });
+      logger.debug('All events received:', allEvents.length);
 
       const relevantEvents = allEvents.filter(event => {
         const isHosting =
@@ -189,7 +195,7 @@ export default function DateEventsScreen() {
         const isAcceptedGuest = event.acceptedUserId === user?.username;
         const isRelevant = isHosting || isAcceptedGuest;
 
-        console.log(
+        logger.debug(
           'Event',
           event.id,
           '- hostUserId:',
@@ -199,7 +205,7 @@ export default function DateEventsScreen() {
           '- user:',
           user?.username
         );
-        console.log(
+        logger.debug(
           '  isHosting:',
           isHosting,
           '- isAcceptedGuest:',
@@ -211,7 +217,7 @@ export default function DateEventsScreen() {
         return isRelevant;
       });
 
-      console.log(
+      logger.debug(
         'Relevant events for',
         user?.username,
         ':',
@@ -238,18 +244,18 @@ export default function DateEventsScreen() {
 
   const currentQuery = getCurrentQuery();
 
-  console.log('=== DETAILED QUERY DEBUG ===');
-  console.log('Active tab:', activeTab);
-  console.log(
+  logger.debug('=== DETAILED QUERY DEBUG ===');
+  logger.debug('Active tab:', activeTab);
+  logger.debug(
     'Current query is attendingEventsQuery:',
     currentQuery === attendingEventsQuery
   );
-  console.log(
+  logger.debug(
     'Current query is allEventsQuery:',
     currentQuery === allEventsQuery
   );
 
-  console.log('Current query state:', {
+  logger.debug('Current query state:', {
     activeTab,
     isLoading: currentQuery.isLoading,
     isError: currentQuery.isError,
@@ -259,33 +265,46 @@ export default function DateEventsScreen() {
   });
 
   // Additional debugging for render data
-  console.log('Data being passed to FlatList:', currentQuery.data || []);
-  console.log('FlatList data length:', (currentQuery.data || []).length);
+  logger.debug('Data being passed to FlatList:', currentQuery.data || []);
+  logger.debug('FlatList data length:', (currentQuery.data || []).length);
 
   // Show loading only if we're actually loading and don't have any data yet
   const isActuallyLoading = currentQuery.isLoading && !currentQuery.data;
 
-  // Join event mutation
+  const handleJoinSuccess = () => {
+    // Invalidate all event queries
+    queryClient.invalidateQueries({ queryKey: ['dateEvents'] });
+    queryClient.invalidateQueries({ queryKey: ['myEvents'] });
+    queryClient.invalidateQueries({ queryKey: ['attendingEvents'] });
+    queryClient.invalidateQueries({ queryKey: ['dateRequests'] });
+    Alert.alert(
+      'Success',
+      'Your request to join has been sent! The host will be notified.'
+    );
+  };
+
+  // Join event mutation. Runs while offline too, so the service can save
+  // the request to the outbox.
   const joinEventMutation = useMutation({
+    networkMode: 'always',
     mutationFn: (eventId: string) =>
       dateEventService.requestToJoinDateEvent({
         dateEventId: eventId,
         requesterId: user?.username || '',
       }),
-    onSuccess: () => {
-      // Invalidate all event queries
-      queryClient.invalidateQueries({ queryKey: ['dateEvents'] });
-      queryClient.invalidateQueries({ queryKey: ['myEvents'] });
-      queryClient.invalidateQueries({ queryKey: ['attendingEvents'] });
-      queryClient.invalidateQueries({ queryKey: ['dateRequests'] });
-      Alert.alert(
-        'Success',
-        'Your request to join has been sent! The host will be notified.'
-      );
-    },
+    onSuccess: () => handleJoinSuccess(),
     onError: (error: any) => {
-      console.error('Failed to request to join event:', error);
-      Alert.alert('Error', error.message || 'Failed to send request');
+      // The server already has this request from an earlier attempt
+      if (error instanceof DuplicateRequestError) {
+        handleJoinSuccess();
+        return;
+      }
+      if (error instanceof MutationQueuedError) {
+        Alert.alert('Saved Offline', error.message);
+        return;
+      }
+      logger.error('Failed to request to join event:', error);
+      Alert.alert('Error', describeApiError(error, 'Failed to send request'));
     },
   });
 
@@ -322,7 +341,7 @@ export default function DateEventsScreen() {
   };
 
   const renderEventItem = ({ item }: { item: DateEvent }) => {
-    console.log(
+    logger.debug(
       'Rendering event item:',
       item.id,
       item.venue?.name || item.bar?.name
@@ -350,7 +369,7 @@ export default function DateEventsScreen() {
   );
 
   if (isActuallyLoading) {
-    console.log('Showing loading screen');
+    logger.debug('Showing loading screen');
     return (
       <View style={styles.loadingContainer}>
         <ActivityIndicator size="large" color="#007bff" />
@@ -18,6 +18,7 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 
 import { useAuth } from '../contexts/AuthContext';
 import { userService } from '../services';
+import { hasFieldErrors, mapApiErrorToFields } from '../utils/formErrors';
 import {
   Gender,
   Orientation,
@@ -34,6 +35,9 @@ interface EditProfileData {
   promptAnswers: UserPromptAnswer[];
 }
 
+// Inputs that can show errors reported by the backend
+const SERVER_VALIDATED_FIELDS = ['dob', 'gender', 'orientation'] as const;
+
 const EditProfileScreen: React.FC = () => {
   const { user, updateUser } = useAuth();
   const params = useLocalSearchParams();
@@ -47,7 +51,9 @@ const EditProfileScreen: React.FC = () => {
     promptAnswers: user?.promptAnswers || [],
   });
 
-  const [errors, setErrors] = useState<Partial<EditProfileData>>({});
+  const [errors, setErrors] = useState<
+    Partial<Record<keyof EditProfileData, string>>
+  >({});
   const [showDatePicker, setShowDatePicker] = useState(false);
   const [dateOfBirth, setDateOfBirth] = useState(
     user?.dob ? new Date(user.dob) : new Date()
@@ -132,13 +138,19 @@ const EditProfileScreen: React.FC = () => {
       ]);
     },
     onError: (error: any) => {
+      const fieldErrors = mapApiErrorToFields(error, SERVER_VALIDATED_FIELDS);
+      if (hasFieldErrors(fieldErrors)) {
+        setErrors(prev => ({ ...prev, ...fieldErrors }));
+        return;
+      }
+
       const errorMessage = error?.message || 'Profile update failed';
       Alert.alert('Update Failed', errorMessage);
     },
   });
 
   const validateForm = (): boolean => {
-    const newErrors: Partial<EditProfileData> = {};
+    const newErrors: Partial<Record<keyof EditProfileData, string>> = {};
 
     if (!formData.dob) {
       newErrors.dob = 'Date of birth is required';
@@ -404,6 +416,9 @@ const EditProfileScreen: React.FC = () => {
                     </Text>
                   </TouchableOpacity>
                 </View>
+                {errors.gender && (
+                  <Text style={styles.errorText}>{errors.gender}</Text>
+                )}
               </View>
 
               {/* Gender Privacy Toggle */}
@@ -551,6 +566,9 @@ const EditProfileScreen: React.FC = () => {
                     </Text>
                   </TouchableOpacity>
                 </View>
+                {errors.orientation && (
+                  <Text style={styles.errorText}>{errors.orientation}</Text>
+                )}
               </View>
 
               {/* Orientation Privacy Toggle */}
@@ -14,17 +14,27 @@ import {
 import MapView, { Marker, Region } from 'react-native-maps';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import TonightLogo from '../components/TonightLogo';
+import { DEFAULT_MAP_CENTER } from '../constants/map';
 import { useAuth } from '../contexts/AuthContext';
-import { dateEventService } from '../services';
+import { PendingSyncList } from '../components/PendingSyncList';
+import { useIsOnline } from '../hooks/useIsOnline';
+import { useMutationOutbox } from '../hooks/useMutationOutbox';
+import { demoMode } from '../mocks';
+import {
+  dateEventService,
+  DuplicateRequestError,
+  MutationQueuedError,
+} from '../services';
 import { DateEvent, DateEventsInAreaRequest } from '../types';
+import { logger } from '../utils/logger';
 
 const FindCompatibleDatesScreen: React.FC = () => {
   const { user } = useAuth();
   const mapRef = useRef<MapView>(null);
 
   const [region, setRegion] = useState<Region>({
-    latitude: 53.4808, // Default to Manchester
-    longitude: -2.2426,
+    latitude: DEFAULT_MAP_CENTER.lat,
+    longitude: DEFAULT_MAP_CENTER.lng,
     latitudeDelta: 0.1,
     longitudeDelta: 0.1,
   });
@@ -42,11 +52,15 @@ const FindCompatibleDatesScreen: React.FC = () => {
   // Get user's current location on initial load
   useEffect(() => {
     (async () => {
+      // The demo city is at the default center, wherever the device is
+      if (demoMode.isActive()) {
+        return;
+      }
       try {
-        console.log('Requesting location permissions...');
+        logger.debug('Requesting location permissions...');
         let { status } = await Location.requestForegroundPermissionsAsync();
         if (status !== 'granted') {
-          console.log('Location permission denied');
+          logger.debug('Location permission denied');
           Alert.alert(
             'Location Permission',
             'Location permission is helpful to find nearby dates, but you can still use the app by manually navigating the map.'
@@ -54,11 +68,11 @@ const FindCompatibleDatesScreen: React.FC = () => {
           return;
         }
 
-        console.log('Getting current position...');
+        logger.debug('Getting current position...');
         let location = await Location.getCurrentPositionAsync({
           accuracy: Location.Accuracy.Balanced,
         });
-        console.log('User location obtained:', location.coords);
+        logger.debug('User location obtained:', location.coords);
 
         const newRegion = {
           latitude: location.coords.latitude,
@@ -67,7 +81,7 @@ const FindCompatibleDatesScreen: React.FC = () => {
           longitudeDelta: 0.05,
         };
 
-        console.log('Setting initial region to user location:', newRegion);
+        logger.debug('Setting initial region to user location:', newRegion);
         setRegion(newRegion);
         setHasUserLocation(true);
         setUserCoordinates({
@@ -78,13 +92,13 @@ const FindCompatibleDatesScreen: React.FC = () => {
         // Use a longer delay to ensure the map component is fully rendered
         setTimeout(() => {
           if (mapRef.current) {
-            console.log('Animating to user location...');
+            logger.debug('Animating to user location...');
             mapRef.current.animateToRegion(newRegion, 1500);
           }
         }, 1000);
       } catch (error) {
-        console.error('Error getting location:', error);
-        console.log('Continuing with default Manchester location');
+        logger.error('Error getting location:', error);
+        logger.debug('Continuing with default Manchester location');
         // Continue with default Manchester location - no need to show error
       }
     })();
@@ -110,18 +124,18 @@ const FindCompatibleDatesScreen: React.FC = () => {
     maxRadius
   );
 
-  console.log('=== RADIUS CALCULATION DEBUG ===');
-  console.log(
+  logger.debug('=== RADIUS CALCULATION DEBUG ===');
+  logger.debug(
     'Region deltas - lat:',
     region.latitudeDelta.toFixed(6),
     'lng:',
     region.longitudeDelta.toFixed(6)
   );
-  console.log('Lat radius (m):', latRadiusMeters.toFixed(0));
-  console.log('Lng radius (m):', lngRadiusMeters.toFixed(0));
-  console.log('Map view radius (m):', mapViewRadius.toFixed(0));
-  console.log('Effective radius (m):', effectiveRadius);
-  console.log('Effective radius (km):', (effectiveRadius / 1000).toFixed(1));
+  logger.debug('Lat radius (m):', latRadiusMeters.toFixed(0));
+  logger.debug('Lng radius (m):', lngRadiusMeters.toFixed(0));
+  logger.debug('Map view radius (m):', mapViewRadius.toFixed(0));
+  logger.debug('Effective radius (m):', effectiveRadius);
+  logger.debug('Effective radius (km):', (effectiveRadius / 1000).toFixed(1));
 
   const searchParams: DateEventsInAreaRequest = {
     lat: region.latitude,
@@ -144,10 +158,10 @@ const FindCompatibleDatesScreen: React.FC = () => {
       minAge,
       maxAge,
     ],
-    queryFn: async () => {
+    queryFn: async ({ signal }) => {
       try {
-        console.log('=== QUERY EXECUTION ===');
-        console.log('Calling dateEventService.getDateEventsInArea with:', {
+        logger.debug('=== QUERY EXECUTION ===');
+        logger.debug('Calling dateEventService.getDateEventsInArea with:', {
           ...searchParams,
           radius: `${(searchParams.radius / 1000).toFixed(1)}km (${
             searchParams.radius
@@ -179,17 +193,21 @@ const FindCompatibleDatesScreen: React.FC = () => {
           throw new Error('Invalid user ID: ' + searchParams.requestingUserId);
         }
 
-        const result = await dateEventService.getDateEventsInArea(searchParams);
-        console.log('Query successful, returned:', result?.length, 'events');
+        // Panning the map changes the query key, which aborts stale requests
+        const result = await dateEventService.getDateEventsInArea(
+          searchParams,
+          { signal }
+        );
+        logger.debug('Query successful, returned:', result?.length, 'events');
         return result;
       } catch (error) {
-        console.error('=== QUERY FAILED ===');
-        console.error('Query error:', error);
-        console.error(
+        logger.error('=== QUERY FAILED ===');
+        logger.error('Query error:', error);
+        logger.error(
           'Error message:',
           error instanceof Error ? error.message : String(error)
         );
-        console.error('Error details:', JSON.stringify(error, null, 2));
+        logger.error('Error details:', JSON.stringify(error, null, 2));
         throw error;
       }
     },
@@ -200,32 +218,32 @@ const FindCompatibleDatesScreen: React.FC = () => {
   });
 
   const compatibleEvents = useMemo((): DateEvent[] => {
-    console.log('=== SIMPLE QUERY STATE ===');
-    console.log('Simple query data:', simpleQuery.data);
-    console.log('Simple query status:', simpleQuery.status);
-    console.log('Simple query error:', simpleQuery.error);
+    logger.debug('=== SIMPLE QUERY STATE ===');
+    logger.debug('Simple query data:', simpleQuery.data);
+    logger.debug('Simple query status:', simpleQuery.status);
+    logger.debug('Simple query error:', simpleQuery.error);
 
     // Log more detailed error information
     if (simpleQuery.error) {
-      console.error('=== DETAILED ERROR INFO ===');
-      console.error('Error object:', simpleQuery.error);
-      console.error(
+      logger.error('=== DETAILED ERROR INFO ===');
+      logger.error('Error object:', simpleQuery.error);
+      logger.error(
         'Error message:',
         simpleQuery.error instanceof Error
           ? simpleQuery.error.message
           : String(simpleQuery.error)
       );
-      console.error(
+      logger.error(
         'Error stack:',
         simpleQuery.error instanceof Error
           ? simpleQuery.error.stack
           : 'No stack trace'
       );
-      console.error(
+      logger.error(
         'Error name:',
         simpleQuery.error instanceof Error ? simpleQuery.error.name : 'Unknown'
       );
-      console.error(
+      logger.error(
         'Full error JSON:',
         JSON.stringify(simpleQuery.error, null, 2)
       );
@@ -238,18 +256,18 @@ const FindCompatibleDatesScreen: React.FC = () => {
   const { error, refetch } = simpleQuery;
 
   // Debug logging
-  console.log('=== RENDER DEBUG ===');
-  console.log('Search params:', searchParams);
-  console.log('Compatible events from React Query:', compatibleEvents);
-  console.log('Compatible events count:', compatibleEvents.length);
-  console.log('Map region:', region);
-  console.log('Query error:', error);
-  console.log('User:', user);
-  console.log('Query enabled:', !!user?.id);
+  logger.debug('=== RENDER DEBUG ===');
+  logger.debug('Search params:', searchParams);
+  logger.debug('Compatible events from React Query:', compatibleEvents);
+  logger.debug('Compatible events count:', compatibleEvents.length);
+  logger.debug('Map region:', region);
+  logger.debug('Query error:', error);
+  logger.debug('User:', user);
+  logger.debug('Query enabled:', !!user?.id);
 
   // Debug marker coordinates and full event data
   compatibleEvents.forEach((event, index) => {
-    console.log(`Event ${index} (${event.id}):`, {
+    logger.debug(`Event ${index} (${event.id}):`, {
       id: event.id,
       hostUserId: event.hostUserId,
       lat: event.lat,
@@ -264,19 +282,47 @@ const FindCompatibleDatesScreen: React.FC = () => {
     });
   });
 
-  // Mutation for joining events
+  // Joins and new dates made while offline wait in the outbox until synced
+  const queuedDateMutations = useMutationOutbox([
+    'join-date-event',
+    'create-date-event',
+  ]);
+  const pendingSyncEventIds = new Set(
+    queuedDateMutations.flatMap(item =>
+      item.type === 'join-date-event' && item.status === 'pending'
+        ? [item.payload.dateEventId]
+        : []
+    )
+  );
+
+  const isOnline = useIsOnline();
+
+  const handleJoinSuccess = () => {
+    Alert.alert('Success', 'Join request sent successfully!');
+    refetch(); // Refresh the events
+  };
+
+  // Mutation for joining events. Runs while offline too, so the service can
+  // save the request to the outbox instead of React Query pausing it.
   const joinEventMutation = useMutation({
+    networkMode: 'always',
     mutationFn: (eventId: string) =>
       dateEventService.requestToJoinDateEvent({
         dateEventId: eventId,
         requesterId: user?.id || user?.username || '',
       }),
-    onSuccess: () => {
-      Alert.alert('Success', 'Join request sent successfully!');
-      refetch(); // Refresh the events
-    },
+    onSuccess: () => handleJoinSuccess(),
     onError: error => {
-      console.error('Join request failed:', error);
+      // The server already has this request from an earlier attempt
+      if (error instanceof DuplicateRequestError) {
+        handleJoinSuccess();
+        return;
+      }
+      if (error instanceof MutationQueuedError) {
+        Alert.alert('Saved Offline', error.message);
+        return;
+      }
+      logger.error('Join request failed:', error);
       Alert.alert('Error', 'Failed to send join request. Please try again.');
     },
   });
@@ -286,9 +332,9 @@ const FindCompatibleDatesScreen: React.FC = () => {
   // Debug helper: Log all raw API data
   useEffect(() => {
     if (compatibleEvents.length > 0) {
-      console.log('=== RAW API DATA DEBUG ===');
+      logger.debug('=== RAW API DATA DEBUG ===');
       compatibleEvents.forEach((event, i) => {
-        console.log(`Raw event ${i}:`, JSON.stringify(event, null, 2));
+        logger.debug(`Raw event ${i}:`, JSON.stringify(event, null, 2));
       });
     }
   }, [compatibleEvents]);
@@ -368,17 +414,30 @@ const FindCompatibleDatesScreen: React.FC = () => {
             <TouchableOpacity
               style={[
                 styles.joinButton,
-                joinEventMutation.isPending && styles.disabledButton,
+                (joinEventMutation.isPending ||
+                  pendingSyncEventIds.has(event.id)) &&
+                  styles.disabledButton,
               ]}
               onPress={() => handleJoinEvent(event.id)}
-              disabled={joinEventMutation.isPending}>
+              disabled={
+                joinEventMutation.isPending || pendingSyncEventIds.has(event.id)
+              }>
               <Text style={styles.joinButtonText}>
-                {joinEventMutation.isPending
+                {pendingSyncEventIds.has(event.id)
+                  ? 'Join Request Pending Sync'
+                  : joinEventMutation.isPending
                   ? 'Sending Request...'
-                  : 'Send Join Request'}
+                  : isOnline
+                  ? 'Send Join Request'
+                  : 'Send Join Request Later'}
               </Text>
             </TouchableOpacity>
           )}
+          {event.isOpen && !isOnline && !pendingSyncEventIds.has(event.id) && (
+            <Text style={styles.offlineHintText}>
+              You&apos;re offline. Your request will be sent once you reconnect.
+            </Text>
+          )}
         </ScrollView>
       </View>
     </Modal>
@@ -547,7 +606,7 @@ const FindCompatibleDatesScreen: React.FC = () => {
         showsUserLocation={false}
         showsMyLocationButton={false}>
         {compatibleEvents.map((event, index) => {
-          console.log(`Rendering marker ${index} for event ${event.id}:`, {
+          logger.debug(`Rendering marker ${index} for event ${event.id}:`, {
             lat: event.lat,
             lng: event.lng,
             hasValidCoordinates: event.lat != null && event.lng != null,
@@ -564,7 +623,7 @@ const FindCompatibleDatesScreen: React.FC = () => {
             event.eventTime
           )}`;
 
-          console.log(`Marker details for event ${event.id}:`, {
+          logger.debug(`Marker details for event ${event.id}:`, {
             venueName,
             eventTitle,
             eventDescription,
@@ -585,7 +644,7 @@ const FindCompatibleDatesScreen: React.FC = () => {
               description={eventDescription}
               pinColor="red"
               onPress={() => {
-                console.log('Marker pressed for event:', event.id);
+                logger.debug('Marker pressed for event:', event.id);
                 setSelectedEvent(event);
               }}
             />
@@ -595,6 +654,13 @@ const FindCompatibleDatesScreen: React.FC = () => {
         {/* User location marker removed - map centers directly on user location */}
       </MapView>
 
+      {/* Mutations waiting to be synced */}
+      {queuedDateMutations.length > 0 && (
+        <View style={styles.pendingSyncContainer}>
+          <PendingSyncList items={queuedDateMutations} />
+        </View>
+      )}
+
       {/* Status Indicator */}
       <View style={styles.statusIndicator}>
         {region.latitudeDelta > 1.8 ? (
@@ -758,6 +824,12 @@ const styles = StyleSheet.create({
   disabledButton: {
     backgroundColor: '#ccc',
   },
+  offlineHintText: {
+    fontSize: 14,
+    color: '#6c757d',
+    textAlign: 'center',
+    marginTop: 8,
+  },
   filtersContent: {
     padding: 16,
   },
@@ -829,6 +901,12 @@ const styles = StyleSheet.create({
     fontWeight: '600',
   },
   // Status indicator styles
+  pendingSyncContainer: {
+    position: 'absolute',
+    bottom: 70,
+    left: 20,
+    right: 20,
+  },
   statusIndicator: {
     position: 'absolute',
     bottom: 20,
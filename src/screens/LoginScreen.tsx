@@ -1,4 +1,4 @@
-import { useMutation } from '@tanstack/react-query';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { router } from 'expo-router';
 import React, { useState } from 'react';
 import {
@@ -10,58 +10,72 @@ import {
   View,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import { IdentityProviderButtons } from '../components/IdentityProviderButtons';
 import TonightLogo from '../components/TonightLogo';
 import { useAuth } from '../contexts/AuthContext';
-import { authService } from '../services';
-import { AuthResponseData } from '../types';
+import { demoMode } from '../mocks';
+import { SignInCancelledError } from '../services';
+import { LoginRequest, UserResponse } from '../types';
+import { logger } from '../utils/logger';
 
-const LoginScreen: React.FC = () => {
-  const { login, googleLogin } = useAuth();
+interface LoginScreenProps {
+  // Explains why the user is seeing the login screen, e.g. an expired session
+  notice?: string;
+}
+
+const LoginScreen: React.FC<LoginScreenProps> = ({ notice }) => {
+  const { login, loginWithProvider, startDemo } = useAuth();
+  const queryClient = useQueryClient();
   const [identifier, setIdentifier] = useState('');
   const [password, setPassword] = useState('');
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
 
-  // Debug: Log the Google Client ID
-  console.log(
-    'Google Web Client ID:',
-    process.env.EXPO_PUBLIC_GOOGLE_WEB_CLIENT_ID
-  );
-
-  const emailLoginMutation = useMutation<
-    AuthResponseData,
-    Error,
-    { identifier: string; password: string }
-  >({
-    mutationFn: loginData => authService.login(loginData),
-    onSuccess: async data => {
-      console.log('Login response data:', data);
-      console.log('User data:', data.user);
-      console.log('Data keys:', Object.keys(data || {}));
-      console.log('Has user property:', 'user' in (data || {}));
+  const emailLoginMutation = useMutation<UserResponse, Error, LoginRequest>({
+    mutationFn: loginData => login(loginData),
+    onSuccess: user => {
+      logger.debug('Logged in as:', user.username);
       setErrorMessage('');
-      if (data && data.user) {
-        await login(data.user);
-      } else {
-        console.error('No user data in response');
-        setErrorMessage('Login succeeded but no user data received');
-      }
     },
     onError: error => {
-      console.error('Login failed:', error);
+      logger.error('Login failed:', error);
       setErrorMessage(
         'Login failed. Please check your username/email and password.'
       );
     },
   });
 
-  const googleLoginMutation = useMutation({
-    mutationFn: (credential: string) => googleLogin(credential),
+  const providerLoginMutation = useMutation({
+    mutationFn: (providerId: string) => loginWithProvider(providerId),
     onSuccess: () => {
       setErrorMessage('');
     },
     onError: (error: Error) => {
-      console.error('Google login failed:', error);
-      setErrorMessage('Google login failed. Please try again.');
+      // Closing the provider's page is not an error
+      if (error instanceof SignInCancelledError) {
+        return;
+      }
+      logger.error('Provider login failed:', error);
+      setErrorMessage(
+        'Sign-in failed. Please try again or use your username and password.'
+      );
+    },
+  });
+
+  const demoLoginMutation = useMutation({
+    mutationFn: () => startDemo(),
+    onMutate: () => {
+      // Nothing fetched from the real backend should show up in the demo
+      queryClient.clear();
+    },
+    onSuccess: () => {
+      setErrorMessage('');
+    },
+    onError: (error: Error) => {
+      logger.error('Demo mode failed to start:', error);
+      demoMode.stop().catch(stopError => {
+        logger.error('Failed to leave demo mode:', stopError);
+      });
+      setErrorMessage('Demo mode could not be started. Please try again.');
     },
   });
 
@@ -75,33 +89,6 @@ const LoginScreen: React.FC = () => {
     emailLoginMutation.mutate({ identifier: identifier.trim(), password });
   };
 
-  const handleGoogleLogin = async () => {
-    try {
-      setErrorMessage('');
-
-      // Simulate API call delay
-      await new Promise(resolve => setTimeout(resolve, 1500));
-
-      // For now, show that Google Auth would work with complete-profile endpoint
-      setErrorMessage(
-        'Google Auth will be integrated with complete-profile endpoint. Use signup for now.'
-      );
-
-      // In a real implementation, this would:
-      // 1. Open Google OAuth flow
-      // 2. Get authorization code
-      // 3. Send to backend /auth/google endpoint
-      // 4. Backend exchanges code for user info
-      // 5. If new user, redirect to complete-profile
-      // 6. If existing user, complete login
-    } catch (error: any) {
-      console.error('Google sign in error:', error);
-      setErrorMessage(
-        'Google sign-in failed. Please try email/password login.'
-      );
-    }
-  };
-
   return (
     <SafeAreaView style={styles.container}>
       <ScrollView contentContainerStyle={styles.scrollContainer}>
@@ -111,6 +98,12 @@ const LoginScreen: React.FC = () => {
           </View>
           <Text style={styles.subtitle}>Find your perfect date tonight</Text>
 
+          {notice && (
+            <View style={styles.noticeContainer} accessibilityRole="alert">
+              <Text style={styles.noticeText}>{notice}</Text>
+            </View>
+          )}
+
           <View style={styles.form}>
             <TextInput
               style={styles.input}
@@ -152,17 +145,30 @@ const LoginScreen: React.FC = () => {
               <Text style={styles.dividerText}>OR</Text>
             </View>
 
+            <IdentityProviderButtons
+              action="Continue with"
+              onSelect={providerId => {
+                setErrorMessage('');
+                providerLoginMutation.mutate(providerId);
+              }}
+              pendingProviderId={
+                providerLoginMutation.isPending
+                  ? providerLoginMutation.variables
+                  : null
+              }
+            />
+
             <TouchableOpacity
-              style={[
-                styles.googleButton,
-                googleLoginMutation.isPending && styles.disabledButton,
-              ]}
-              onPress={handleGoogleLogin}
-              disabled={googleLoginMutation.isPending}>
-              <Text style={styles.googleButtonText}>
-                {googleLoginMutation.isPending
-                  ? 'Signing in with Google...'
-                  : 'Continue with Google'}
+              style={styles.demoButton}
+              onPress={() => demoLoginMutation.mutate()}
+              disabled={demoLoginMutation.isPending}>
+              <Text style={styles.demoButtonText}>
+                {demoLoginMutation.isPending
+                  ? 'Starting demo...'
+                  : 'Try Demo Mode'}
+              </Text>
+              <Text style={styles.demoHintText}>
+                Explore a sample city offline, no account needed
               </Text>
             </TouchableOpacity>
           </View>
@@ -253,19 +259,25 @@ const styles = StyleSheet.create({
     color: '#666',
     fontWeight: '500',
   },
-  googleButton: {
-    backgroundColor: '#4285f4',
+  demoButton: {
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    borderRadius: 8,
     paddingVertical: 12,
     paddingHorizontal: 20,
-    borderRadius: 8,
     alignItems: 'center',
-    justifyContent: 'center',
+    marginTop: 15,
   },
-  googleButtonText: {
-    color: '#fff',
+  demoButtonText: {
+    color: '#007AFF',
     fontSize: 16,
     fontWeight: '600',
   },
+  demoHintText: {
+    color: '#666',
+    fontSize: 12,
+    marginTop: 4,
+  },
   disabledContainer: {
     padding: 15,
     backgroundColor: '#f5f5f5',
@@ -280,6 +292,18 @@ const styles = StyleSheet.create({
     fontSize: 14,
     textAlign: 'center',
   },
+  noticeContainer: {
+    backgroundColor: '#fff8e1',
+    padding: 15,
+    borderRadius: 8,
+    marginBottom: 20,
+    borderLeftWidth: 4,
+    borderLeftColor: '#ffb300',
+  },
+  noticeText: {
+    color: '#8d6e00',
+    fontSize: 14,
+  },
   errorContainer: {
     backgroundColor: '#ffebee',
     padding: 15,
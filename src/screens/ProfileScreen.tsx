@@ -1,3 +1,4 @@
+import { useQueryClient } from '@tanstack/react-query';
 import React, { useState } from 'react';
 import {
   Alert,
@@ -14,13 +15,44 @@ import { DeleteAccountModal } from '../components/DeleteAccountModal';
 import TonightLogo from '../components/TonightLogo';
 import { PROMPT_CATEGORIES } from '../constants/promptCategories';
 import { useAuth } from '../contexts/AuthContext';
-import { userService } from '../services';
+import { demoMode } from '../mocks';
+import {
+  identityProviders,
+  SignInCancelledError,
+  userService,
+} from '../services';
 import { UpdateProfileRequest } from '../types';
+import {
+  FieldErrors,
+  hasFieldErrors,
+  mapApiErrorToFields,
+} from '../utils/formErrors';
+import { logger } from '../utils/logger';
+
+// Edit form inputs that can show errors reported by the backend
+const SERVER_VALIDATED_FIELDS = [
+  'username',
+  'dob',
+  'gender',
+  'orientation',
+] as const;
+
+type EditField = (typeof SERVER_VALIDATED_FIELDS)[number];
 
 const ProfileScreen: React.FC = () => {
-  const { user, logout, deleteUser, updateUser } = useAuth();
+  const {
+    user,
+    logout,
+    resetDemo,
+    deleteUser,
+    updateUser,
+    linkProvider,
+    unlinkProvider,
+  } = useAuth();
+  const queryClient = useQueryClient();
   const [showDeleteModal, setShowDeleteModal] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [busyProviderId, setBusyProviderId] = useState<string | null>(null);
   const [showEditModal, setShowEditModal] = useState(false);
   const [isUpdating, setIsUpdating] = useState(false);
   const [editData, setEditData] = useState({
@@ -39,6 +71,7 @@ const ProfileScreen: React.FC = () => {
     showGender: false,
     showOrientation: false,
   });
+  const [editErrors, setEditErrors] = useState<FieldErrors<EditField>>({});
 
   if (!user) {
     return (
@@ -53,9 +86,6 @@ const ProfileScreen: React.FC = () => {
     );
   }
 
-  // Handle both wrapped and unwrapped user data formats
-  const userData = (user as any).data ? (user as any).data : user;
-
   const formatDate = (dateString?: string) => {
     if (!dateString) return 'Not provided';
     return new Date(dateString).toLocaleDateString();
@@ -93,29 +123,93 @@ const ProfileScreen: React.FC = () => {
     ]);
   };
 
+  const handleResetDemo = () => {
+    Alert.alert(
+      'Reset Demo',
+      'This puts every demo date, request and profile back to how it started.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Reset',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await resetDemo();
+              await queryClient.resetQueries();
+            } catch (error) {
+              logger.error('Failed to reset demo:', error);
+              Alert.alert('Error', 'Failed to reset the demo.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
   const handleDeleteAccount = async () => {
     try {
       setIsDeleting(true);
       await deleteUser();
       setShowDeleteModal(false);
     } catch (error) {
-      console.error('Failed to delete account:', error);
+      logger.error('Failed to delete account:', error);
       Alert.alert('Error', 'Failed to delete account. Please try again.');
     } finally {
       setIsDeleting(false);
     }
   };
 
+  const handleLinkProvider = async (providerId: string) => {
+    try {
+      setBusyProviderId(providerId);
+      await linkProvider(providerId);
+    } catch (error) {
+      if (error instanceof SignInCancelledError) {
+        return;
+      }
+      logger.error('Failed to link account:', error);
+      Alert.alert('Error', 'Failed to connect the account. Please try again.');
+    } finally {
+      setBusyProviderId(null);
+    }
+  };
+
+  const handleUnlinkProvider = (providerId: string, label: string) => {
+    Alert.alert(
+      'Disconnect Account',
+      `You will no longer be able to sign in with ${label}.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Disconnect',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              setBusyProviderId(providerId);
+              await unlinkProvider(providerId);
+            } catch (error) {
+              logger.error('Failed to unlink account:', error);
+              Alert.alert('Error', 'Failed to disconnect the account.');
+            } finally {
+              setBusyProviderId(null);
+            }
+          },
+        },
+      ]
+    );
+  };
+
   const handleEditProfile = () => {
     // Pre-populate edit form with current data
     setEditData({
-      username: userData?.username || '',
-      dob: userData?.dob || '',
-      gender: userData?.gender || '',
-      orientation: userData?.orientation || '',
-      showGender: userData?.showGender || false,
-      showOrientation: userData?.showOrientation || false,
+      username: user?.username || '',
+      dob: user?.dob || '',
+      gender: user?.gender || '',
+      orientation: user?.orientation || '',
+      showGender: user?.showGender || false,
+      showOrientation: user?.showOrientation || false,
     });
+    setEditErrors({});
     setShowEditModal(true);
   };
 
@@ -123,39 +217,36 @@ const ProfileScreen: React.FC = () => {
     try {
       setIsUpdating(true);
 
-      if (!userData?.id) {
+      if (!user?.id) {
         throw new Error('User ID not found');
       }
 
       // Create update payload with only changed fields
       const updatePayload: UpdateProfileRequest = {};
 
-      if (editData.username && editData.username !== userData.username) {
+      if (editData.username && editData.username !== user.username) {
         updatePayload.username = editData.username;
       }
-      if (editData.dob && editData.dob !== userData.dob) {
+      if (editData.dob && editData.dob !== user.dob) {
         updatePayload.dob = editData.dob;
       }
-      if (editData.gender && editData.gender !== userData.gender) {
+      if (editData.gender && editData.gender !== user.gender) {
         updatePayload.gender = editData.gender;
       }
-      if (
-        editData.orientation &&
-        editData.orientation !== userData.orientation
-      ) {
+      if (editData.orientation && editData.orientation !== user.orientation) {
         updatePayload.orientation = editData.orientation;
       }
-      if (editData.showGender !== userData.showGender) {
+      if (editData.showGender !== user.showGender) {
         updatePayload.showGender = editData.showGender;
       }
-      if (editData.showOrientation !== userData.showOrientation) {
+      if (editData.showOrientation !== user.showOrientation) {
         updatePayload.showOrientation = editData.showOrientation;
       }
 
       // Only update if there are changes
       if (Object.keys(updatePayload).length > 0) {
         const updatedUser = await userService.updateProfile(
-          userData.id,
+          user.id,
           updatePayload
         );
         await updateUser(updatedUser);
@@ -164,7 +255,15 @@ const ProfileScreen: React.FC = () => {
 
       setShowEditModal(false);
     } catch (error) {
-      console.error('Failed to update profile:', error);
+      logger.error('Failed to update profile:', error);
+
+      // Keep the form open and point at the offending inputs when possible
+      const fieldErrors = mapApiErrorToFields(error, SERVER_VALIDATED_FIELDS);
+      if (hasFieldErrors(fieldErrors)) {
+        setEditErrors(fieldErrors);
+        return;
+      }
+
       Alert.alert('Error', 'Failed to update profile. Please try again.');
     } finally {
       setIsUpdating(false);
@@ -198,37 +297,35 @@ const ProfileScreen: React.FC = () => {
             <View style={styles.infoRow}>
               <Text style={styles.label}>Username</Text>
               <Text style={styles.value}>
-                {userData?.username || 'Not provided'}
+                {user?.username || 'Not provided'}
               </Text>
             </View>
             <View style={styles.infoRow}>
               <Text style={styles.label}>Date of Birth</Text>
-              <Text style={styles.value}>{formatDate(userData?.dob)}</Text>
+              <Text style={styles.value}>{formatDate(user?.dob)}</Text>
             </View>
             <View style={styles.infoRow}>
               <Text style={styles.label}>Age</Text>
-              <Text style={styles.value}>{calculateAge(userData?.dob)}</Text>
+              <Text style={styles.value}>{calculateAge(user?.dob)}</Text>
             </View>
             <View style={styles.infoRow}>
               <Text style={styles.label}>Gender</Text>
-              <Text style={styles.value}>
-                {userData?.gender || 'Not provided'}
-              </Text>
+              <Text style={styles.value}>{user?.gender || 'Not provided'}</Text>
             </View>
             <View style={styles.infoRow}>
               <Text style={styles.label}>Sexual Orientation</Text>
               <Text style={styles.value}>
-                {userData?.orientation || 'Not provided'}
+                {user?.orientation || 'Not provided'}
               </Text>
             </View>
           </View>
         </View>
 
         {/* Prompt Answers */}
-        {userData?.promptAnswers && userData.promptAnswers.length > 0 && (
+        {user?.promptAnswers && user.promptAnswers.length > 0 && (
           <View style={styles.section}>
             <Text style={styles.sectionTitle}>Profile Questions</Text>
-            {userData.promptAnswers.map((answer: any, index: number) => (
+            {user.promptAnswers.map((answer: any, index: number) => (
               <View key={index} style={styles.promptCard}>
                 <Text style={styles.promptQuestion}>
                   {getQuestionText(answer.categoryId, answer.questionId)}
@@ -239,8 +336,52 @@ const ProfileScreen: React.FC = () => {
           </View>
         )}
 
+        {/* Connected Accounts */}
+        {identityProviders.list().length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Connected Accounts</Text>
+            <View style={styles.infoCard}>
+              {identityProviders.list().map(provider => {
+                const isLinked = !!user?.linkedProviders?.includes(provider.id);
+                return (
+                  <View key={provider.id} style={styles.infoRow}>
+                    <Text style={styles.label}>{provider.label}</Text>
+                    <TouchableOpacity
+                      disabled={!!busyProviderId}
+                      onPress={() =>
+                        isLinked
+                          ? handleUnlinkProvider(provider.id, provider.label)
+                          : handleLinkProvider(provider.id)
+                      }>
+                      <Text style={styles.linkText}>
+                        {busyProviderId === provider.id
+                          ? 'Please wait...'
+                          : isLinked
+                          ? 'Disconnect'
+                          : 'Connect'}
+                      </Text>
+                    </TouchableOpacity>
+                  </View>
+                );
+              })}
+            </View>
+          </View>
+        )}
+
         {/* Actions */}
         <View style={styles.section}>
+          {demoMode.isActive() && (
+            <>
+              <Text style={styles.demoNote}>
+                You are in demo mode. Changes are saved on this device only.
+              </Text>
+              <TouchableOpacity
+                style={styles.actionButton}
+                onPress={handleResetDemo}>
+                <Text style={styles.actionButtonText}>Reset Demo</Text>
+              </TouchableOpacity>
+            </>
+          )}
           <TouchableOpacity
             style={[styles.actionButton, styles.dangerButton]}
             onPress={() => setShowDeleteModal(true)}>
@@ -270,23 +411,41 @@ const ProfileScreen: React.FC = () => {
               <View style={styles.formSection}>
                 <Text style={styles.formLabel}>Username</Text>
                 <TextInput
-                  style={styles.formInput}
+                  style={[
+                    styles.formInput,
+                    editErrors.username && styles.formInputError,
+                  ]}
                   value={editData.username}
-                  onChangeText={text =>
-                    setEditData({ ...editData, username: text })
-                  }
+                  onChangeText={text => {
+                    setEditData({ ...editData, username: text });
+                    setEditErrors({ ...editErrors, username: undefined });
+                  }}
                   placeholder="Enter username"
                 />
+                {editErrors.username && (
+                  <Text style={styles.formErrorText}>
+                    {editErrors.username}
+                  </Text>
+                )}
               </View>
 
               <View style={styles.formSection}>
                 <Text style={styles.formLabel}>Date of Birth</Text>
                 <TextInput
-                  style={styles.formInput}
+                  style={[
+                    styles.formInput,
+                    editErrors.dob && styles.formInputError,
+                  ]}
                   value={editData.dob}
-                  onChangeText={text => setEditData({ ...editData, dob: text })}
+                  onChangeText={text => {
+                    setEditData({ ...editData, dob: text });
+                    setEditErrors({ ...editErrors, dob: undefined });
+                  }}
                   placeholder="YYYY-MM-DD"
                 />
+                {editErrors.dob && (
+                  <Text style={styles.formErrorText}>{editErrors.dob}</Text>
+                )}
               </View>
 
               <View style={styles.formSection}>
@@ -314,6 +473,9 @@ const ProfileScreen: React.FC = () => {
                     </TouchableOpacity>
                   ))}
                 </View>
+                {editErrors.gender && (
+                  <Text style={styles.formErrorText}>{editErrors.gender}</Text>
+                )}
                 <TouchableOpacity
                   style={styles.privacyToggle}
                   onPress={() =>
@@ -361,6 +523,11 @@ const ProfileScreen: React.FC = () => {
                     </TouchableOpacity>
                   ))}
                 </View>
+                {editErrors.orientation && (
+                  <Text style={styles.formErrorText}>
+                    {editErrors.orientation}
+                  </Text>
+                )}
                 <TouchableOpacity
                   style={styles.privacyToggle}
                   onPress={() =>
@@ -516,6 +683,11 @@ const styles = StyleSheet.create({
     flex: 1,
     marginLeft: 10,
   },
+  linkText: {
+    fontSize: 16,
+    color: '#007bff',
+    fontWeight: '600',
+  },
   promptCard: {
     backgroundColor: '#fff',
     borderRadius: 12,
@@ -561,6 +733,12 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     textAlign: 'center',
   },
+  demoNote: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+    marginBottom: 12,
+  },
   dangerButton: {
     backgroundColor: '#fff',
     borderWidth: 1,
@@ -615,6 +793,14 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: '#e0e0e0',
   },
+  formInputError: {
+    borderColor: '#dc3545',
+  },
+  formErrorText: {
+    color: '#dc3545',
+    fontSize: 14,
+    marginTop: 5,
+  },
   pickerContainer: {
     flexDirection: 'row',
     flexWrap: 'wrap',
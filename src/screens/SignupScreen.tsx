@@ -18,10 +18,15 @@ import {
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 
+import { IdentityProviderButtons } from '../components/IdentityProviderButtons';
 import { PasswordStrengthIndicator } from '../components/PasswordStrengthIndicator';
 import TonightLogo from '../components/TonightLogo';
 import { useAuth } from '../contexts/AuthContext';
 import { apiClient } from '../services/apiClient';
+import { SignInCancelledError } from '../services/apiErrors';
+import { identityProviders } from '../services/identityProviders';
+import { hasFieldErrors, mapApiErrorToFields } from '../utils/formErrors';
+import { logger } from '../utils/logger';
 import { validatePassword } from '../utils/passwordValidation';
 
 interface UserPromptAnswer {
@@ -63,8 +68,16 @@ interface SignupData {
   showOrientation: boolean;
 }
 
+// Inputs that can show errors reported by the backend
+const SERVER_VALIDATED_FIELDS = [
+  'username',
+  'email',
+  'password',
+  'dob',
+] as const;
+
 const SignupScreen: React.FC = () => {
-  const { signup } = useAuth();
+  const { signup, loginWithProvider } = useAuth();
 
   const [formData, setFormData] = useState<SignupData>({
     username: '',
@@ -111,7 +124,7 @@ const SignupScreen: React.FC = () => {
       const categories = response.data || response;
       return categories as PromptCategory[];
     } catch (error) {
-      console.error('Error fetching prompt categories:', error);
+      logger.error('Error fetching prompt categories:', error);
       return [];
     }
   };
@@ -124,7 +137,7 @@ const SignupScreen: React.FC = () => {
         const categories = await fetchPromptCategories();
         setPromptCategories(categories);
       } catch (error) {
-        console.error('Error loading prompt categories:', error);
+        logger.error('Error loading prompt categories:', error);
       } finally {
         setLoadingPrompts(false);
       }
@@ -204,7 +217,7 @@ const SignupScreen: React.FC = () => {
       };
 
       // Log the request but mask the password
-      console.log('Creating user with data:', {
+      logger.debug('Creating user with data:', {
         ...profileData,
         password: '***MASKED***',
       });
@@ -225,11 +238,32 @@ const SignupScreen: React.FC = () => {
       );
     },
     onError: (error: any) => {
+      // Show field problems (e.g. username taken) under the offending input
+      const fieldErrors = mapApiErrorToFields(error, SERVER_VALIDATED_FIELDS);
+      if (hasFieldErrors(fieldErrors)) {
+        setErrors(prev => ({ ...prev, ...fieldErrors }));
+        return;
+      }
+
       const errorMessage = error?.message || 'Signup failed';
       Alert.alert('Signup Failed', errorMessage);
     },
   });
 
+  // The backend creates the account on a provider's first sign-in
+  const providerSignupMutation = useMutation({
+    mutationFn: (providerId: string) => loginWithProvider(providerId),
+    onSuccess: () => router.replace('/(tabs)'),
+    onError: (error: Error) => {
+      // Closing the provider's page is not an error
+      if (error instanceof SignInCancelledError) {
+        return;
+      }
+      logger.error('Provider signup failed:', error);
+      Alert.alert('Signup Failed', error.message || 'Signup failed');
+    },
+  });
+
   const validateForm = (): boolean => {
     const newErrors: Partial<SignupData> = {};
 
@@ -860,6 +894,24 @@ const SignupScreen: React.FC = () => {
                     : 'Create Account'}
                 </Text>
               </TouchableOpacity>
+
+              {identityProviders.list().length > 0 && (
+                <View style={styles.divider}>
+                  <Text style={styles.dividerText}>OR</Text>
+                </View>
+              )}
+
+              <IdentityProviderButtons
+                action="Sign up with"
+                onSelect={providerId =>
+                  providerSignupMutation.mutate(providerId)
+                }
+                pendingProviderId={
+                  providerSignupMutation.isPending
+                    ? providerSignupMutation.variables
+                    : null
+                }
+              />
             </View>
 
             <View style={styles.footer}>
@@ -944,6 +996,15 @@ const styles = StyleSheet.create({
   disabledButton: {
     backgroundColor: '#ccc',
   },
+  divider: {
+    alignItems: 'center',
+    marginVertical: 20,
+  },
+  dividerText: {
+    fontSize: 16,
+    color: '#666',
+    fontWeight: '500',
+  },
   footer: {
     alignItems: 'center',
   },
@@ -0,0 +1,436 @@
+import { apiClient } from '../apiClient';
+import {
+  ConflictError,
+  DuplicateRequestError,
+  NetworkError,
+  RequestCancelledError,
+  UnauthorizedError,
+} from '../apiErrors';
+import { envelope, setupFakeHttp } from './fakeHttp';
+
+const NOW = Date.parse('2026-06-01T20:00:00Z');
+
+// An unsigned JWT expiring `seconds` after NOW
+const jwt = (seconds: number) =>
+  `header.${btoa(
+    JSON.stringify({ sub: 'u1', exp: NOW / 1000 + seconds })
+  )}.signature`;
+
+describe('apiClient token expiry', () => {
+  const http = setupFakeHttp();
+  const onExpired = jest.fn();
+  let unsubscribe: () => void;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: NOW });
+    onExpired.mockClear();
+    unsubscribe = apiClient.onSessionExpired(onExpired);
+    http.reply('GET', '/dates', []);
+  });
+
+  afterEach(() => {
+    unsubscribe();
+    jest.useRealTimers();
+  });
+
+  describe('before a request', () => {
+    it('ends the session instead of sending an expired token', async () => {
+      await apiClient.setSession({ accessToken: jwt(-60) });
+
+      await expect(apiClient.getData('/dates')).rejects.toBeInstanceOf(
+        UnauthorizedError
+      );
+
+      expect(http.requests).toHaveLength(0);
+      expect(apiClient.getToken()).toBeNull();
+      expect(onExpired).toHaveBeenCalledTimes(1);
+    });
+
+    it('refreshes an expired token first', async () => {
+      const fresh = jwt(3600);
+      await apiClient.setSession({
+        accessToken: jwt(-60),
+        refreshToken: 'refresh-1',
+      });
+      http.reply('POST', '/auth/refresh', { accessToken: fresh });
+
+      await apiClient.getData('/dates');
+
+      expect(http.requests.map(request => request.path)).toEqual([
+        '/auth/refresh',
+        '/dates',
+      ]);
+      expect(http.lastRequest.headers.Authorization).toBe(`Bearer ${fresh}`);
+    });
+
+    it('keeps the session when the refresh fails offline', async () => {
+      await apiClient.setSession({
+        accessToken: jwt(-60),
+        refreshToken: 'refresh-1',
+      });
+      http.on('POST', '/auth/refresh', () => {
+        throw new NetworkError(['offline']);
+      });
+
+      await expect(
+        apiClient.getData('/dates', { retry: false })
+      ).rejects.toBeInstanceOf(NetworkError);
+
+      expect(apiClient.getToken()).not.toBeNull();
+      expect(onExpired).not.toHaveBeenCalled();
+    });
+
+    it('sends tokens without a known expiry as before', async () => {
+      await apiClient.setSession({ accessToken: 'opaque-token' });
+
+      await apiClient.getData('/dates');
+
+      expect(http.lastRequest.headers.Authorization).toBe(
+        'Bearer opaque-token'
+      );
+    });
+  });
+
+  describe('ahead of expiry', () => {
+    it('refreshes a minute before the token expires', async () => {
+      await apiClient.setSession({
+        accessToken: jwt(300),
+        refreshToken: 'refresh-1',
+      });
+      http.reply('POST', '/auth/refresh', { accessToken: jwt(3600) });
+
+      await jest.advanceTimersByTimeAsync(239 * 1000);
+      expect(http.requests).toHaveLength(0);
+
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(http.lastRequest.path).toBe('/auth/refresh');
+      expect(apiClient.getToken()).toBe(jwt(3600));
+    });
+
+    it('ends a session that cannot be refreshed when the token expires', async () => {
+      await apiClient.setSession({ accessToken: jwt(300) });
+
+      await jest.advanceTimersByTimeAsync(300 * 1000);
+
+      expect(apiClient.getToken()).toBeNull();
+      expect(onExpired).toHaveBeenCalledTimes(1);
+    });
+
+    it('stops watching once the session is cleared', async () => {
+      await apiClient.setSession({ accessToken: jwt(300) });
+      await apiClient.clearSession();
+
+      await jest.advanceTimersByTimeAsync(300 * 1000);
+
+      expect(onExpired).not.toHaveBeenCalled();
+    });
+  });
+});
+
+describe('apiClient session refresh', () => {
+  const http = setupFakeHttp();
+  const onExpired = jest.fn();
+  let unsubscribe: () => void;
+
+  beforeEach(async () => {
+    onExpired.mockClear();
+    unsubscribe = apiClient.onSessionExpired(onExpired);
+    await apiClient.setSession({
+      accessToken: 'access-1',
+      refreshToken: 'refresh-1',
+    });
+  });
+
+  afterEach(() => {
+    unsubscribe();
+  });
+
+  // Answers with 401 until the request carries the refreshed token
+  const requireFreshToken = (path: string) =>
+    http.on('GET', path, request =>
+      request.headers.Authorization === 'Bearer access-2'
+        ? { body: envelope(path) }
+        : { status: 401, body: { success: false, message: 'Expired' } }
+    );
+
+  it('refreshes once for concurrent 401s and replays every request', async () => {
+    ['/a', '/b', '/c'].forEach(requireFreshToken);
+    http.reply('POST', '/auth/refresh', {
+      accessToken: 'access-2',
+      refreshToken: 'refresh-2',
+    });
+
+    const results = await Promise.all(
+      ['/a', '/b', '/c'].map(path => apiClient.getData(path))
+    );
+
+    expect(results.map(result => result.data)).toEqual(['/a', '/b', '/c']);
+    expect(
+      http.requests.filter(request => request.path === '/auth/refresh')
+    ).toHaveLength(1);
+    expect(http.requests.find(r => r.path === '/auth/refresh')!.body).toEqual({
+      refreshToken: 'refresh-1',
+    });
+    expect(apiClient.getToken()).toBe('access-2');
+  });
+
+  it.each([
+    ['an outage', 503],
+    ['rate limiting', 429],
+  ])('keeps the session through %s', async (_, status) => {
+    requireFreshToken('/a');
+    http.fail('POST', '/auth/refresh', status, 'Try again later');
+
+    await expect(
+      apiClient.getData('/a', { retry: false })
+    ).rejects.toMatchObject({ status });
+
+    expect(apiClient.getToken()).toBe('access-1');
+    expect(onExpired).not.toHaveBeenCalled();
+  });
+
+  it.each([400, 401, 403])(
+    'ends the session when the refresh token is rejected with %i',
+    async status => {
+      requireFreshToken('/a');
+      http.fail('POST', '/auth/refresh', status, 'Invalid refresh token');
+
+      await expect(apiClient.getData('/a')).rejects.toBeInstanceOf(
+        UnauthorizedError
+      );
+
+      expect(apiClient.getToken()).toBeNull();
+      expect(onExpired).toHaveBeenCalledTimes(1);
+    }
+  );
+});
+
+describe('apiClient retries', () => {
+  const http = setupFakeHttp();
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    // Full jitter then waits the whole backoff
+    jest.spyOn(Math, 'random').mockReturnValue(1);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const unavailable = (headers: Record<string, string> = {}) => ({
+    status: 503,
+    body: { success: false, message: 'Unavailable' },
+    headers,
+  });
+
+  it('retries a failed GET with exponential backoff', async () => {
+    http.reply('GET', '/dates', []).on('GET', '/dates', unavailable(), 2);
+    const onRetry = jest.fn();
+
+    const result = apiClient.getData('/dates', { onRetry });
+    await jest.advanceTimersByTimeAsync(499);
+    expect(http.requests).toHaveLength(1);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(http.requests).toHaveLength(2);
+    await jest.advanceTimersByTimeAsync(1000);
+
+    await expect(result).resolves.toEqual({ data: [], message: 'OK' });
+    expect(http.requests).toHaveLength(3);
+    expect(onRetry).toHaveBeenCalledTimes(2);
+  });
+
+  it('gives up after the last retry', async () => {
+    http.on('GET', '/dates', unavailable());
+
+    const result = apiClient.getData('/dates').catch(error => error);
+    await jest.advanceTimersByTimeAsync(1500);
+
+    expect(await result).toMatchObject({ status: 503, attempts: 3 });
+  });
+
+  it('waits as long as Retry-After asks', async () => {
+    http
+      .reply('GET', '/dates', [])
+      .on('GET', '/dates', unavailable({ 'Retry-After': '3' }), 1);
+
+    const result = apiClient.getData('/dates');
+    await jest.advanceTimersByTimeAsync(2999);
+    expect(http.requests).toHaveLength(1);
+    await jest.advanceTimersByTimeAsync(1);
+
+    await expect(result).resolves.toBeDefined();
+    expect(http.requests).toHaveLength(2);
+  });
+
+  it('does not retry early when Retry-After is longer than the policy allows', async () => {
+    http.on('GET', '/dates', unavailable({ 'Retry-After': '120' }));
+
+    await expect(apiClient.getData('/dates')).rejects.toMatchObject({
+      status: 503,
+      retryAfterMs: 120_000,
+      attempts: 1,
+    });
+    expect(http.requests).toHaveLength(1);
+  });
+
+  it('only retries mutations marked idempotent', async () => {
+    http.on('POST', '/dates', unavailable());
+
+    await expect(apiClient.postData('/dates', {})).rejects.toMatchObject({
+      attempts: 1,
+    });
+    expect(http.requests).toHaveLength(1);
+  });
+
+  it('does not retry client errors', async () => {
+    http.fail('GET', '/dates', 404, 'Not found');
+
+    await expect(apiClient.getData('/dates')).rejects.toMatchObject({
+      status: 404,
+      attempts: 1,
+    });
+  });
+});
+
+describe('apiClient idempotency conflicts', () => {
+  const http = setupFakeHttp();
+
+  const conflict = (headers: Record<string, string> = {}) => ({
+    status: 409,
+    body: { success: false, message: 'Conflict' },
+    headers,
+  });
+
+  it('keeps a 409 to a fresh key a conflict', async () => {
+    http.on('POST', '/dates', conflict());
+
+    const error = await apiClient
+      .postData('/dates', {}, { idempotencyKey: 'k1' })
+      .catch(e => e);
+
+    expect(error).toBeInstanceOf(ConflictError);
+    expect(error).not.toBeInstanceOf(DuplicateRequestError);
+  });
+
+  it('treats a 409 as a duplicate when the key was sent before', async () => {
+    http.on('POST', '/dates', conflict());
+
+    await expect(
+      apiClient.postData(
+        '/dates',
+        {},
+        { idempotencyKey: 'k1', idempotencyKeyReused: true }
+      )
+    ).rejects.toBeInstanceOf(DuplicateRequestError);
+  });
+
+  it('treats a 409 as a duplicate when the server says it replayed', async () => {
+    http.on('POST', '/dates', conflict({ 'Idempotent-Replayed': 'true' }));
+
+    await expect(
+      apiClient.postData('/dates', {}, { idempotencyKey: 'k1' })
+    ).rejects.toBeInstanceOf(DuplicateRequestError);
+  });
+
+  it('treats a 409 after a retried attempt as a duplicate', async () => {
+    jest.spyOn(Math, 'random').mockReturnValue(0);
+    http
+      .on('POST', '/dates', conflict())
+      .on('POST', '/dates', { status: 503, body: { success: false } }, 1);
+
+    await expect(
+      apiClient.postData('/dates', {}, { idempotencyKey: 'k1' })
+    ).rejects.toBeInstanceOf(DuplicateRequestError);
+    expect(http.requests).toHaveLength(2);
+  });
+});
+
+describe('apiClient GET coalescing', () => {
+  let fetchSignals: AbortSignal[];
+  let responders: ((body: unknown) => void)[];
+
+  // Lets the request hooks run so fetch has been called
+  const flush = () => new Promise(process.nextTick);
+
+  beforeEach(() => {
+    fetchSignals = [];
+    responders = [];
+    // Each fetch stays pending until the test responds or its signal aborts
+    jest.spyOn(global, 'fetch').mockImplementation(
+      (_input, init) =>
+        new Promise<Response>((resolve, reject) => {
+          const signal = init!.signal!;
+          fetchSignals.push(signal);
+          signal.addEventListener('abort', () =>
+            reject(new DOMException('Aborted', 'AbortError'))
+          );
+          responders.push(body => resolve(new Response(JSON.stringify(body))));
+        })
+    );
+  });
+
+  afterEach(() => {
+    apiClient.clearHttpCache();
+  });
+
+  it('shares one request between identical GETs', async () => {
+    const first = apiClient.get('/dates');
+    const second = apiClient.get('/dates');
+    const other = apiClient.get('/dates/mine');
+    await flush();
+
+    expect(fetch).toHaveBeenCalledTimes(2);
+    responders[0]({ id: 'dates' });
+    responders[1]({ id: 'mine' });
+    await expect(first).resolves.toEqual({ id: 'dates' });
+    await expect(second).resolves.toEqual({ id: 'dates' });
+    await expect(other).resolves.toEqual({ id: 'mine' });
+  });
+
+  it('starts a new request once the shared one has settled', async () => {
+    const first = apiClient.get('/dates');
+    await flush();
+    responders[0]({ page: 1 });
+    await first;
+
+    const second = apiClient.get('/dates');
+    await flush();
+    responders[1]({ page: 2 });
+
+    await expect(second).resolves.toEqual({ page: 2 });
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps the request going while another caller still waits', async () => {
+    const cancelled = new AbortController();
+    const abandoned = apiClient.get('/dates', { signal: cancelled.signal });
+    const waiting = apiClient.get('/dates');
+    await flush();
+
+    cancelled.abort();
+    await expect(abandoned).rejects.toBeInstanceOf(RequestCancelledError);
+    expect(fetchSignals[0].aborted).toBe(false);
+
+    responders[0]({ ok: true });
+    await expect(waiting).resolves.toEqual({ ok: true });
+  });
+
+  it('aborts the request once every caller has cancelled', async () => {
+    const first = new AbortController();
+    const second = new AbortController();
+    const requests = [
+      apiClient.get('/dates', { signal: first.signal }),
+      apiClient.get('/dates', { signal: second.signal }),
+    ];
+    await flush();
+
+    first.abort();
+    second.abort();
+
+    for (const request of requests) {
+      await expect(request).rejects.toBeInstanceOf(RequestCancelledError);
+    }
+    expect(fetchSignals[0].aborted).toBe(true);
+  });
+});
@@ -0,0 +1,73 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { apiClient, DEFAULT_API_BASE_URL } from '../apiClient';
+import { apiEnvironment } from '../apiEnvironment';
+import { ApiError } from '../apiErrors';
+
+describe('apiEnvironment', () => {
+  afterEach(async () => {
+    await apiEnvironment.switchTo('development');
+    await AsyncStorage.clear();
+  });
+
+  it('starts on the build’s API URL', () => {
+    expect(apiEnvironment.getCurrent()).toMatchObject({
+      name: 'development',
+      baseUrl: DEFAULT_API_BASE_URL,
+    });
+    expect(apiClient.getBaseUrl()).toBe(DEFAULT_API_BASE_URL);
+  });
+
+  it('switches to a custom URL and ends the session', async () => {
+    await apiClient.setSession({ accessToken: 'a', refreshToken: 'r' });
+    const listener = jest.fn();
+    const unsubscribe = apiEnvironment.subscribe(listener);
+
+    const environment = await apiEnvironment.switchTo(
+      'custom',
+      ' https://qa.example.com/api/ '
+    );
+    unsubscribe();
+
+    expect(environment).toEqual({
+      name: 'custom',
+      label: 'Custom',
+      baseUrl: 'https://qa.example.com/api',
+    });
+    expect(apiClient.getBaseUrl()).toBe('https://qa.example.com/api');
+    expect(apiClient.getToken()).toBeNull();
+    expect(listener).toHaveBeenCalledWith(environment);
+  });
+
+  it.each(['', 'qa.example.com', 'ftp://qa.example.com', 'https://'])(
+    'rejects the custom URL %p',
+    async url => {
+      expect(() => apiEnvironment.resolve('custom', url)).toThrow(ApiError);
+      await expect(
+        apiEnvironment.switchTo('custom', url)
+      ).rejects.toBeInstanceOf(ApiError);
+      expect(apiClient.getBaseUrl()).toBe(DEFAULT_API_BASE_URL);
+    }
+  );
+
+  it('restores the persisted choice', async () => {
+    await apiEnvironment.switchTo('custom', 'http://10.0.2.2:3001');
+    apiClient.setBaseUrl(DEFAULT_API_BASE_URL);
+
+    await apiEnvironment.restore();
+
+    expect(apiClient.getBaseUrl()).toBe('http://10.0.2.2:3001');
+  });
+
+  it('ignores a corrupt stored choice', async () => {
+    await AsyncStorage.setItem(
+      'apiEnvironment',
+      JSON.stringify({ name: 'staging', baseUrl: 'x' })
+    );
+
+    await apiEnvironment.restore();
+
+    expect(apiEnvironment.getCurrent().name).toBe('development');
+    await expect(AsyncStorage.getItem('apiEnvironment')).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,226 @@
+import { apiClient } from '../apiClient';
+import { DecodeError, NotFoundError, UnauthorizedError } from '../apiErrors';
+import { authService } from '../authService';
+import { setupFakeHttp } from './fakeHttp';
+
+const user = {
+  id: 'u1',
+  username: 'alex',
+  email: 'alex@example.com',
+  dob: '1994-03-12',
+  gender: 'male',
+  orientation: 'straight',
+};
+
+describe('authService', () => {
+  const http = setupFakeHttp();
+
+  describe('login', () => {
+    it('unwraps the envelope and returns the tokens', async () => {
+      http.reply('POST', '/auth/login', {
+        user,
+        token: 'access-1',
+        refreshToken: 'refresh-1',
+      });
+
+      const result = await authService.login({
+        identifier: 'alex',
+        password: 'Password123!',
+      });
+
+      expect(result).toEqual({
+        user,
+        profileComplete: true,
+        token: 'access-1',
+        refreshToken: 'refresh-1',
+      });
+      expect(http.lastRequest.body).toEqual({
+        identifier: 'alex',
+        password: 'Password123!',
+      });
+      // Starting the session is left to sessionManager
+      expect(apiClient.getToken()).toBeNull();
+    });
+
+    it('passes through a 401 from the backend', async () => {
+      http.fail('POST', '/auth/login', 401, 'Invalid credentials');
+
+      const error = await authService
+        .login({ identifier: 'alex', password: 'wrong' })
+        .catch(e => e);
+
+      expect(error).toBeInstanceOf(UnauthorizedError);
+      expect(error.message).toBe('Invalid credentials');
+      expect(authService.isAuthenticated()).toBe(false);
+    });
+
+    it('rejects a response without a user', async () => {
+      http.reply('POST', '/auth/login', { token: 'access-1' });
+
+      const error = await authService
+        .login({ identifier: 'alex', password: 'secret' })
+        .catch(e => e);
+
+      expect(error).toBeInstanceOf(DecodeError);
+      expect(error.path).toBe('login.user');
+    });
+
+    it('rejects a malformed user', async () => {
+      http.reply('POST', '/auth/login', {
+        user: { ...user, id: undefined },
+        token: 'access-1',
+      });
+
+      await expect(
+        authService.login({ identifier: 'alex', password: 'secret' })
+      ).rejects.toBeInstanceOf(DecodeError);
+      expect(authService.isAuthenticated()).toBe(false);
+    });
+  });
+
+  describe('providerLogin', () => {
+    it("exchanges the provider's ID token for tokens", async () => {
+      http.reply('POST', '/auth/google', {
+        user,
+        profileComplete: false,
+        token: 'access-2',
+      });
+
+      const result = await authService.providerLogin(
+        'google',
+        'google-id-token'
+      );
+
+      expect(http.lastRequest.path).toBe('/auth/google');
+      expect(http.lastRequest.body).toEqual({ token: 'google-id-token' });
+      expect(result.profileComplete).toBe(false);
+      expect(result.token).toBe('access-2');
+    });
+  });
+
+  describe('completeProfile', () => {
+    it('creates the user with only the account fields', async () => {
+      http.reply('POST', '/users', user, 201);
+
+      const created = await authService.completeProfile({
+        username: 'alex',
+        email: 'alex@example.com',
+        password: 'Password123!',
+        dob: '1994-03-12',
+        gender: 'male',
+        orientation: 'straight',
+        showGender: true,
+        showOrientation: false,
+        promptAnswers: [],
+      });
+
+      expect(created).toEqual(user);
+      expect(http.lastRequest.body).toEqual({
+        username: 'alex',
+        email: 'alex@example.com',
+        password: 'Password123!',
+        dob: '1994-03-12',
+        gender: 'male',
+        orientation: 'straight',
+        showGender: true,
+        showOrientation: false,
+        promptAnswers: [],
+      });
+    });
+  });
+
+  describe('completeUserProfile', () => {
+    it('POSTs to the user’s complete-profile endpoint', async () => {
+      http.reply('POST', '/users/u1/complete-profile', user);
+
+      await authService.completeUserProfile('u1', {
+        dob: '1994-03-12',
+        gender: 'male',
+        orientation: 'straight',
+        promptAnswers: [],
+      });
+
+      expect(http.lastRequest.path).toBe('/users/u1/complete-profile');
+      expect(http.lastRequest.body).toEqual({
+        dob: '1994-03-12',
+        gender: 'male',
+        orientation: 'straight',
+        promptAnswers: [],
+      });
+    });
+  });
+
+  describe('getCurrentUser', () => {
+    it('fetches the signed-in user from /auth/me', async () => {
+      await apiClient.setSession({ accessToken: 'access-1' });
+      http.reply('GET', '/auth/me', user);
+
+      await expect(authService.getCurrentUser()).resolves.toEqual({
+        user,
+        profileComplete: true,
+      });
+      expect(http.lastRequest.headers.Authorization).toBe('Bearer access-1');
+    });
+
+    it('reports an incomplete profile', async () => {
+      await apiClient.setSession({ accessToken: 'access-1' });
+      http.reply('GET', '/auth/me', { id: 'u1', username: 'alex', email: '' });
+
+      const { profileComplete } = await authService.getCurrentUser();
+
+      expect(profileComplete).toBe(false);
+    });
+
+    it('fails without a request when there is no session', async () => {
+      await expect(authService.getCurrentUser()).rejects.toBeInstanceOf(
+        UnauthorizedError
+      );
+      expect(http.requests).toHaveLength(0);
+    });
+
+    it.each([
+      [401, 'User no longer exists', UnauthorizedError],
+      [404, 'User not found', NotFoundError],
+    ])(
+      'ends a session the server rejects with %i',
+      async (status, message, errorClass) => {
+        await apiClient.setSession({ accessToken: 'access-1' });
+        http.fail('GET', '/auth/me', status, message);
+
+        await expect(authService.getCurrentUser()).rejects.toBeInstanceOf(
+          errorClass
+        );
+        expect(authService.isAuthenticated()).toBe(false);
+      }
+    );
+
+    it('keeps the session when the server is unavailable', async () => {
+      await apiClient.setSession({ accessToken: 'access-1' });
+      http.fail('GET', '/auth/me', 503, 'Unavailable');
+      jest.spyOn(Math, 'random').mockReturnValue(0);
+
+      await expect(authService.getCurrentUser()).rejects.toMatchObject({
+        status: 503,
+      });
+      expect(authService.isAuthenticated()).toBe(true);
+    });
+  });
+
+  describe('tokens', () => {
+    it('sets and clears the token', () => {
+      authService.setToken('manual-token');
+      expect(authService.isAuthenticated()).toBe(true);
+
+      authService.clearToken();
+      expect(authService.isAuthenticated()).toBe(false);
+    });
+
+    it('logout ends the session', async () => {
+      authService.setToken('manual-token');
+
+      await authService.logout();
+
+      expect(authService.isAuthenticated()).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,66 @@
+import NetInfo, { NetInfoState } from '@react-native-community/netinfo';
+import { onlineManager } from '@tanstack/react-query';
+
+import { connectivity, isConnected } from '../connectivity';
+
+jest.mock('@react-native-community/netinfo', () => ({
+  addEventListener: jest.fn(() => jest.fn()),
+}));
+
+const netState = (fields: Partial<NetInfoState>) =>
+  ({ isConnected: true, isInternetReachable: true, ...fields } as NetInfoState);
+
+describe('connectivity', () => {
+  let stop: () => void;
+  let emit: (state: NetInfoState) => void;
+
+  beforeEach(() => {
+    stop = connectivity.start();
+    emit = jest.mocked(NetInfo.addEventListener).mock.calls[0][0];
+  });
+
+  afterEach(() => {
+    stop();
+    jest.mocked(NetInfo.addEventListener).mockClear();
+  });
+
+  it('treats unknown reachability as online', () => {
+    expect(isConnected(netState({ isInternetReachable: null }))).toBe(true);
+    expect(isConnected(netState({ isInternetReachable: false }))).toBe(false);
+    expect(isConnected(netState({ isConnected: false }))).toBe(false);
+  });
+
+  it('feeds NetInfo changes into React Query', () => {
+    const listener = jest.fn();
+    const unsubscribe = connectivity.subscribe(listener);
+
+    emit(netState({ isConnected: false }));
+    expect(connectivity.isOnline()).toBe(false);
+    expect(onlineManager.isOnline()).toBe(false);
+
+    emit(netState({}));
+    expect(connectivity.isOnline()).toBe(true);
+    expect(listener.mock.calls).toEqual([[false], [true]]);
+    unsubscribe();
+  });
+
+  it('goes back online when stopped', () => {
+    emit(netState({ isConnected: false }));
+
+    stop();
+
+    expect(onlineManager.isOnline()).toBe(true);
+  });
+
+  it('stays online while told to, whatever the device reports', () => {
+    connectivity.setAlwaysOnline(true);
+    emit(netState({ isConnected: false }));
+    expect(connectivity.isOnline()).toBe(true);
+
+    connectivity.setAlwaysOnline(false);
+    expect(connectivity.isOnline()).toBe(false);
+
+    emit(netState({}));
+    expect(connectivity.isOnline()).toBe(true);
+  });
+});
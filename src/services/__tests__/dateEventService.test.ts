@@ -0,0 +1,338 @@
+import { onlineManager } from '@tanstack/react-query';
+
+import { normalizeDateEvent } from '../../types';
+import {
+  ApiError,
+  ConflictError,
+  DecodeError,
+  DuplicateRequestError,
+  MutationQueuedError,
+} from '../apiErrors';
+import { dateEventService } from '../dateEventService';
+import { mutationOutbox } from '../mutationOutbox';
+import { setupFakeHttp } from './fakeHttp';
+
+const event = {
+  id: 'e1',
+  hostUserId: 'u1',
+  barId: 'v1',
+  eventDate: '2026-10-24',
+  eventTime: '20:00',
+  eventDateTime: '2026-10-24T20:00:00Z',
+  isOpen: true,
+  status: 'open',
+  createdAt: '2026-10-19T09:00:00Z',
+  updatedAt: '2026-10-19T09:00:00Z',
+};
+
+const request = {
+  id: 'r1',
+  requesterUserId: 'u2',
+  dateEventId: 'e1',
+  status: 'pending',
+  requestedAt: '2026-10-19T10:00:00Z',
+};
+
+describe('normalizeDateEvent', () => {
+  it('accepts PascalCase fields from older backends', () => {
+    const normalized = normalizeDateEvent({
+      id: 'e1',
+      HostUserId: 'u1',
+      EventDate: '2026-10-24',
+      EventTime: '20:00',
+      IsOpen: false,
+      Status: 'accepted',
+      createdAt: '2026-10-19T09:00:00Z',
+    });
+
+    expect(normalized).toMatchObject({
+      hostUserId: 'u1',
+      eventDate: '2026-10-24',
+      eventTime: '20:00',
+      isOpen: false,
+      status: 'accepted',
+      updatedAt: '2026-10-19T09:00:00Z',
+    });
+  });
+
+  it('maps a legacy bar to the venue and its coordinates', () => {
+    const bar = { id: 'v9', name: 'The Crown', lat: 51.5, lng: -0.1 };
+
+    expect(normalizeDateEvent({ id: 'e1', bar })).toMatchObject({
+      status: 'open',
+      barId: 'v9',
+      venue: bar,
+      lat: 51.5,
+      lng: -0.1,
+    });
+  });
+});
+
+describe('dateEventService', () => {
+  const http = setupFakeHttp();
+
+  describe('getDateEvents', () => {
+    it('normalizes and decodes the list', async () => {
+      http.reply('GET', '/date-events', [{ ...event, status: undefined }]);
+
+      const [first] = await dateEventService.getDateEvents();
+
+      expect(first.id).toBe('e1');
+      expect(first.status).toBe('open');
+    });
+
+    it('fails with a DecodeError for an unknown status', async () => {
+      http.reply('GET', '/date-events', [{ ...event, status: 'maybe' }]);
+
+      await expect(dateEventService.getDateEvents()).rejects.toBeInstanceOf(
+        DecodeError
+      );
+    });
+  });
+
+  describe('getDateEventsInArea', () => {
+    it('sends the search area and filters', async () => {
+      http.reply('GET', '/date-events/in-area', [event]);
+
+      await dateEventService.getDateEventsInArea({
+        lat: 53.48,
+        lng: -2.24,
+        radius: 5000,
+        requestingUserId: 'u2',
+        minAge: 21,
+        maxAge: 30,
+        excludeRequested: true,
+      });
+
+      const { query } = http.lastRequest;
+      expect(query.get('lat')).toBe('53.48');
+      expect(query.get('lng')).toBe('-2.24');
+      expect(query.get('radius')).toBe('5000');
+      expect(query.get('requestingUserId')).toBe('u2');
+      expect(query.get('minAge')).toBe('21');
+      expect(query.get('maxAge')).toBe('30');
+      expect(query.get('excludeRequested')).toBe('true');
+    });
+
+    it('requires the requesting user', async () => {
+      const error = await dateEventService
+        .getDateEventsInArea({
+          lat: 53.48,
+          lng: -2.24,
+          radius: 5000,
+          requestingUserId: ' ',
+        })
+        .catch(e => e);
+
+      expect(error).toBeInstanceOf(ApiError);
+      expect(error.status).toBe(400);
+      expect(http.requests).toHaveLength(0);
+    });
+  });
+
+  describe('createDateEvent', () => {
+    const newEvent = {
+      hostUserId: 'u1',
+      barId: 'v1',
+      eventDate: '2026-10-24',
+      eventTime: '20:00',
+    };
+
+    afterEach(async () => {
+      onlineManager.setOnline(true);
+      await mutationOutbox.clear();
+    });
+
+    it('POSTs the event with an idempotency key', async () => {
+      http.reply('POST', '/date-events', event, 201);
+
+      const created = await dateEventService.createDateEvent(newEvent);
+
+      expect(created.id).toBe('e1');
+      expect(http.lastRequest.body).toEqual(newEvent);
+      expect(http.lastRequest.headers['Idempotency-Key']).toEqual(
+        expect.any(String)
+      );
+    });
+
+    it('queues the event while offline', async () => {
+      onlineManager.setOnline(false);
+
+      const error = await dateEventService
+        .createDateEvent(newEvent)
+        .catch(e => e);
+
+      expect(error).toBeInstanceOf(MutationQueuedError);
+      expect(http.requests).toHaveLength(0);
+      const [item] = await mutationOutbox.getItems();
+      expect(item).toMatchObject({
+        id: error.outboxItemId,
+        type: 'create-date-event',
+        payload: newEvent,
+      });
+    });
+  });
+
+  describe('requestToJoinDateEvent', () => {
+    const join = { dateEventId: 'e1', requesterId: 'u2' };
+
+    it('POSTs the join request', async () => {
+      http.reply('POST', '/date-events/request', request, 201);
+
+      await expect(
+        dateEventService.requestToJoinDateEvent(join)
+      ).resolves.toEqual(request);
+      expect(http.lastRequest.body).toEqual(join);
+    });
+
+    it('reports a request the server replayed as a duplicate', async () => {
+      http.on('POST', '/date-events/request', {
+        status: 409,
+        body: { success: false, message: 'Duplicate request' },
+        headers: { 'Idempotent-Replayed': 'true' },
+      });
+
+      await expect(
+        dateEventService.requestToJoinDateEvent(join)
+      ).rejects.toBeInstanceOf(DuplicateRequestError);
+    });
+
+    it('reports any other 409 as a conflict', async () => {
+      http.fail('POST', '/date-events/request', 409, 'Event already taken');
+
+      const error = await dateEventService
+        .requestToJoinDateEvent(join)
+        .catch(e => e);
+
+      expect(error).toBeInstanceOf(ConflictError);
+      expect(error).not.toBeInstanceOf(DuplicateRequestError);
+    });
+
+    it('reports a 409 to a retried key as a duplicate', async () => {
+      http.fail('POST', '/date-events/request', 503, 'Unavailable');
+      jest.spyOn(Math, 'random').mockReturnValue(0);
+      await expect(
+        dateEventService.requestToJoinDateEvent(join, {
+          queueWhenOffline: false,
+        })
+      ).rejects.toMatchObject({ status: 503 });
+      http.fail('POST', '/date-events/request', 409, 'Duplicate request');
+
+      await expect(
+        dateEventService.requestToJoinDateEvent(join)
+      ).rejects.toBeInstanceOf(DuplicateRequestError);
+    });
+
+    it('reuses the idempotency key while the outcome is unknown', async () => {
+      http.reply('POST', '/date-events/request', request, 201);
+      http.on(
+        'POST',
+        '/date-events/request',
+        { status: 503, body: { success: false, message: 'Unavailable' } },
+        1
+      );
+      jest.spyOn(Math, 'random').mockReturnValue(0);
+
+      await dateEventService.requestToJoinDateEvent(join, {
+        queueWhenOffline: false,
+      });
+
+      const [first, second] = http.requests;
+      expect(second.headers['Idempotency-Key']).toBe(
+        first.headers['Idempotency-Key']
+      );
+    });
+  });
+
+  describe('respondToDateRequest', () => {
+    it('POSTs the answer to the request', async () => {
+      http.reply('POST', '/date-events/request/r1/respond', {
+        ...request,
+        status: 'accepted',
+      });
+
+      const updated = await dateEventService.respondToDateRequest('r1', {
+        accept: true,
+      });
+
+      expect(updated.status).toBe('accepted');
+      expect(http.lastRequest.body).toEqual({ accept: true });
+    });
+
+    it('requires a request id', async () => {
+      await expect(
+        dateEventService.respondToDateRequest('', { accept: false })
+      ).rejects.toMatchObject({ status: 400 });
+      expect(http.requests).toHaveLength(0);
+    });
+  });
+
+  describe('incoming and outgoing requests', () => {
+    beforeEach(() => {
+      http.reply('GET', '/date-events', [
+        { ...event, requests: [request] },
+        {
+          ...event,
+          id: 'e2',
+          hostUserId: 'u2',
+          requests: [
+            { ...request, id: 'r2', requesterUserId: 'u1', dateEventId: 'e2' },
+          ],
+        },
+      ]);
+    });
+
+    it('collects requests for events the user hosts', async () => {
+      const incoming = await dateEventService.getIncomingDateRequests('u1');
+
+      expect(incoming.map(r => r.id)).toEqual(['r1']);
+      expect(incoming[0].dateEvent?.id).toBe('e1');
+    });
+
+    it('collects requests the user made', async () => {
+      const outgoing = await dateEventService.getOutgoingDateRequests('u1');
+
+      expect(outgoing.map(r => r.id)).toEqual(['r2']);
+      expect(outgoing[0].dateEvent?.id).toBe('e2');
+    });
+  });
+
+  describe('per-user and per-event lookups', () => {
+    it.each([
+      ['getUserEvents', '/date-events/user/u1/events'],
+      ['getUserActiveEvents', '/date-events/user/u1/active'],
+    ] as const)('%s reads %s', async (method, path) => {
+      http.reply('GET', path, [event]);
+
+      await expect(dateEventService[method]('u1')).resolves.toHaveLength(1);
+      expect(http.lastRequest.path).toBe(path);
+    });
+
+    it('getDateEvent reads a single event', async () => {
+      http.reply('GET', '/date-events/e1', event);
+
+      await expect(dateEventService.getDateEvent('e1')).resolves.toMatchObject({
+        id: 'e1',
+      });
+    });
+
+    it('getDateEventWithAttendees decodes the attendees', async () => {
+      http.reply('GET', '/date-events/e1/attendees', {
+        ...event,
+        attendees: [{ id: 'u2', username: 'sam', email: 'sam@example.com' }],
+      });
+
+      const result = await dateEventService.getDateEventWithAttendees('e1');
+
+      expect(result.attendees.map(a => a.id)).toEqual(['u2']);
+    });
+
+    it('getAvailableRequests reads the user’s open requests', async () => {
+      http.reply('GET', '/date-events/available/u1', [request]);
+
+      await expect(
+        dateEventService.getAvailableRequests('u1')
+      ).resolves.toEqual([request]);
+    });
+  });
+});
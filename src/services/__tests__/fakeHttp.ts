@@ -0,0 +1,168 @@
+import { apiClient } from '../apiClient';
+import { HttpMethod, Interceptor, RequestContext } from '../interceptors';
+import { referenceCache } from '../referenceCache';
+
+// A request as it would have gone over the wire
+export interface RecordedRequest {
+  method: HttpMethod;
+  endpoint: string;
+  // Endpoint without its query string
+  path: string;
+  query: URLSearchParams;
+  headers: Record<string, string>;
+  body: any;
+}
+
+export interface FakeReply {
+  status?: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+type ReplyFactory = (request: RecordedRequest) => FakeReply;
+
+interface Registration {
+  method: HttpMethod;
+  path: string;
+  reply: ReplyFactory;
+  times?: number;
+}
+
+// The backend's success envelope
+export const envelope = (data: unknown, message = 'OK') => ({
+  data,
+  success: true,
+  message,
+});
+
+// Fake HTTP layer for service tests. Installed as an ApiClient interceptor,
+// it records every request and answers it from registered replies instead
+// of the network. Unmatched requests get a 404 naming the request.
+export class FakeHttp {
+  readonly requests: RecordedRequest[] = [];
+  private registrations: Registration[] = [];
+  private uninstall: (() => void) | null = null;
+
+  private interceptor: Interceptor = {
+    name: 'fakeHttp',
+    onRequest: request => this.respond(request),
+  };
+
+  install(): void {
+    this.uninstall = apiClient.use(this.interceptor);
+  }
+
+  restore(): void {
+    this.uninstall?.();
+    this.uninstall = null;
+    this.requests.length = 0;
+    this.registrations = [];
+  }
+
+  // Answers requests to method + path (query string ignored). Later
+  // registrations win; `times` limits how often a reply is used.
+  on(
+    method: HttpMethod,
+    path: string,
+    reply: FakeReply | ReplyFactory,
+    times?: number
+  ): this {
+    this.registrations.unshift({
+      method,
+      path,
+      reply: typeof reply === 'function' ? reply : () => reply,
+      times,
+    });
+    return this;
+  }
+
+  // Answers with a success envelope around `data`
+  reply(method: HttpMethod, path: string, data: unknown, status = 200): this {
+    return this.on(method, path, { status, body: envelope(data) });
+  }
+
+  // Answers with the backend's error body
+  fail(
+    method: HttpMethod,
+    path: string,
+    status: number,
+    message: string,
+    extra: Record<string, unknown> = {}
+  ): this {
+    return this.on(method, path, {
+      status,
+      body: { success: false, message, ...extra },
+    });
+  }
+
+  get lastRequest(): RecordedRequest {
+    const request = this.requests[this.requests.length - 1];
+    if (!request) {
+      throw new Error('No request was sent');
+    }
+    return request;
+  }
+
+  private respond(context: RequestContext): Response {
+    const [path, queryString = ''] = context.endpoint.split('?');
+    const request: RecordedRequest = {
+      method: context.method,
+      endpoint: context.endpoint,
+      path,
+      query: new URLSearchParams(queryString),
+      headers: { ...context.headers },
+      body:
+        context.body === undefined
+          ? undefined
+          : JSON.parse(JSON.stringify(context.body)),
+    };
+    this.requests.push(request);
+
+    const registration = this.registrations.find(
+      candidate =>
+        candidate.method === request.method && candidate.path === path
+    );
+    if (!registration) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          message: `No fake response for ${request.method} ${path}`,
+        }),
+        { status: 404 }
+      );
+    }
+    if (registration.times !== undefined && --registration.times <= 0) {
+      this.registrations = this.registrations.filter(
+        candidate => candidate !== registration
+      );
+    }
+
+    const reply = registration.reply(request);
+    return new Response(
+      reply.body === undefined ? null : JSON.stringify(reply.body),
+      {
+        status: reply.status ?? 200,
+        headers: { 'Content-Type': 'application/json', ...reply.headers },
+      }
+    );
+  }
+}
+
+// Installs a fresh FakeHttp around every test in the calling file and
+// resets the client state shared between tests
+export const setupFakeHttp = (): FakeHttp => {
+  const http = new FakeHttp();
+
+  beforeEach(() => {
+    http.install();
+  });
+
+  afterEach(async () => {
+    http.restore();
+    await apiClient.clearSession();
+    apiClient.clearHttpCache();
+    await referenceCache.clear();
+  });
+
+  return http;
+};
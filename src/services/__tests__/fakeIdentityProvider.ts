@@ -0,0 +1,207 @@
+import { createHash, generateKeyPairSync, KeyObject, sign } from 'crypto';
+
+import type { IdentityProviderConfig } from '../identityProviders';
+import type { IdTokenClaims } from '../idTokenVerifier';
+
+const base64Url = (value: Buffer | string) =>
+  Buffer.from(value).toString('base64url');
+
+interface SigningKey {
+  kid: string;
+  privateKey: KeyObject;
+  jwk: Record<string, unknown>;
+}
+
+interface SignOptions {
+  kid?: string;
+  alg?: string;
+  // Sign with a key the provider never published
+  key?: KeyObject;
+}
+
+interface Authorization {
+  codeChallenge: string;
+  claims: Partial<IdTokenClaims>;
+}
+
+export const FAKE_CLIENT_ID = 'tonight-test.apps.example.com';
+
+// A local stand-in for an OpenID Connect provider. It serves a discovery
+// document, publishes RSA signing keys at its JWKS URI, hands out
+// authorization codes bound to a PKCE challenge and answers the token
+// endpoint with ID tokens signed by its current key. Installed over global
+// fetch; several can be installed at once, and other URLs get a 404.
+export class FakeIdentityProvider {
+  jwksRequests = 0;
+  discoveryRequests = 0;
+  private keys: SigningKey[] = [];
+  private authorizations = new Map<string, Authorization>();
+  private nextCode = 1;
+
+  constructor(readonly issuer = 'https://idp.example.com') {
+    this.rotateKey();
+  }
+
+  get discoveryUrl(): string {
+    return `${this.issuer}/.well-known/openid-configuration`;
+  }
+
+  get jwksUri(): string {
+    return `${this.issuer}/jwks`;
+  }
+
+  get tokenEndpoint(): string {
+    return `${this.issuer}/token`;
+  }
+
+  // Registry entry for this provider; overrides win
+  config(
+    overrides: Partial<IdentityProviderConfig> = {}
+  ): IdentityProviderConfig {
+    return {
+      id: 'fake',
+      label: 'Fake',
+      discoveryUrl: this.discoveryUrl,
+      clientId: FAKE_CLIENT_ID,
+      scopes: ['openid', 'profile', 'email'],
+      ...overrides,
+    };
+  }
+
+  install(): void {
+    const spy = jest.spyOn(global, 'fetch');
+    const previous = spy.getMockImplementation();
+    spy.mockImplementation(
+      async (input, init) =>
+        this.respond(String(input), init) ??
+        previous?.(input, init) ??
+        json({ error: 'not_found' }, 404)
+    );
+  }
+
+  // Publishes a new key and signs with it from now on. JWK fields such as
+  // alg and use can be overridden.
+  rotateKey(jwk: Record<string, unknown> = {}): string {
+    const kid = `key-${this.keys.length + 1}`;
+    const { publicKey, privateKey } = generateKeyPairSync('rsa', {
+      modulusLength: 2048,
+    });
+    this.keys.push({
+      kid,
+      privateKey,
+      jwk: {
+        ...publicKey.export({ format: 'jwk' }),
+        kid,
+        alg: 'RS256',
+        ...jwk,
+      },
+    });
+    return kid;
+  }
+
+  // Claims of a valid token for FAKE_CLIENT_ID; overrides win
+  claims(overrides: Partial<IdTokenClaims> = {}): IdTokenClaims {
+    const now = Math.floor(Date.now() / 1000);
+    return {
+      iss: this.issuer,
+      sub: 'user-1',
+      aud: FAKE_CLIENT_ID,
+      iat: now,
+      exp: now + 3600,
+      nonce: 'nonce-1',
+      email: 'alex@example.com',
+      email_verified: true,
+      name: 'Alex',
+      ...overrides,
+    };
+  }
+
+  signIdToken(claims: object, options: SignOptions = {}): string {
+    const current = this.keys[this.keys.length - 1];
+    const header = base64Url(
+      JSON.stringify({
+        alg: options.alg ?? 'RS256',
+        kid: options.kid ?? current.kid,
+        typ: 'JWT',
+      })
+    );
+    const payload = base64Url(JSON.stringify(claims));
+    const signature = sign(
+      'RSA-SHA256',
+      Buffer.from(`${header}.${payload}`),
+      options.key ?? current.privateKey
+    );
+    return `${header}.${payload}.${base64Url(signature)}`;
+  }
+
+  // What the user's browser would get back from the consent screen
+  authorize(codeVerifier: string, claims: Partial<IdTokenClaims> = {}): string {
+    const code = `code-${this.nextCode++}`;
+    this.authorizations.set(code, {
+      codeChallenge: base64Url(
+        createHash('sha256').update(codeVerifier).digest()
+      ),
+      claims,
+    });
+    return code;
+  }
+
+  private respond(url: string, init?: RequestInit): Response | undefined {
+    if (url === this.discoveryUrl) {
+      this.discoveryRequests++;
+      return json({
+        issuer: this.issuer,
+        authorization_endpoint: `${this.issuer}/authorize`,
+        token_endpoint: this.tokenEndpoint,
+        jwks_uri: this.jwksUri,
+      });
+    }
+    if (url === this.jwksUri) {
+      this.jwksRequests++;
+      return json({ keys: this.keys.map(key => key.jwk) }, 200, {
+        'Cache-Control': 'public, max-age=3600',
+      });
+    }
+    if (url === this.tokenEndpoint && init?.method === 'POST') {
+      return this.token(new URLSearchParams(String(init.body)));
+    }
+    return undefined;
+  }
+
+  private token(params: URLSearchParams): Response {
+    const code = params.get('code') ?? '';
+    const authorization = this.authorizations.get(code);
+    // Codes are single use
+    this.authorizations.delete(code);
+    if (!authorization || params.get('grant_type') !== 'authorization_code') {
+      return json({ error: 'invalid_grant' }, 400);
+    }
+    const challenge = base64Url(
+      createHash('sha256')
+        .update(params.get('code_verifier') ?? '')
+        .digest()
+    );
+    if (challenge !== authorization.codeChallenge) {
+      return json(
+        { error: 'invalid_grant', error_description: 'Invalid code verifier.' },
+        400
+      );
+    }
+    return json({
+      access_token: 'provider-access-token',
+      id_token: this.signIdToken(
+        this.claims({ aud: params.get('client_id')!, ...authorization.claims })
+      ),
+    });
+  }
+}
+
+const json = (
+  body: unknown,
+  status = 200,
+  headers: Record<string, string> = {}
+): Response =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
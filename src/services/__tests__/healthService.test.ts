@@ -0,0 +1,77 @@
+import { apiClient } from '../apiClient';
+import { NetworkError } from '../apiErrors';
+import { healthService } from '../healthService';
+import { setupFakeHttp } from './fakeHttp';
+
+const healthy = {
+  status: 'ok',
+  timestamp: '2026-10-19T12:00:00Z',
+  environment: 'staging',
+  services: { database: 'connected' },
+};
+
+describe('healthService', () => {
+  const http = setupFakeHttp();
+
+  it('reports a healthy backend', async () => {
+    http.on('GET', '/health', { body: healthy });
+
+    const result = await healthService.check();
+
+    expect(result.state).toBe('ok');
+    expect(result.health).toEqual(healthy);
+  });
+
+  it('treats a database outage as maintenance', async () => {
+    http.on('GET', '/health', {
+      body: { ...healthy, services: { database: 'down' } },
+    });
+
+    await expect(healthService.check()).resolves.toMatchObject({
+      state: 'maintenance',
+    });
+  });
+
+  it('treats a 503 as maintenance without retrying', async () => {
+    http.on('GET', '/health', {
+      status: 503,
+      body: { success: false, message: 'Down for maintenance' },
+    });
+
+    const result = await healthService.check();
+
+    expect(result.state).toBe('maintenance');
+    expect(result.error?.status).toBe(503);
+    expect(http.requests).toHaveLength(1);
+  });
+
+  it('reports an unreachable backend as offline', async () => {
+    http.on('GET', '/health', () => {
+      throw new NetworkError(['Network request failed']);
+    });
+
+    await expect(healthService.check()).resolves.toMatchObject({
+      state: 'offline',
+    });
+  });
+
+  it('lets the app start against a backend without /health', async () => {
+    http.fail('GET', '/health', 404, 'Not found');
+
+    await expect(healthService.check()).resolves.toMatchObject({
+      state: 'ok',
+    });
+  });
+
+  it('is sent without a token, even when the session has expired', async () => {
+    const expired = `header.${btoa(JSON.stringify({ exp: 1 }))}.signature`;
+    await apiClient.setSession({ accessToken: expired, refreshToken: 'r1' });
+    http.on('GET', '/health', { body: healthy });
+
+    await expect(healthService.check()).resolves.toMatchObject({
+      state: 'ok',
+    });
+    expect(http.requests.map(request => request.endpoint)).toEqual(['/health']);
+    expect(http.lastRequest.headers.Authorization).toBeUndefined();
+  });
+});
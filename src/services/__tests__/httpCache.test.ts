@@ -0,0 +1,109 @@
+import { apiClient } from '../apiClient';
+import { HttpCache } from '../httpCache';
+
+const entry = (body: string, isPrivate = false) => ({
+  etag: `"${body}"`,
+  body,
+  contentType: 'application/json',
+  private: isPrivate,
+});
+
+describe('HttpCache', () => {
+  it('evicts the least recently used entry first', () => {
+    const cache = new HttpCache({ maxEntries: 2 });
+    cache.set('/a', entry('a'));
+    cache.set('/b', entry('b'));
+    cache.get('/a');
+
+    cache.set('/c', entry('c'));
+
+    expect(cache.get('/a')).toBeDefined();
+    expect(cache.get('/b')).toBeUndefined();
+    expect(cache.get('/c')).toBeDefined();
+  });
+
+  it('stays within its byte budget and skips oversized bodies', () => {
+    const cache = new HttpCache({ maxBytes: 10 });
+    cache.set('/a', entry('aaaaaa'));
+    cache.set('/b', entry('bbbbbb'));
+    cache.set('/huge', entry('x'.repeat(11)));
+
+    expect(cache.get('/a')).toBeUndefined();
+    expect(cache.get('/b')).toBeDefined();
+    expect(cache.get('/huge')).toBeUndefined();
+  });
+
+  it('drops only private entries on sign-out', () => {
+    const cache = new HttpCache();
+    cache.set('/venues', entry('venues'));
+    cache.set('/users/me', entry('me', true));
+
+    cache.evictPrivate();
+
+    expect(cache.get('/venues')).toBeDefined();
+    expect(cache.get('/users/me')).toBeUndefined();
+  });
+});
+
+describe('apiClient conditional GETs', () => {
+  const body = JSON.stringify({ name: 'Alex' });
+
+  beforeEach(() => {
+    jest.spyOn(global, 'fetch').mockResolvedValueOnce(
+      new Response(body, {
+        headers: { 'Content-Type': 'application/json', ETag: '"v1"' },
+      })
+    );
+  });
+
+  afterEach(async () => {
+    await apiClient.clearSession();
+    apiClient.clearHttpCache();
+  });
+
+  const lastHeaders = () =>
+    jest.mocked(fetch).mock.lastCall?.[1]?.headers as Record<string, string>;
+
+  it('revalidates with the ETag and serves the cached body on a 304', async () => {
+    await apiClient.get('/users/me');
+    jest
+      .mocked(fetch)
+      .mockResolvedValueOnce(new Response(null, { status: 304 }));
+
+    await expect(apiClient.get('/users/me')).resolves.toEqual({
+      name: 'Alex',
+    });
+    expect(lastHeaders()['If-None-Match']).toBe('"v1"');
+  });
+
+  it('replaces the cached body when the resource changed', async () => {
+    await apiClient.get('/users/me');
+    jest.mocked(fetch).mockResolvedValueOnce(
+      new Response(JSON.stringify({ name: 'Sam' }), {
+        headers: { ETag: '"v2"' },
+      })
+    );
+    await expect(apiClient.get('/users/me')).resolves.toEqual({
+      name: 'Sam',
+    });
+
+    jest
+      .mocked(fetch)
+      .mockResolvedValueOnce(new Response(null, { status: 304 }));
+    await expect(apiClient.get('/users/me')).resolves.toEqual({
+      name: 'Sam',
+    });
+    expect(lastHeaders()['If-None-Match']).toBe('"v2"');
+  });
+
+  it('forgets responses fetched with the session once it ends', async () => {
+    await apiClient.setSession({ accessToken: 'access-1' });
+    await apiClient.get('/users/me');
+    await apiClient.clearSession();
+    jest.mocked(fetch).mockResolvedValueOnce(new Response(body));
+
+    await apiClient.get('/users/me');
+
+    expect(lastHeaders()['If-None-Match']).toBeUndefined();
+  });
+});
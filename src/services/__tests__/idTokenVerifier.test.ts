@@ -0,0 +1,188 @@
+import { generateKeyPairSync } from 'crypto';
+
+import { IdTokenError, IdTokenFailure } from '../apiErrors';
+import { jwksCache, verifyIdToken } from '../idTokenVerifier';
+import { FAKE_CLIENT_ID, FakeIdentityProvider } from './fakeIdentityProvider';
+
+const ISSUER = 'https://idp.example.com';
+
+const expected = {
+  // Some providers (Google) sign under more than one spelling
+  issuers: [ISSUER, 'idp.example.com'],
+  audience: FAKE_CLIENT_ID,
+  nonce: 'nonce-1',
+  jwksUri: `${ISSUER}/jwks`,
+};
+
+describe('verifyIdToken', () => {
+  let idp: FakeIdentityProvider;
+
+  beforeEach(() => {
+    idp = new FakeIdentityProvider(ISSUER);
+    idp.install();
+  });
+
+  afterEach(() => {
+    jwksCache.clear();
+    jest.useRealTimers();
+  });
+
+  const rejection = async (token: string): Promise<IdTokenError> => {
+    const error = await verifyIdToken(token, expected).catch(e => e);
+    expect(error).toBeInstanceOf(IdTokenError);
+    return error;
+  };
+
+  it('returns the claims of a valid token', async () => {
+    const claims = idp.claims();
+
+    await expect(
+      verifyIdToken(idp.signIdToken(claims), expected)
+    ).resolves.toEqual(claims);
+  });
+
+  it('accepts any of the expected issuers', async () => {
+    const token = idp.signIdToken(idp.claims({ iss: 'idp.example.com' }));
+
+    await expect(verifyIdToken(token, expected)).resolves.toBeDefined();
+  });
+
+  it.each<[string, () => string, IdTokenFailure]>([
+    ['is not a JWT', () => 'not-a-jwt', 'malformed'],
+    [
+      'uses another algorithm',
+      () => idp.signIdToken(idp.claims(), { alg: 'HS256' }),
+      'unsupported-algorithm',
+    ],
+    [
+      'names an unpublished key',
+      () => idp.signIdToken(idp.claims(), { kid: 'missing' }),
+      'unknown-key',
+    ],
+    [
+      'is signed with another key',
+      () =>
+        idp.signIdToken(idp.claims(), {
+          key: generateKeyPairSync('rsa', { modulusLength: 2048 }).privateKey,
+        }),
+      'signature',
+    ],
+    [
+      'was altered after signing',
+      () => {
+        const [header, , signature] = idp.signIdToken(idp.claims()).split('.');
+        const payload = Buffer.from(
+          JSON.stringify(idp.claims({ email: 'mallory@example.com' }))
+        ).toString('base64url');
+        return `${header}.${payload}.${signature}`;
+      },
+      'signature',
+    ],
+    [
+      'comes from another issuer',
+      () => idp.signIdToken(idp.claims({ iss: 'https://evil.example.com' })),
+      'issuer',
+    ],
+    [
+      'was issued to another app',
+      () => idp.signIdToken(idp.claims({ aud: 'other-app' })),
+      'audience',
+    ],
+    [
+      'has several audiences and is not authorized for us',
+      () =>
+        idp.signIdToken(
+          idp.claims({ aud: [FAKE_CLIENT_ID, 'other-app'], azp: 'other-app' })
+        ),
+      'audience',
+    ],
+    [
+      'has expired',
+      () =>
+        idp.signIdToken(
+          idp.claims({ exp: Math.floor(Date.now() / 1000) - 120 })
+        ),
+      'expired',
+    ],
+    [
+      'was requested with another nonce',
+      () => idp.signIdToken(idp.claims({ nonce: 'replayed' })),
+      'nonce',
+    ],
+    [
+      'has no nonce',
+      () => idp.signIdToken(idp.claims({ nonce: undefined })),
+      'nonce',
+    ],
+  ])('rejects a token that %s', async (_, token, reason) => {
+    expect((await rejection(token())).reason).toBe(reason);
+  });
+
+  it.each([
+    ['not an RSA key', { kty: 'EC' }],
+    ['meant for another algorithm', { alg: 'RS512' }],
+    ['meant for encryption', { use: 'enc' }],
+  ])('rejects a signature made with a key %s', async (_, jwk) => {
+    idp.rotateKey(jwk);
+
+    expect((await rejection(idp.signIdToken(idp.claims()))).reason).toBe(
+      'unsuitable-key'
+    );
+  });
+
+  it('accepts a key that does not say what it is for', async () => {
+    idp.rotateKey({ alg: undefined, use: undefined });
+
+    await expect(
+      verifyIdToken(idp.signIdToken(idp.claims()), expected)
+    ).resolves.toBeDefined();
+  });
+
+  it('tolerates a little clock skew', async () => {
+    const token = idp.signIdToken(
+      idp.claims({ exp: Math.floor(Date.now() / 1000) - 30 })
+    );
+
+    await expect(verifyIdToken(token, expected)).resolves.toBeDefined();
+  });
+
+  describe('JWKS cache', () => {
+    it('fetches the keys once', async () => {
+      await verifyIdToken(idp.signIdToken(idp.claims()), expected);
+      await verifyIdToken(idp.signIdToken(idp.claims()), expected);
+
+      expect(idp.jwksRequests).toBe(1);
+    });
+
+    it('refetches when the keys expire', async () => {
+      jest.useFakeTimers({ now: Date.now(), doNotFake: ['nextTick'] });
+      await verifyIdToken(idp.signIdToken(idp.claims()), expected);
+
+      // The fake provider sends max-age=3600
+      jest.advanceTimersByTime(3601 * 1000);
+      await verifyIdToken(idp.signIdToken(idp.claims()), expected);
+
+      expect(idp.jwksRequests).toBe(2);
+    });
+
+    it('picks up a rotated key', async () => {
+      jest.useFakeTimers({ now: Date.now(), doNotFake: ['nextTick'] });
+      await verifyIdToken(idp.signIdToken(idp.claims()), expected);
+      idp.rotateKey();
+      jest.advanceTimersByTime(61 * 1000);
+
+      await verifyIdToken(idp.signIdToken(idp.claims()), expected);
+
+      expect(idp.jwksRequests).toBe(2);
+    });
+
+    it('does not refetch for every unknown key', async () => {
+      await verifyIdToken(idp.signIdToken(idp.claims()), expected);
+
+      await rejection(idp.signIdToken(idp.claims(), { kid: 'missing' }));
+      await rejection(idp.signIdToken(idp.claims(), { kid: 'missing' }));
+
+      expect(idp.jwksRequests).toBe(1);
+    });
+  });
+});
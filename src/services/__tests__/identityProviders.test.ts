@@ -0,0 +1,77 @@
+import { DecodeError, ServerError } from '../apiErrors';
+import { identityProviders } from '../identityProviders';
+import { FakeIdentityProvider } from './fakeIdentityProvider';
+
+describe('identityProviders', () => {
+  let idp: FakeIdentityProvider;
+
+  beforeEach(() => {
+    idp = new FakeIdentityProvider();
+    idp.install();
+    identityProviders.configure([idp.config()]);
+  });
+
+  afterEach(() => {
+    identityProviders.configure([]);
+  });
+
+  it('lists providers in the configured order', () => {
+    identityProviders.configure([
+      idp.config({ id: 'google', label: 'Google' }),
+      idp.config({ id: 'apple', label: 'Apple' }),
+    ]);
+
+    expect(identityProviders.list().map(provider => provider.id)).toEqual([
+      'google',
+      'apple',
+    ]);
+  });
+
+  it('ignores providers whose id would clash with other auth endpoints', () => {
+    identityProviders.configure([
+      idp.config({ id: 'login' }),
+      idp.config({ id: 'Bad Id' }),
+      idp.config({ id: 'fake' }),
+      idp.config({ id: 'fake', label: 'Duplicate' }),
+    ]);
+
+    expect(identityProviders.list()).toEqual([idp.config()]);
+  });
+
+  it('reads the endpoints from the discovery document once', async () => {
+    const [first] = await Promise.all([
+      identityProviders.discover('fake'),
+      identityProviders.discover('fake'),
+    ]);
+    await identityProviders.discover('fake');
+
+    expect(first).toEqual({
+      issuer: idp.issuer,
+      authorizationEndpoint: `${idp.issuer}/authorize`,
+      tokenEndpoint: idp.tokenEndpoint,
+      jwksUri: idp.jwksUri,
+    });
+    expect(idp.discoveryRequests).toBe(1);
+  });
+
+  it('tries again after a failed discovery', async () => {
+    jest.mocked(fetch).mockResolvedValueOnce(new Response('', { status: 503 }));
+
+    await expect(identityProviders.discover('fake')).rejects.toBeInstanceOf(
+      ServerError
+    );
+    await expect(identityProviders.discover('fake')).resolves.toBeDefined();
+  });
+
+  it('rejects a discovery document without the endpoints', async () => {
+    jest
+      .mocked(fetch)
+      .mockResolvedValueOnce(
+        new Response(JSON.stringify({ issuer: idp.issuer }))
+      );
+
+    await expect(identityProviders.discover('fake')).rejects.toBeInstanceOf(
+      DecodeError
+    );
+  });
+});
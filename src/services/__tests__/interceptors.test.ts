@@ -0,0 +1,128 @@
+import { apiClient } from '../apiClient';
+import { ApiError, NotFoundError } from '../apiErrors';
+import { Interceptor, parseRetryAfter } from '../interceptors';
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+describe('apiClient interceptors', () => {
+  const uninstallers: (() => void)[] = [];
+  const use = (interceptor: Interceptor) => {
+    uninstallers.push(apiClient.use(interceptor));
+  };
+
+  beforeEach(async () => {
+    await apiClient.setSession({ accessToken: 'access-1' });
+    jest.spyOn(global, 'fetch').mockResolvedValue(json({ ok: true }));
+  });
+
+  afterEach(async () => {
+    uninstallers.splice(0).forEach(uninstall => uninstall());
+    await apiClient.clearSession();
+    apiClient.clearHttpCache();
+  });
+
+  it('runs added hooks after the built-in ones, in registration order', async () => {
+    const calls: string[] = [];
+    use({
+      name: 'first',
+      onRequest: request => {
+        calls.push(`first:${request.headers.Authorization}`);
+        request.headers['X-Trace'] = 'trace-1';
+      },
+      onResponse: context => {
+        calls.push(`first-response:${JSON.stringify(context.data)}`);
+      },
+    });
+    use({
+      name: 'second',
+      onRequest: request => {
+        calls.push(`second:${request.headers['X-Trace']}`);
+      },
+      onResponse: () => {
+        calls.push('second-response');
+      },
+    });
+
+    await apiClient.get('/dates', { retry: false });
+
+    expect(calls).toEqual([
+      'first:Bearer access-1',
+      'second:trace-1',
+      'first-response:{"ok":true}',
+      'second-response',
+    ]);
+    const [, init] = jest.mocked(fetch).mock.calls[0];
+    expect(init?.headers).toMatchObject({
+      'Content-Type': 'application/json',
+      'X-Trace': 'trace-1',
+    });
+  });
+
+  it('lets a request hook answer without touching the network', async () => {
+    const later = jest.fn();
+    use({ name: 'answer', onRequest: () => json({ answered: true }) });
+    use({ name: 'later', onRequest: later });
+
+    await expect(apiClient.get('/dates')).resolves.toEqual({
+      answered: true,
+    });
+    expect(later).not.toHaveBeenCalled();
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('lets an error hook replace the error', async () => {
+    jest.mocked(fetch).mockResolvedValue(json({ success: false }, 404));
+    const replacement = new ApiError('Replaced', 404);
+    use({ name: 'replace', onError: () => replacement });
+
+    const error = await apiClient.get('/dates').catch(e => e);
+
+    expect(error).toBe(replacement);
+  });
+
+  it('ignores an error hook that throws', async () => {
+    jest.mocked(fetch).mockResolvedValue(json({ success: false }, 404));
+    use({
+      name: 'broken',
+      onError: () => {
+        throw new Error('hook failed');
+      },
+    });
+
+    await expect(apiClient.get('/dates')).rejects.toBeInstanceOf(NotFoundError);
+  });
+
+  it('stops calling a hook once it is removed', async () => {
+    const onRequest = jest.fn();
+    const uninstall = apiClient.use({ name: 'removed', onRequest });
+    uninstall();
+
+    await apiClient.get('/dates');
+
+    expect(onRequest).not.toHaveBeenCalled();
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('reads seconds', () => {
+    expect(parseRetryAfter('120')).toBe(120_000);
+  });
+
+  it('reads an HTTP date', () => {
+    jest.useFakeTimers({ now: Date.parse('2026-06-01T20:00:00Z') });
+    try {
+      expect(parseRetryAfter('Mon, 01 Jun 2026 20:00:30 GMT')).toBe(30_000);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('ignores missing or unreadable values', () => {
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter('soon')).toBeUndefined();
+  });
+});
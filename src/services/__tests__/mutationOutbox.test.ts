@@ -0,0 +1,131 @@
+import { onlineManager } from '@tanstack/react-query';
+
+import {
+  ConflictError,
+  DuplicateRequestError,
+  NetworkError,
+  ServerError,
+  ValidationFailedError,
+} from '../apiErrors';
+import { mutationOutbox } from '../mutationOutbox';
+
+const join = (dateEventId: string) => ({ dateEventId, requesterId: 'user-1' });
+
+const statuses = async () =>
+  (await mutationOutbox.getItems()).map(item => [
+    item.payload,
+    item.status,
+    item.attempts,
+  ]);
+
+describe('mutationOutbox', () => {
+  const handler = jest.fn();
+
+  beforeEach(() => {
+    mutationOutbox.setHandler('join-date-event', handler);
+  });
+
+  afterEach(async () => {
+    handler.mockReset();
+    onlineManager.setOnline(true);
+    await mutationOutbox.clear();
+  });
+
+  it('sends pending items in the order they were queued', async () => {
+    handler.mockResolvedValue(undefined);
+    await mutationOutbox.enqueue('join-date-event', join('event-1'));
+    await mutationOutbox.enqueue('join-date-event', join('event-2'));
+
+    await mutationOutbox.replay();
+
+    expect(handler.mock.calls).toEqual([[join('event-1')], [join('event-2')]]);
+    expect(await statuses()).toEqual([
+      [join('event-1'), 'sent', 0],
+      [join('event-2'), 'sent', 0],
+    ]);
+  });
+
+  it('queues the same pending mutation only once', async () => {
+    const first = await mutationOutbox.enqueue('join-date-event', join('a'));
+    const second = await mutationOutbox.enqueue('join-date-event', join('a'));
+
+    expect(second.id).toBe(first.id);
+    expect(await mutationOutbox.getItems()).toHaveLength(1);
+  });
+
+  it('does nothing while offline', async () => {
+    onlineManager.setOnline(false);
+    await mutationOutbox.enqueue('join-date-event', join('event-1'));
+
+    await mutationOutbox.replay();
+
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('marks an item the server already applied as sent', async () => {
+    handler.mockRejectedValue(new DuplicateRequestError('Already joined'));
+    await mutationOutbox.enqueue('join-date-event', join('event-1'));
+
+    await mutationOutbox.replay();
+
+    expect(await statuses()).toEqual([[join('event-1'), 'sent', 0]]);
+  });
+
+  it('records conflicts and permanent failures and carries on', async () => {
+    handler
+      .mockRejectedValueOnce(new ConflictError('Event is full'))
+      .mockRejectedValueOnce(new ValidationFailedError('Bad request', 400))
+      .mockResolvedValueOnce(undefined);
+    await mutationOutbox.enqueue('join-date-event', join('full'));
+    await mutationOutbox.enqueue('join-date-event', join('invalid'));
+    await mutationOutbox.enqueue('join-date-event', join('ok'));
+
+    await mutationOutbox.replay();
+
+    expect(await statuses()).toEqual([
+      [join('full'), 'conflict', 0],
+      [join('invalid'), 'failed', 0],
+      [join('ok'), 'sent', 0],
+    ]);
+    const [conflict] = await mutationOutbox.getItems();
+    expect(conflict.error).toBe('Event is full');
+  });
+
+  it('pauses on a transient failure so later items wait their turn', async () => {
+    handler.mockRejectedValueOnce(new ServerError('Unavailable', 503));
+    await mutationOutbox.enqueue('join-date-event', join('first'));
+    await mutationOutbox.enqueue('join-date-event', join('second'));
+
+    await mutationOutbox.replay();
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(await statuses()).toEqual([
+      [join('first'), 'pending', 1],
+      [join('second'), 'pending', 0],
+    ]);
+  });
+
+  it('gives up on an item after repeated transient failures', async () => {
+    handler.mockRejectedValue(new NetworkError());
+    await mutationOutbox.enqueue('join-date-event', join('event-1'));
+
+    for (let attempt = 0; attempt < 5; attempt++) {
+      await mutationOutbox.replay();
+    }
+
+    expect(handler).toHaveBeenCalledTimes(5);
+    expect(await statuses()).toEqual([[join('event-1'), 'failed', 5]]);
+  });
+
+  it('sends a retried item again', async () => {
+    handler
+      .mockRejectedValueOnce(new ConflictError('Event is full'))
+      .mockResolvedValueOnce(undefined);
+    const item = await mutationOutbox.enqueue('join-date-event', join('a'));
+    await mutationOutbox.replay();
+
+    await mutationOutbox.retry(item.id);
+
+    expect(await statuses()).toEqual([[join('a'), 'sent', 0]]);
+  });
+});
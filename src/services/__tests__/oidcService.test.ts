@@ -0,0 +1,128 @@
+import { ApiError, IdTokenError } from '../apiErrors';
+import { identityProviders } from '../identityProviders';
+import { jwksCache } from '../idTokenVerifier';
+import { oidcService } from '../oidcService';
+import { FakeIdentityProvider } from './fakeIdentityProvider';
+
+const CODE_VERIFIER = 'a'.repeat(43);
+
+describe('oidcService.exchangeCode', () => {
+  let idp: FakeIdentityProvider;
+
+  beforeEach(() => {
+    idp = new FakeIdentityProvider();
+    idp.install();
+    identityProviders.configure([idp.config()]);
+  });
+
+  afterEach(() => {
+    identityProviders.configure([]);
+    jwksCache.clear();
+  });
+
+  const exchange = (code: string, overrides = {}) =>
+    oidcService.exchangeCode({
+      providerId: 'fake',
+      code,
+      codeVerifier: CODE_VERIFIER,
+      redirectUri: 'tonightmobile://auth',
+      nonce: 'nonce-1',
+      ...overrides,
+    });
+
+  it('redeems the code with its PKCE verifier and returns the verified user', async () => {
+    const code = idp.authorize(CODE_VERIFIER, { picture: 'https://photo' });
+
+    const result = await exchange(code);
+
+    expect(result.providerId).toBe('fake');
+    expect(result.user).toEqual({
+      email: 'alex@example.com',
+      name: 'Alex',
+      photo: 'https://photo',
+    });
+    const [url, init] = jest
+      .mocked(fetch)
+      .mock.calls.find(([input]) => input === idp.tokenEndpoint)!;
+    expect(url).toBe(idp.tokenEndpoint);
+    expect(new URLSearchParams(String(init?.body)).get('code_verifier')).toBe(
+      CODE_VERIFIER
+    );
+  });
+
+  it('fails when the verifier does not match the challenge', async () => {
+    const code = idp.authorize('b'.repeat(43));
+
+    const error = await exchange(code).catch(e => e);
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error.status).toBe(400);
+    expect(error.errors).toEqual(['Invalid code verifier.']);
+  });
+
+  it('fails when the code has already been used', async () => {
+    const code = idp.authorize(CODE_VERIFIER);
+    await exchange(code);
+
+    await expect(exchange(code)).rejects.toMatchObject({ status: 400 });
+  });
+
+  it('reports a token endpoint that does not answer with JSON', async () => {
+    const code = idp.authorize(CODE_VERIFIER);
+    await identityProviders.discover('fake');
+    jest
+      .mocked(fetch)
+      .mockResolvedValueOnce(
+        new Response('<html>Bad Gateway</html>', { status: 502 })
+      );
+
+    const error = await exchange(code).catch(e => e);
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error.message).toBe('Fake sign-in failed');
+    expect(error.status).toBe(502);
+  });
+
+  it('rejects an ID token minted for another sign-in', async () => {
+    const code = idp.authorize(CODE_VERIFIER, { nonce: 'someone-elses' });
+
+    const error = await exchange(code).catch(e => e);
+
+    expect(error).toBeInstanceOf(IdTokenError);
+    expect(error.reason).toBe('nonce');
+  });
+
+  it('accepts the issuer aliases a provider declares', async () => {
+    identityProviders.configure([
+      idp.config({ issuerAliases: ['idp.example.com'] }),
+    ]);
+    const code = idp.authorize(CODE_VERIFIER, { iss: 'idp.example.com' });
+
+    await expect(exchange(code)).resolves.toBeDefined();
+  });
+
+  it('checks each provider against its own issuer and keys', async () => {
+    const other = new FakeIdentityProvider('https://login.other.example');
+    other.install();
+    identityProviders.configure([
+      idp.config(),
+      other.config({ id: 'other', label: 'Other' }),
+    ]);
+
+    await expect(
+      exchange(other.authorize(CODE_VERIFIER), { providerId: 'other' })
+    ).resolves.toMatchObject({ providerId: 'other' });
+
+    // A token the other provider signed but claiming to come from this one
+    const forged = other.authorize(CODE_VERIFIER, { iss: idp.issuer });
+    const error = await exchange(forged, { providerId: 'other' }).catch(e => e);
+    expect(error).toBeInstanceOf(IdTokenError);
+    expect(error.reason).toBe('issuer');
+  });
+
+  it('refuses providers that are not configured', async () => {
+    await expect(
+      exchange(idp.authorize(CODE_VERIFIER), { providerId: 'unknown' })
+    ).rejects.toMatchObject({ status: 400 });
+  });
+});
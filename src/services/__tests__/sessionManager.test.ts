@@ -0,0 +1,275 @@
+import type { FakeHttp } from './fakeHttp';
+
+const user = {
+  id: 'u1',
+  username: 'alex',
+  email: 'alex@example.com',
+  dob: '1994-03-12',
+  gender: 'male',
+  orientation: 'straight',
+};
+
+// An unsigned JWT expiring at `exp` (seconds)
+const jwt = (exp: number) =>
+  `header.${btoa(JSON.stringify({ sub: 'u1', exp }))}.signature`;
+
+describe('sessionManager', () => {
+  // The session manager restores once per launch, so every test gets a
+  // fresh set of modules (and an empty storage) as if the app had just started
+  let sessionManager: typeof import('../sessionManager').sessionManager;
+  let apiClient: typeof import('../apiClient').apiClient;
+  let secureStorage: typeof import('../../utils/platformStorage').secureStorage;
+  let http: FakeHttp;
+
+  beforeEach(() => {
+    jest.resetModules();
+    jest
+      .requireActual<typeof import('../../utils/logger')>('../../utils/logger')
+      .logger.setLevel('silent');
+    ({ sessionManager } =
+      jest.requireActual<typeof import('../sessionManager')>(
+        '../sessionManager'
+      ));
+    ({ apiClient } =
+      jest.requireActual<typeof import('../apiClient')>('../apiClient'));
+    ({ secureStorage } = jest.requireActual<
+      typeof import('../../utils/platformStorage')
+    >('../../utils/platformStorage'));
+    http = new (jest.requireActual<typeof import('./fakeHttp')>(
+      './fakeHttp'
+    ).FakeHttp)();
+    http.install();
+  });
+
+  afterEach(async () => {
+    http.restore();
+    // Stops the token expiry timer
+    await apiClient.clearSession();
+  });
+
+  const login = () => {
+    http.reply('POST', '/auth/login', {
+      user,
+      token: 'access-1',
+      refreshToken: 'refresh-1',
+    });
+    return sessionManager.loginWithPassword({
+      identifier: 'alex',
+      password: 'secret',
+    });
+  };
+
+  describe('login', () => {
+    it('starts a session the API client and storage agree on', async () => {
+      const listener = jest.fn();
+      sessionManager.subscribe(listener);
+
+      await login();
+
+      expect(sessionManager.getState()).toMatchObject({
+        status: 'signed-in',
+        user,
+        loginMethod: 'password',
+      });
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(apiClient.getToken()).toBe('access-1');
+      expect(JSON.parse((await secureStorage.getItem('session'))!)).toEqual({
+        user,
+        loginMethod: 'password',
+      });
+    });
+
+    it('sends the session token on later requests', async () => {
+      http.reply('GET', '/users/u1', user);
+
+      await login();
+      await apiClient.getData('/users/u1');
+
+      expect(http.lastRequest.headers.Authorization).toBe('Bearer access-1');
+    });
+
+    it('reads the expiry from the access token', async () => {
+      http.reply('POST', '/auth/google', {
+        user,
+        profileComplete: true,
+        token: jwt(2_000_000_000),
+      });
+
+      await sessionManager.loginWithProvider('google', 'google-id-token');
+
+      expect(sessionManager.getState()).toMatchObject({
+        loginMethod: 'google',
+        expiresAt: 2_000_000_000_000,
+      });
+    });
+
+    it('leaves everything untouched when the login fails', async () => {
+      http.fail('POST', '/auth/login', 401, 'Invalid credentials');
+
+      await expect(
+        sessionManager.loginWithPassword({ identifier: 'alex', password: 'x' })
+      ).rejects.toMatchObject({ status: 401 });
+
+      expect(sessionManager.getState().user).toBeNull();
+      expect(apiClient.getToken()).toBeNull();
+      expect(await secureStorage.getItem('session')).toBeNull();
+    });
+  });
+
+  describe('linked providers', () => {
+    it('links a provider and keeps the updated user', async () => {
+      await login();
+      http.reply('POST', '/users/u1/identities', {
+        ...user,
+        linkedProviders: ['google'],
+      });
+
+      await sessionManager.linkProvider('google', 'google-id-token');
+
+      expect(http.lastRequest.body).toEqual({
+        provider: 'google',
+        token: 'google-id-token',
+      });
+      expect(sessionManager.getState().user?.linkedProviders).toEqual([
+        'google',
+      ]);
+      expect(
+        JSON.parse((await secureStorage.getItem('session'))!).user
+      ).toMatchObject({ linkedProviders: ['google'] });
+    });
+
+    it('unlinks a provider', async () => {
+      await login();
+      http.reply('DELETE', '/users/u1/identities/google', {
+        ...user,
+        linkedProviders: [],
+      });
+
+      await sessionManager.unlinkProvider('google');
+
+      expect(sessionManager.getState().user?.linkedProviders).toEqual([]);
+    });
+
+    it('needs a signed-in user', async () => {
+      await expect(
+        sessionManager.linkProvider('google', 'google-id-token')
+      ).rejects.toThrow('No user logged in');
+    });
+  });
+
+  describe('ending the session', () => {
+    const expectSignedOut = async (endReason: string) => {
+      expect(sessionManager.getState()).toMatchObject({
+        status: 'signed-out',
+        user: null,
+        endReason,
+      });
+      expect(apiClient.getToken()).toBeNull();
+      expect(await secureStorage.getItem('session')).toBeNull();
+      expect(await secureStorage.getSecret('authToken')).toBeNull();
+    };
+
+    it('logs out', async () => {
+      await login();
+
+      await sessionManager.logout();
+
+      await expectSignedOut('logout');
+    });
+
+    it('deletes the account and then logs out', async () => {
+      await login();
+      http.reply('DELETE', '/users/u1', null);
+
+      await sessionManager.deleteAccount();
+
+      expect(http.lastRequest.method).toBe('DELETE');
+      await expectSignedOut('deleted');
+    });
+
+    it('keeps the session when deleting the account fails', async () => {
+      await login();
+      http.fail('DELETE', '/users/u1', 400, 'Cannot delete');
+
+      await expect(sessionManager.deleteAccount()).rejects.toMatchObject({
+        status: 400,
+      });
+
+      expect(sessionManager.getState().status).toBe('signed-in');
+      expect(apiClient.getToken()).toBe('access-1');
+    });
+
+    it('logs out when the session can no longer be refreshed', async () => {
+      await login();
+      http.fail('GET', '/users/u1', 401, 'Token expired');
+      http.fail('POST', '/auth/refresh', 401, 'Refresh token expired');
+
+      await apiClient.getData('/users/u1').catch(() => undefined);
+
+      await expectSignedOut('expired');
+    });
+  });
+
+  describe('restore', () => {
+    it('signs out when nothing is stored', async () => {
+      await sessionManager.restore();
+
+      expect(sessionManager.getState()).toMatchObject({
+        status: 'signed-out',
+        endReason: null,
+      });
+    });
+
+    it('refreshes the stored user from the server', async () => {
+      await login();
+      http.reply('GET', '/auth/me', { ...user, username: 'alexander' });
+
+      await sessionManager.restore();
+
+      expect(sessionManager.getState().user?.username).toBe('alexander');
+    });
+
+    it('signs out when the server rejects the stored session', async () => {
+      await login();
+      http.fail('GET', '/auth/me', 404, 'User not found');
+
+      await sessionManager.restore();
+
+      expect(sessionManager.getState()).toMatchObject({
+        status: 'signed-out',
+        endReason: 'revoked',
+      });
+      expect(await secureStorage.getItem('session')).toBeNull();
+    });
+
+    it('ends a session whose token has already expired', async () => {
+      http.reply('POST', '/auth/google', {
+        user,
+        profileComplete: true,
+        token: jwt(Math.floor(Date.now() / 1000) - 60),
+      });
+      await sessionManager.loginWithProvider('google', 'google-id-token');
+
+      await sessionManager.restore();
+
+      expect(sessionManager.getState()).toMatchObject({
+        status: 'signed-out',
+        endReason: 'expired',
+      });
+      expect(http.lastRequest.path).toBe('/auth/google');
+    });
+
+    it('keeps the stored user when the server is unavailable', async () => {
+      await login();
+      http.fail('GET', '/auth/me', 503, 'Unavailable');
+      jest.spyOn(Math, 'random').mockReturnValue(0);
+
+      await sessionManager.restore();
+
+      expect(sessionManager.getState()).toMatchObject({
+        status: 'signed-in',
+        user,
+      });
+    });
+  });
+});
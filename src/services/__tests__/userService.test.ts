@@ -0,0 +1,201 @@
+import {
+  ApiError,
+  DecodeError,
+  NotFoundError,
+  ValidationFailedError,
+} from '../apiErrors';
+import { userService } from '../userService';
+import { setupFakeHttp } from './fakeHttp';
+
+const user = {
+  id: 'u1',
+  username: 'alex',
+  email: 'alex@example.com',
+  dob: '1994-03-12',
+  gender: 'male',
+  orientation: 'straight',
+};
+
+describe('userService', () => {
+  const http = setupFakeHttp();
+
+  describe('getPromptCategories', () => {
+    it('unwraps the category list and serves repeats from the cache', async () => {
+      const categories = [
+        {
+          id: 'icebreakers',
+          name: 'Icebreakers',
+          description: '',
+          questions: [],
+        },
+      ];
+      http.reply('GET', '/prompts/categories', categories);
+
+      await expect(userService.getPromptCategories()).resolves.toEqual(
+        categories
+      );
+      await expect(userService.getPromptCategories()).resolves.toEqual(
+        categories
+      );
+      expect(http.requests).toHaveLength(1);
+    });
+  });
+
+  describe('getUserById', () => {
+    it('fetches and decodes the user', async () => {
+      http.reply('GET', '/users/u1', user);
+
+      await expect(userService.getUserById('u1')).resolves.toEqual(user);
+      expect(http.lastRequest.method).toBe('GET');
+    });
+
+    it.each(['', 'undefined'])(
+      'rejects the id %p without a request',
+      async id => {
+        await expect(userService.getUserById(id)).rejects.toMatchObject({
+          status: 400,
+        });
+        expect(http.requests).toHaveLength(0);
+      }
+    );
+
+    it('maps a 404 to NotFoundError', async () => {
+      http.fail('GET', '/users/missing', 404, 'User not found');
+
+      const error = await userService.getUserById('missing').catch(e => e);
+
+      expect(error).toBeInstanceOf(NotFoundError);
+      expect(error.message).toBe('User not found');
+    });
+
+    it('fails with a DecodeError for a malformed user', async () => {
+      http.reply('GET', '/users/u1', { ...user, email: 42 });
+
+      await expect(userService.getUserById('u1')).rejects.toBeInstanceOf(
+        DecodeError
+      );
+    });
+  });
+
+  describe('updateProfile', () => {
+    it('PUTs the changes and returns the updated user', async () => {
+      http.reply('PUT', '/users/u1/profile', { ...user, username: 'alexa' });
+
+      const updated = await userService.updateProfile('u1', {
+        username: 'alexa',
+        showGender: true,
+      });
+
+      expect(updated.username).toBe('alexa');
+      expect(http.lastRequest.body).toEqual({
+        username: 'alexa',
+        showGender: true,
+      });
+    });
+
+    it('exposes field errors from a 400', async () => {
+      http.fail('PUT', '/users/u1/profile', 400, 'Validation failed', {
+        details: [{ field: 'username', message: 'Username is taken' }],
+      });
+
+      const error = await userService
+        .updateProfile('u1', { username: 'sam' })
+        .catch(e => e);
+
+      expect(error).toBeInstanceOf(ValidationFailedError);
+      expect(error.fieldErrors).toEqual([
+        { field: 'username', message: 'Username is taken' },
+      ]);
+      expect(error.errors).toEqual(['Username is taken']);
+    });
+
+    it('requires a user id', async () => {
+      await expect(userService.updateProfile('', {})).rejects.toBeInstanceOf(
+        ApiError
+      );
+      expect(http.requests).toHaveLength(0);
+    });
+  });
+
+  describe('searchUsers', () => {
+    it('sends each filter as a query parameter', async () => {
+      http.reply('GET', '/users/search', []);
+
+      await userService.searchUsers({
+        venueId: 'v1',
+        userLocation: { lat: 51.5, lng: -0.12 },
+        maxDistance: 10,
+        minAge: 25,
+        maxAge: 35,
+        genders: ['female', 'non-binary'],
+        orientations: ['straight'],
+        venueTypes: ['bar'],
+      });
+
+      const { query } = http.lastRequest;
+      expect(query.get('venueId')).toBe('v1');
+      expect(query.get('lat')).toBe('51.5');
+      expect(query.get('lng')).toBe('-0.12');
+      expect(query.get('maxDistance')).toBe('10');
+      expect(query.get('minAge')).toBe('25');
+      expect(query.get('maxAge')).toBe('35');
+      expect(query.getAll('genders')).toEqual(['female', 'non-binary']);
+      expect(query.getAll('orientations')).toEqual(['straight']);
+      expect(query.getAll('venueTypes')).toEqual(['bar']);
+    });
+
+    it('searches every venue type by default', async () => {
+      const results = [
+        { id: 'u2', dob: '1996-07-30', gender: 'female', orientation: 'gay' },
+      ];
+      http.reply('GET', '/users/search', results);
+
+      await expect(userService.searchUsers({})).resolves.toEqual(results);
+      expect(http.lastRequest.query.getAll('venueTypes')).toEqual([
+        'bar',
+        'restaurant',
+        'coffee-shop',
+      ]);
+    });
+  });
+
+  describe('getPublicProfile', () => {
+    it('defaults missing prompt answers to an empty list', async () => {
+      http.reply('GET', '/users/u1/profile', {
+        id: 'u1',
+        username: 'alex',
+        dob: '1994-03-12',
+      });
+
+      await expect(userService.getPublicProfile('u1')).resolves.toEqual({
+        id: 'u1',
+        username: 'alex',
+        dob: '1994-03-12',
+        promptAnswers: [],
+      });
+    });
+  });
+
+  describe('deleteUser', () => {
+    it('sends DELETE /users/{id}', async () => {
+      http.reply('DELETE', '/users/u1', null);
+
+      await userService.deleteUser('u1');
+
+      expect(http.lastRequest).toMatchObject({
+        method: 'DELETE',
+        path: '/users/u1',
+      });
+    });
+
+    it.each(['', 'undefined'])(
+      'rejects the id %p without a request',
+      async id => {
+        await expect(userService.deleteUser(id)).rejects.toMatchObject({
+          status: 400,
+        });
+        expect(http.requests).toHaveLength(0);
+      }
+    );
+  });
+});
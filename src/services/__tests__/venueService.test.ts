@@ -0,0 +1,202 @@
+import { ApiError, DecodeError } from '../apiErrors';
+import { venueService } from '../venueService';
+import { setupFakeHttp } from './fakeHttp';
+
+const cities = [
+  { key: 'london', name: 'London', lat: 51.5074, lng: -0.1278, radius: 8000 },
+  { key: 'manchester', name: 'Manchester', lat: 53.4808, lng: -2.2426 },
+];
+
+const venue = {
+  id: 'v1',
+  name: 'The Crown',
+  address: '1 High St',
+  city: 'London',
+  lat: 51.51,
+  lng: -0.12,
+  type: 'bar',
+};
+
+const searchResult = (venues: unknown[]) => ({
+  venues,
+  searchCenter: { lat: 51.5074, lng: -0.1278 },
+  radiusMeters: 8000,
+  venueTypes: ['bar'],
+  totalResults: venues.length,
+});
+
+describe('venueService', () => {
+  const http = setupFakeHttp();
+
+  describe('getBars', () => {
+    it('searches around the city’s coordinates', async () => {
+      http.reply('GET', '/venues/cities', cities);
+      http.reply('GET', '/venues/search', searchResult([venue]));
+
+      const bars = await venueService.getBars({
+        city: 'london',
+        venueTypes: ['bar'],
+        eventDate: '2026-10-24',
+      });
+
+      expect(bars).toEqual([venue]);
+      const { query } = http.lastRequest;
+      expect(query.get('lat')).toBe('51.5074');
+      expect(query.get('lng')).toBe('-0.1278');
+      expect(query.get('radius')).toBe('8000');
+      expect(query.getAll('venueTypes')).toEqual(['bar']);
+      expect(query.get('eventDate')).toBe('2026-10-24');
+    });
+
+    it('defaults to every venue type and a 5km radius', async () => {
+      http.reply('GET', '/venues/search', searchResult([]));
+
+      await venueService.getBars({ lat: 51.5, lng: -0.1 });
+
+      const { query } = http.lastRequest;
+      expect(query.get('radius')).toBe('5000');
+      expect(query.getAll('venueTypes')).toEqual([
+        'bar',
+        'restaurant',
+        'coffee-shop',
+      ]);
+    });
+
+    it('returns nothing for an unknown city', async () => {
+      http.reply('GET', '/venues/cities', cities);
+
+      await expect(venueService.getBars({ city: 'Atlantis' })).resolves.toEqual(
+        []
+      );
+      expect(http.requests.map(r => r.path)).toEqual(['/venues/cities']);
+    });
+
+    it('treats a failed search as no venues', async () => {
+      http.fail('GET', '/venues/search', 404, 'Not found');
+
+      await expect(
+        venueService.getBars({ lat: 51.5, lng: -0.1 })
+      ).resolves.toEqual([]);
+    });
+
+    it('surfaces a malformed venue', async () => {
+      http.reply('GET', '/venues/search', searchResult([{ id: 'v1' }]));
+
+      await expect(
+        venueService.getBars({ lat: 51.5, lng: -0.1 })
+      ).rejects.toBeInstanceOf(DecodeError);
+    });
+  });
+
+  describe('searchVenues', () => {
+    it('unwraps the search result', async () => {
+      http.reply('GET', '/venues/search', searchResult([venue]));
+
+      const venues = await venueService.searchVenues({
+        lat: 51.5,
+        lng: -0.1,
+        radius: 2000,
+        venueTypes: ['restaurant', 'coffee-shop'],
+      });
+
+      expect(venues).toEqual([venue]);
+      expect(http.lastRequest.query.get('radius')).toBe('2000');
+      expect(http.lastRequest.query.getAll('venueTypes')).toEqual([
+        'restaurant',
+        'coffee-shop',
+      ]);
+    });
+
+    it('defaults missing address fields', async () => {
+      http.reply(
+        'GET',
+        '/venues/search',
+        searchResult([{ id: 'v2', name: 'Kiosk', lat: 51.5, lng: -0.1 }])
+      );
+
+      const [kiosk] = await venueService.searchVenues({ lat: 51.5, lng: -0.1 });
+
+      expect(kiosk).toMatchObject({ address: '', city: '' });
+    });
+  });
+
+  describe.each([
+    ['searchBars', '/venues/bars/search'],
+    ['searchRestaurants', '/venues/restaurants/search'],
+    ['searchCoffeeShops', '/venues/coffee-shops/search'],
+  ] as const)('%s', (method, path) => {
+    it(`queries ${path}`, async () => {
+      http.reply('GET', path, [venue]);
+
+      await expect(
+        venueService[method]({ lat: 51.5, lng: -0.1, query: 'crown' })
+      ).resolves.toEqual([venue]);
+      expect(http.lastRequest.query.get('query')).toBe('crown');
+      expect(http.lastRequest.query.has('radius')).toBe(false);
+    });
+  });
+
+  describe.each([
+    ['getRestaurants', '/restaurants'],
+    ['getCoffeeShops', '/coffee-shops'],
+  ] as const)('%s', (method, path) => {
+    it('filters by city', async () => {
+      http.reply('GET', path, [venue]);
+
+      await venueService[method]({ city: 'London' });
+
+      expect(http.lastRequest.endpoint).toBe(`${path}?city=London`);
+    });
+
+    it('passes a 500 through', async () => {
+      http.fail('GET', path, 500, 'Database unavailable');
+      jest.spyOn(Math, 'random').mockReturnValue(0);
+
+      const error = await venueService[method]({ city: 'London' }).catch(
+        e => e
+      );
+
+      expect(error).toBeInstanceOf(ApiError);
+      expect(error.status).toBe(500);
+    });
+  });
+
+  describe('cities', () => {
+    it('lists city names', async () => {
+      http.reply('GET', '/venues/cities', cities);
+
+      await expect(venueService.getCities()).resolves.toEqual([
+        'London',
+        'Manchester',
+      ]);
+    });
+
+    it('looks up coordinates by name or key, defaulting the radius', async () => {
+      http.reply('GET', '/venues/cities', cities);
+
+      await expect(
+        venueService.getCityCoordinates('MANCHESTER')
+      ).resolves.toEqual({ lat: 53.4808, lng: -2.2426, radius: 5000 });
+      await expect(venueService.getCityCoordinates('london')).resolves.toEqual({
+        lat: 51.5074,
+        lng: -0.1278,
+        radius: 8000,
+      });
+    });
+  });
+
+  describe('getVenuesInCity', () => {
+    it('fetches every kind of venue for the city', async () => {
+      http.reply('GET', '/venues/cities', cities);
+      http.reply('GET', '/venues/search', searchResult([venue]));
+      http.reply('GET', '/restaurants', []);
+      http.reply('GET', '/coffee-shops', []);
+
+      await expect(venueService.getVenuesInCity('London')).resolves.toEqual({
+        bars: [venue],
+        restaurants: [],
+        coffeeShops: [],
+      });
+    });
+  });
+});
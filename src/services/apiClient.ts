@@ -1,179 +1,885 @@
-import { ErrorResponse } from '../types';
-import { platformStorage } from '../utils/platformStorage';
+import {
+  ApiResponse,
+  ErrorResponse,
+  RefreshTokenRequest,
+  RefreshTokenResponse,
+} from '../types';
+import { getJWTExpiry } from '../utils/jwt';
+import { logger } from '../utils/logger';
+import { secureStorage } from '../utils/platformStorage';
+import {
+  ApiError,
+  createApiError,
+  DuplicateRequestError,
+  NetworkError,
+  RequestCancelledError,
+  ServerError,
+  TimeoutError,
+  UnauthorizedError,
+} from './apiErrors';
+import { createHttpCacheInterceptor, HttpCache } from './httpCache';
+import {
+  createAuthInterceptor,
+  HttpMethod,
+  Interceptor,
+  jsonInterceptor,
+  loggingInterceptor,
+  parseErrorBody,
+  RequestContext,
+  ResponseContext,
+} from './interceptors';
+import { referenceCache } from './referenceCache';
+
+// Base API configuration, used until apiEnvironment selects another backend
+export const DEFAULT_API_BASE_URL =
+  process.env.EXPO_PUBLIC_API_URL || 'http://localhost:3001';
+
+// Storage keys for the current session, kept in the OS keystore
+const ACCESS_TOKEN_KEY = 'authToken';
+const REFRESH_TOKEN_KEY = 'refreshToken';
+
+// Refresh this long before the access token expires
+const REFRESH_AHEAD_MS = 60 * 1000;
+// A token this close to expiry is treated as expired, allowing for clock skew
+const EXPIRY_LEEWAY_MS = 10 * 1000;
+// setTimeout fires at once for longer delays (about 24.8 days)
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+// Responses from /auth/refresh that mean the refresh token is no good
+const REFRESH_REJECTED_STATUSES = [400, 401, 403];
+
+// The /auth/ endpoints that act on the current session. The others (login,
+// refresh and provider logins such as /auth/google) must never trigger a
+// token refresh on 401.
+const SESSION_ENDPOINTS = ['/auth/me', '/auth/logout'];
+
+const isAuthEndpoint = (endpoint: string): boolean =>
+  endpoint.startsWith('/auth/') &&
+  !SESSION_ENDPOINTS.some(sessionEndpoint =>
+    endpoint.startsWith(sessionEndpoint)
+  );
+
+// Endpoints anyone may call. They are sent without a token, so an expired
+// session never delays or fails them.
+const PUBLIC_ENDPOINTS = ['/health'];
+
+const isPublicEndpoint = (endpoint: string): boolean =>
+  PUBLIC_ENDPOINTS.includes(endpoint.split('?')[0]);
+
+// Retry behaviour for a single request
+export interface RetryPolicy {
+  retries: number; // Additional attempts after the first one
+  baseDelayMs: number; // Backoff for the first retry, doubled for each next one
+  maxDelayMs: number; // Longest single wait; a longer Retry-After is not retried
+  retryOnStatuses: number[];
+}
 
-// Base API configuration
-const API_BASE_URL = process.env.EXPO_PUBLIC_API_URL || 'http://localhost:3001';
+export interface RequestOptions {
+  // Mutations are only retried when marked idempotent
+  idempotent?: boolean;
+  // Sent as the Idempotency-Key header; implies the request is idempotent
+  idempotencyKey?: string;
+  // The key went out with an earlier attempt whose outcome is unknown, so a
+  // 409 means that attempt went through
+  idempotencyKeyReused?: boolean;
+  // Overrides for the default policy, or false to disable retries
+  retry?: Partial<RetryPolicy> | false;
+  // Called before each retry so screens can show a "retrying…" state
+  onRetry?: (attempt: number, error: ApiError) => void;
+  // Cancels the request, e.g. the signal React Query passes to queryFn
+  signal?: AbortSignal;
+  // Per-attempt timeout, defaults to DEFAULT_TIMEOUT_MS
+  timeoutMs?: number;
+}
 
-export class ApiError extends Error {
-  constructor(
-    message: string,
-    public status: number,
-    public errors?: string[]
-  ) {
-    super(message);
-    this.name = 'ApiError';
-  }
+// Options service methods accept from their callers
+export type CallOptions = Pick<RequestOptions, 'signal' | 'timeoutMs'>;
+
+export const DEFAULT_TIMEOUT_MS = 15000;
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  retries: 2,
+  baseDelayMs: 500,
+  maxDelayMs: 10000,
+  retryOnStatuses: [408, 429, 500, 502, 503, 504],
+};
+
+// Waits between retries, stopping early if the request is cancelled
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new RequestCancelledError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new RequestCancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+const isEnvelope = (body: unknown): body is ApiResponse<unknown> =>
+  !!body &&
+  typeof body === 'object' &&
+  !Array.isArray(body) &&
+  typeof (body as ApiResponse).success === 'boolean';
+
+// Payload of an { data, success, message } envelope, with its message
+export interface ApiResult<T> {
+  data: T;
+  message?: string;
+}
+
+export interface SessionTokens {
+  accessToken: string;
+  refreshToken?: string | null;
+}
+
+type SessionExpiredListener = () => void;
+type SessionChangedListener = (tokens: SessionTokens | null) => void;
+
+// A GET shared by every concurrent caller asking for the same endpoint
+interface SharedRequest {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  subscribers: number;
 }
 
 // Generic API client with proper error handling for React Native
 class ApiClient {
   private baseUrl: string;
   private token: string | null = null;
+  private refreshToken: string | null = null;
+  // When the access token expires (epoch ms), if it is a JWT with an exp claim
+  private tokenExpiresAt: number | null = null;
+  private expiryTimer: ReturnType<typeof setTimeout> | null = null;
+  // Single in-flight refresh shared by every request that hit a 401
+  private refreshPromise: Promise<string | null> | null = null;
+  private sessionExpiredListeners = new Set<SessionExpiredListener>();
+  private sessionChangedListeners = new Set<SessionChangedListener>();
+  private inFlightGets = new Map<string, SharedRequest>();
+  // Conditional GET cache; responses fetched for a user go on logout
+  private httpCache = new HttpCache();
+  // Built-in behaviour first; further interceptors are added with use()
+  private interceptors: Interceptor[] = [
+    createHttpCacheInterceptor(this.httpCache),
+    jsonInterceptor,
+    createAuthInterceptor(request =>
+      isPublicEndpoint(request.endpoint) ? null : this.token
+    ),
+    loggingInterceptor,
+  ];
 
   constructor() {
-    this.baseUrl = API_BASE_URL;
+    this.baseUrl = DEFAULT_API_BASE_URL;
     // Remove the async loadToken call from constructor since constructors should be synchronous
   }
 
   private async loadToken(): Promise<void> {
     try {
-      this.token = await platformStorage.getItem('authToken');
+      this.token = await secureStorage.getSecret(ACCESS_TOKEN_KEY);
+      this.refreshToken = await secureStorage.getSecret(REFRESH_TOKEN_KEY);
+      this.watchExpiry();
     } catch (error) {
-      console.error('Failed to load auth token:', error);
+      logger.error('Failed to load auth token:', error);
     }
   }
 
-  private async saveToken(token: string): Promise<void> {
+  private async saveSession(tokens: SessionTokens): Promise<void> {
+    this.token = tokens.accessToken;
+    if (tokens.refreshToken !== undefined) {
+      this.refreshToken = tokens.refreshToken;
+    }
+    this.watchExpiry();
+    this.notifySessionChanged();
     try {
-      await platformStorage.setItem('authToken', token);
-      this.token = token;
+      await secureStorage.setSecret(ACCESS_TOKEN_KEY, tokens.accessToken);
+      if (this.refreshToken) {
+        await secureStorage.setSecret(REFRESH_TOKEN_KEY, this.refreshToken);
+      } else {
+        await secureStorage.removeSecret(REFRESH_TOKEN_KEY);
+      }
     } catch (error) {
-      console.error('Failed to save auth token:', error);
+      logger.error('Failed to save auth token:', error);
     }
   }
 
-  private async removeToken(): Promise<void> {
+  private async removeSession(): Promise<void> {
+    const hadSession = this.token !== null || this.refreshToken !== null;
+    this.token = null;
+    this.refreshToken = null;
+    this.watchExpiry();
+    this.httpCache.evictPrivate();
+    if (hadSession) {
+      this.notifySessionChanged();
+    }
     try {
-      await platformStorage.removeItem('authToken');
-      this.token = null;
+      await secureStorage.removeSecret(ACCESS_TOKEN_KEY);
+      await secureStorage.removeSecret(REFRESH_TOKEN_KEY);
     } catch (error) {
-      console.error('Failed to remove auth token:', error);
+      logger.error('Failed to remove auth token:', error);
     }
   }
 
-  private getHeaders(): Record<string, string> {
-    const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
-    };
+  private notifySessionChanged(): void {
+    const tokens = this.token
+      ? { accessToken: this.token, refreshToken: this.refreshToken }
+      : null;
+    this.sessionChangedListeners.forEach(listener => listener(tokens));
+  }
+
+  // Reads the access token's expiry and schedules what happens before it:
+  // a refresh when there is a refresh token, otherwise the end of the session
+  private watchExpiry(): void {
+    this.tokenExpiresAt = this.token ? getJWTExpiry(this.token) : null;
+    this.scheduleExpiryCheck();
+  }
 
-    if (this.token) {
-      headers.Authorization = `Bearer ${this.token}`;
+  private scheduleExpiryCheck(): void {
+    if (this.expiryTimer) {
+      clearTimeout(this.expiryTimer);
+      this.expiryTimer = null;
     }
+    if (this.tokenExpiresAt === null) {
+      return;
+    }
+    const delay = this.expiryCheckAt(this.tokenExpiresAt) - Date.now();
+    this.expiryTimer = setTimeout(() => {
+      this.expiryTimer = null;
+      this.handleExpiringToken();
+    }, Math.min(Math.max(delay, 0), MAX_TIMER_DELAY_MS));
+  }
 
-    return headers;
+  private expiryCheckAt(expiresAt: number): number {
+    return this.refreshToken
+      ? expiresAt - REFRESH_AHEAD_MS
+      : expiresAt - EXPIRY_LEEWAY_MS;
   }
 
-  private async handleResponse<T>(response: Response): Promise<T> {
-    if (!response.ok) {
-      let errorMessage = `HTTP ${response.status}: ${response.statusText}`;
-      let errors: string[] = [];
+  private handleExpiringToken(): void {
+    if (this.tokenExpiresAt === null) {
+      return;
+    }
+    // Long delays are capped, so the timer can fire early
+    if (Date.now() < this.expiryCheckAt(this.tokenExpiresAt)) {
+      this.scheduleExpiryCheck();
+      return;
+    }
+    if (this.refreshToken) {
+      logger.debug('Access token about to expire, refreshing');
+      this.refreshAccessToken().catch(error => {
+        // Offline: the next request tries again
+        logger.warn('Proactive token refresh failed:', error);
+      });
+      return;
+    }
+    logger.warn('Access token expired and cannot be refreshed');
+    this.expireSession().catch(error => {
+      logger.error('Failed to end expired session:', error);
+    });
+  }
 
-      try {
-        const errorData: ErrorResponse = await response.json();
-        if (errorData.message) {
-          errorMessage = errorData.message;
-        }
-        if (errorData.details && Array.isArray(errorData.details)) {
-          errors = errorData.details;
-        }
-      } catch (parseError) {
-        errors = [response.statusText];
+  private isTokenExpired(): boolean {
+    return (
+      this.tokenExpiresAt !== null &&
+      Date.now() >= this.tokenExpiresAt - EXPIRY_LEEWAY_MS
+    );
+  }
+
+  // Never sends a token already known to have expired: it is refreshed
+  // first, or the session ends without a request being made
+  private async ensureFreshToken(endpoint: string): Promise<void> {
+    if (
+      !this.isTokenExpired() ||
+      isAuthEndpoint(endpoint) ||
+      isPublicEndpoint(endpoint)
+    ) {
+      return;
+    }
+    if (this.canRefresh(endpoint)) {
+      // Throws when the refresh fails for a temporary reason; ends the
+      // session when the refresh token is rejected
+      if (await this.refreshAccessToken()) {
+        return;
       }
+    } else {
+      await this.expireSession();
+    }
+    throw new UnauthorizedError('Your session has expired', [
+      'Please log in again',
+    ]);
+  }
+
+  private canRefresh(endpoint: string): boolean {
+    return (
+      !!this.refreshToken &&
+      !isAuthEndpoint(endpoint) &&
+      !isPublicEndpoint(endpoint)
+    );
+  }
 
-      throw new ApiError(errorMessage, response.status, errors);
+  private createContext(
+    method: HttpMethod,
+    endpoint: string,
+    data: any,
+    options: RequestOptions
+  ): RequestContext {
+    const headers: Record<string, string> = {};
+    if (options.idempotencyKey) {
+      headers['Idempotency-Key'] = options.idempotencyKey;
     }
+    return {
+      method,
+      endpoint,
+      url: `${this.baseUrl}${endpoint}`,
+      headers,
+      body: data,
+      meta: {},
+    };
+  }
+
+  // Runs the request hooks, then sends the request unless a hook answered it
+  private async send(
+    context: RequestContext,
+    options: RequestOptions
+  ): Promise<Response> {
+    if (options.signal?.aborted) {
+      throw new RequestCancelledError();
+    }
+
+    for (const interceptor of this.interceptors) {
+      const response = await interceptor.onRequest?.(context);
+      if (response) {
+        return response;
+      }
+    }
+
+    // Each attempt gets its own controller so a timeout only aborts this attempt
+    const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+    const onCallerAbort = () => controller.abort();
+    options.signal?.addEventListener('abort', onCallerAbort, { once: true });
 
     try {
-      const data = await response.json();
-      return data;
+      return await fetch(context.url, {
+        method: context.method,
+        headers: context.headers,
+        body: context.body ? JSON.stringify(context.body) : undefined,
+        signal: controller.signal,
+      });
     } catch (error) {
-      throw new ApiError('Invalid JSON response', 500, [
-        'Server returned invalid JSON',
+      if (timedOut) {
+        throw new TimeoutError(timeoutMs);
+      }
+      if (options.signal?.aborted) {
+        throw new RequestCancelledError();
+      }
+      // fetch only rejects when the request never reached the server
+      throw new NetworkError([
+        error instanceof Error ? error.message : 'Unknown error',
       ]);
+    } finally {
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', onCallerAbort);
     }
   }
 
-  async get<T>(endpoint: string): Promise<T> {
-    if (!this.token) {
-      await this.loadToken();
+  // Runs the response hooks and returns the parsed body
+  private async receive<T>(
+    request: RequestContext,
+    response: Response
+  ): Promise<T> {
+    const context: ResponseContext = { request, response };
+    for (const interceptor of this.interceptors) {
+      await interceptor.onResponse?.(context);
     }
-    const response = await fetch(`${this.baseUrl}${endpoint}`, {
-      method: 'GET',
-      headers: this.getHeaders(),
-    });
+    return context.data as T;
+  }
+
+  // Lets error hooks observe or replace a failure before it is thrown
+  private async interceptError(
+    error: unknown,
+    request: RequestContext
+  ): Promise<unknown> {
+    if (!(error instanceof ApiError)) {
+      return error;
+    }
+
+    let current = error;
+    for (const interceptor of this.interceptors) {
+      try {
+        current = (await interceptor.onError?.(current, request)) || current;
+      } catch (hookError) {
+        logger.error(
+          `Interceptor "${interceptor.name}" failed to handle an error:`,
+          hookError
+        );
+      }
+    }
+    return current;
+  }
 
-    return this.handleResponse<T>(response);
+  private resolveRetryPolicy(
+    method: HttpMethod,
+    options: RequestOptions
+  ): RetryPolicy | null {
+    if (options.retry === false) {
+      return null;
+    }
+    if (method !== 'GET' && !options.idempotent && !options.idempotencyKey) {
+      return null;
+    }
+    return { ...DEFAULT_RETRY_POLICY, ...options.retry };
+  }
+
+  private shouldRetry(error: unknown, policy: RetryPolicy): boolean {
+    if (!(error instanceof ApiError)) {
+      return false;
+    }
+    // Status 0 means the network failed before a response arrived
+    return error.status === 0 || policy.retryOnStatuses.includes(error.status);
   }
 
-  async post<T>(endpoint: string, data?: any): Promise<T> {
-    console.log(`API POST request to: ${this.baseUrl}${endpoint}`, data);
+  // Exponential backoff with full jitter, unless the server asked for a
+  // delay. Returns null when the server asks for a longer wait than the
+  // policy allows, since retrying early would only be rejected again.
+  private getRetryDelay(
+    error: ApiError,
+    attempt: number,
+    policy: RetryPolicy
+  ): number | null {
+    if (error.retryAfterMs !== undefined) {
+      return error.retryAfterMs <= policy.maxDelayMs
+        ? error.retryAfterMs
+        : null;
+    }
+    const backoff = Math.min(
+      policy.maxDelayMs,
+      policy.baseDelayMs * 2 ** (attempt - 1)
+    );
+    return Math.random() * backoff;
+  }
+
+  // Performs a request, retrying transient failures according to the policy
+  private async request<T>(
+    method: HttpMethod,
+    endpoint: string,
+    data?: any,
+    options: RequestOptions = {}
+  ): Promise<T> {
+    const policy = this.resolveRetryPolicy(method, options);
+    let attempt = 1;
+    let attemptOptions = options;
+
+    while (true) {
+      try {
+        return await this.requestOnce<T>(
+          method,
+          endpoint,
+          data,
+          attemptOptions
+        );
+      } catch (error) {
+        const delay =
+          policy && attempt <= policy.retries && this.shouldRetry(error, policy)
+            ? this.getRetryDelay(error as ApiError, attempt, policy)
+            : null;
+        if (delay === null) {
+          if (error instanceof ApiError) {
+            error.attempts = attempt;
+          }
+          throw error;
+        }
+
+        const apiError = error as ApiError;
+        logger.warn(
+          `Retrying ${method} ${endpoint} (attempt ${
+            attempt + 1
+          }) in ${Math.round(delay)}ms`
+        );
+        options.onRetry?.(attempt, apiError);
+        await sleep(delay, options.signal);
+        attempt++;
+        // The failed attempt may have reached the server
+        attemptOptions = { ...options, idempotencyKeyReused: true };
+      }
+    }
+  }
 
+  // Performs a single attempt, refreshing the session and replaying it once on 401
+  private async requestOnce<T>(
+    method: HttpMethod,
+    endpoint: string,
+    data: any,
+    options: RequestOptions
+  ): Promise<T> {
     if (!this.token) {
       await this.loadToken();
     }
 
-    const url = `${this.baseUrl}${endpoint}`;
+    let context = this.createContext(method, endpoint, data, options);
+
     try {
-      console.log(`Making fetch request to: ${url}`);
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: this.getHeaders(),
-        body: data ? JSON.stringify(data) : undefined,
-      });
+      await this.ensureFreshToken(endpoint);
+      const tokenUsed = this.token;
+      let response = await this.send(context, options);
+
+      if (response.status === 401 && this.canRefresh(endpoint)) {
+        // Another request may already have refreshed while this one was in flight
+        const newToken =
+          this.token && this.token !== tokenUsed
+            ? this.token
+            : await this.refreshAccessToken();
+
+        if (!newToken) {
+          throw new UnauthorizedError('Your session has expired', [
+            'Please log in again',
+          ]);
+        }
 
-      console.log(`Response status: ${response.status} for ${url}`);
-      return this.handleResponse<T>(response);
+        // Rebuild the request so the hooks apply the new token
+        context = this.createContext(method, endpoint, data, options);
+        response = await this.send(context, options);
+      }
+
+      return await this.receive<T>(context, response);
     } catch (error) {
-      console.error(`Fetch error for ${url}:`, error);
-      throw error;
+      if (
+        options.idempotencyKey &&
+        error instanceof ApiError &&
+        error.status === 409 &&
+        (options.idempotencyKeyReused || error.idempotentReplay)
+      ) {
+        throw await this.interceptError(
+          new DuplicateRequestError(error.message, error.errors),
+          context
+        );
+      }
+      throw await this.interceptError(error, context);
     }
   }
 
-  async put<T>(endpoint: string, data?: any): Promise<T> {
-    if (!this.token) {
-      await this.loadToken();
+  // Exchanges the refresh token for a new access token. Concurrent callers
+  // share the same refresh so the queued requests are replayed together.
+  private refreshAccessToken(): Promise<string | null> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.performRefresh().finally(() => {
+        this.refreshPromise = null;
+      });
     }
-    const response = await fetch(`${this.baseUrl}${endpoint}`, {
-      method: 'PUT',
-      headers: this.getHeaders(),
-      body: data ? JSON.stringify(data) : undefined,
+    return this.refreshPromise;
+  }
+
+  private async performRefresh(): Promise<string | null> {
+    const refreshToken = this.refreshToken;
+    if (!refreshToken) {
+      return null;
+    }
+
+    try {
+      const refreshRequest: RefreshTokenRequest = { refreshToken };
+      const context = this.createContext(
+        'POST',
+        '/auth/refresh',
+        refreshRequest,
+        {}
+      );
+      const response = await this.send(context, {});
+      // Backend wraps tokens as { data: { accessToken, refreshToken }, success, message }
+      const { data: tokens } = this.unwrapEnvelope<RefreshTokenResponse>(
+        await this.receive<unknown>(context, response)
+      );
+      const accessToken = tokens?.accessToken || tokens?.token;
+      if (!accessToken) {
+        throw new ServerError('Invalid refresh response', 500, [
+          'No access token returned',
+        ]);
+      }
+
+      await this.saveSession({
+        accessToken,
+        refreshToken: tokens.refreshToken ?? refreshToken,
+      });
+      return accessToken;
+    } catch (error) {
+      // Only a refresh token the server rejected ends the session. Offline,
+      // timeouts, outages and rate limiting pass: the session stays and the
+      // caller sees the error.
+      if (
+        !(error instanceof ApiError) ||
+        !REFRESH_REJECTED_STATUSES.includes(error.status)
+      ) {
+        logger.warn('Session refresh failed, keeping the session:', error);
+        throw error;
+      }
+      logger.error('Refresh token was rejected:', error);
+      await this.expireSession();
+      return null;
+    }
+  }
+
+  private async expireSession(): Promise<void> {
+    await this.removeSession();
+    this.sessionExpiredListeners.forEach(listener => {
+      try {
+        listener();
+      } catch (error) {
+        logger.error('Session expired listener failed:', error);
+      }
     });
+  }
 
-    return this.handleResponse<T>(response);
+  // Unwraps a { data, success, message } envelope. Bodies that are not
+  // enveloped (bare arrays, /venues/search results) are returned as-is.
+  // A 2xx with success: false is still a failure and is thrown as one.
+  private unwrapEnvelope<T>(body: unknown): ApiResult<T> {
+    if (!isEnvelope(body)) {
+      return { data: body as T };
+    }
+
+    if (!body.success) {
+      const { message, errors, fieldErrors } = parseErrorBody(
+        body as Partial<ErrorResponse>
+      );
+      throw createApiError(
+        200,
+        message || 'Request was not successful',
+        errors,
+        fieldErrors
+      );
+    }
+
+    return { data: body.data as T, message: body.message || undefined };
   }
 
-  async patch<T>(endpoint: string, data?: any): Promise<T> {
-    if (!this.token) {
-      await this.loadToken();
+  // Concurrent identical GETs share one request. The shared request is only
+  // aborted once every caller waiting on it has cancelled.
+  private coalesce<T>(endpoint: string, options: RequestOptions): Promise<T> {
+    let shared = this.inFlightGets.get(endpoint);
+    if (!shared) {
+      const controller = new AbortController();
+      const entry: SharedRequest = {
+        controller,
+        subscribers: 0,
+        promise: this.request('GET', endpoint, undefined, {
+          ...options,
+          signal: controller.signal,
+        }).finally(() => {
+          if (this.inFlightGets.get(endpoint) === entry) {
+            this.inFlightGets.delete(endpoint);
+          }
+        }),
+      };
+      this.inFlightGets.set(endpoint, entry);
+      shared = entry;
+    }
+
+    const current = shared;
+    const { signal } = options;
+    current.subscribers++;
+    const release = () => {
+      current.subscribers--;
+      if (current.subscribers === 0) {
+        current.controller.abort();
+      }
+    };
+
+    if (!signal) {
+      return current.promise as Promise<T>;
     }
-    const response = await fetch(`${this.baseUrl}${endpoint}`, {
-      method: 'PATCH',
-      headers: this.getHeaders(),
-      body: data ? JSON.stringify(data) : undefined,
+    if (signal.aborted) {
+      release();
+      return Promise.reject(new RequestCancelledError());
+    }
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        release();
+        reject(new RequestCancelledError());
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+      current.promise
+        .then(value => resolve(value as T), reject)
+        .finally(() => signal.removeEventListener('abort', onAbort));
     });
+  }
 
-    return this.handleResponse<T>(response);
+  // Serves reference data from the persisted cache while it is fresh, and
+  // falls back to a stale copy when the backend cannot be reached
+  private async getReferenceData<T>(
+    endpoint: string,
+    options: RequestOptions
+  ): Promise<T> {
+    const cached = await referenceCache.read(endpoint);
+    if (cached && referenceCache.isFresh(endpoint, cached)) {
+      return cached.body as T;
+    }
+
+    try {
+      const body = await this.coalesce<T>(endpoint, options);
+      if (!isEnvelope(body) || body.success) {
+        await referenceCache.write(endpoint, body);
+      }
+      return body;
+    } catch (error) {
+      if (
+        cached &&
+        (error instanceof NetworkError || error instanceof TimeoutError)
+      ) {
+        logger.warn(`Serving cached ${endpoint} while the API is unreachable`);
+        return cached.body as T;
+      }
+      throw error;
+    }
   }
 
-  async delete<T>(endpoint: string): Promise<T> {
-    if (!this.token) {
-      await this.loadToken();
+  async get<T>(endpoint: string, options: RequestOptions = {}): Promise<T> {
+    if (referenceCache.ttlFor(endpoint) !== undefined) {
+      return this.getReferenceData<T>(endpoint, options);
     }
-    const response = await fetch(`${this.baseUrl}${endpoint}`, {
-      method: 'DELETE',
-      headers: this.getHeaders(),
-    });
+    return this.coalesce<T>(endpoint, options);
+  }
+
+  async post<T>(
+    endpoint: string,
+    data?: any,
+    options?: RequestOptions
+  ): Promise<T> {
+    return this.request<T>('POST', endpoint, data, options);
+  }
+
+  async put<T>(
+    endpoint: string,
+    data?: any,
+    options?: RequestOptions
+  ): Promise<T> {
+    return this.request<T>('PUT', endpoint, data, options);
+  }
+
+  async patch<T>(
+    endpoint: string,
+    data?: any,
+    options?: RequestOptions
+  ): Promise<T> {
+    return this.request<T>('PATCH', endpoint, data, options);
+  }
+
+  async delete<T>(endpoint: string, options?: RequestOptions): Promise<T> {
+    return this.request<T>('DELETE', endpoint, undefined, options);
+  }
+
+  // Envelope-aware helpers returning the typed payload and server message
+  async getData<T>(
+    endpoint: string,
+    options?: RequestOptions
+  ): Promise<ApiResult<T>> {
+    return this.unwrapEnvelope<T>(await this.get<unknown>(endpoint, options));
+  }
+
+  async postData<T>(
+    endpoint: string,
+    data?: any,
+    options?: RequestOptions
+  ): Promise<ApiResult<T>> {
+    return this.unwrapEnvelope<T>(
+      await this.post<unknown>(endpoint, data, options)
+    );
+  }
+
+  async putData<T>(
+    endpoint: string,
+    data?: any,
+    options?: RequestOptions
+  ): Promise<ApiResult<T>> {
+    return this.unwrapEnvelope<T>(
+      await this.put<unknown>(endpoint, data, options)
+    );
+  }
+
+  async patchData<T>(
+    endpoint: string,
+    data?: any,
+    options?: RequestOptions
+  ): Promise<ApiResult<T>> {
+    return this.unwrapEnvelope<T>(
+      await this.patch<unknown>(endpoint, data, options)
+    );
+  }
 
-    return this.handleResponse<T>(response);
+  async deleteData<T>(
+    endpoint: string,
+    options?: RequestOptions
+  ): Promise<ApiResult<T>> {
+    return this.unwrapEnvelope<T>(
+      await this.delete<unknown>(endpoint, options)
+    );
+  }
+
+  // Registers an interceptor after those already in the chain; returns a
+  // function that removes it again
+  use(interceptor: Interceptor): () => void {
+    this.interceptors.push(interceptor);
+    return () => {
+      this.interceptors = this.interceptors.filter(
+        registered => registered !== interceptor
+      );
+    };
+  }
+
+  // Forgets every cached response, e.g. after switching backends
+  clearHttpCache(): void {
+    this.httpCache.clear();
+  }
+
+  // Backend the client talks to; see apiEnvironment for switching at runtime
+  getBaseUrl(): string {
+    return this.baseUrl;
+  }
+
+  setBaseUrl(baseUrl: string): void {
+    this.baseUrl = baseUrl;
+  }
+
+  // Session management
+  async setSession(tokens: SessionTokens): Promise<void> {
+    await this.saveSession(tokens);
+  }
+
+  async clearSession(): Promise<void> {
+    await this.removeSession();
+  }
+
+  // Subscribe to forced logouts caused by a failed token refresh
+  onSessionExpired(listener: SessionExpiredListener): () => void {
+    this.sessionExpiredListeners.add(listener);
+    return () => {
+      this.sessionExpiredListeners.delete(listener);
+    };
+  }
+
+  // Subscribe to tokens being stored, refreshed or removed
+  onSessionChanged(listener: SessionChangedListener): () => void {
+    this.sessionChangedListeners.add(listener);
+    return () => {
+      this.sessionChangedListeners.delete(listener);
+    };
   }
 
   // Auth token management
   async setAuthToken(token: string): Promise<void> {
-    await this.saveToken(token);
+    await this.saveSession({ accessToken: token });
   }
 
   async clearAuthToken(): Promise<void> {
-    await this.removeToken();
+    await this.removeSession();
   }
 
   async getAuthToken(): Promise<string | null> {
@@ -193,18 +899,16 @@ class ApiClient {
 
   // Synchronous methods for compatibility with AuthService
   setToken(token: string): void {
-    this.token = token;
     // Also save to storage asynchronously
-    this.saveToken(token).catch(error => {
-      console.error('Failed to save token:', error);
+    this.saveSession({ accessToken: token }).catch(error => {
+      logger.error('Failed to save token:', error);
     });
   }
 
   clearToken(): void {
-    this.token = null;
     // Also clear from storage asynchronously
-    this.removeToken().catch(error => {
-      console.error('Failed to clear token:', error);
+    this.removeSession().catch(error => {
+      logger.error('Failed to clear token:', error);
     });
   }
 
@@ -0,0 +1,136 @@
+import { logger } from '../utils/logger';
+import { platformStorage } from '../utils/platformStorage';
+import { apiClient, DEFAULT_API_BASE_URL } from './apiClient';
+import { ApiError } from './apiErrors';
+import { referenceCache } from './referenceCache';
+
+const STORAGE_KEY = 'apiEnvironment';
+
+export type ApiEnvironmentName =
+  | 'development'
+  | 'staging'
+  | 'production'
+  | 'custom';
+
+export interface ApiEnvironment {
+  name: ApiEnvironmentName;
+  label: string;
+  baseUrl: string;
+}
+
+type ApiEnvironmentListener = (environment: ApiEnvironment) => void;
+
+const ENVIRONMENT_LABELS: Record<ApiEnvironmentName, string> = {
+  development: 'Development',
+  staging: 'Staging',
+  production: 'Production',
+  custom: 'Custom',
+};
+
+// Named backends QA can switch between. Staging and production are only
+// offered when the build knows their URLs.
+const PRESET_URLS: Record<Exclude<ApiEnvironmentName, 'custom'>, string> = {
+  development: DEFAULT_API_BASE_URL,
+  staging: process.env.EXPO_PUBLIC_STAGING_API_URL || '',
+  production: process.env.EXPO_PUBLIC_PRODUCTION_API_URL || '',
+};
+
+const createEnvironment = (
+  name: ApiEnvironmentName,
+  baseUrl: string
+): ApiEnvironment => ({ name, label: ENVIRONMENT_LABELS[name], baseUrl });
+
+// Accepts http(s) URLs with a host; drops trailing slashes so endpoints
+// can be appended as-is
+const normalizeBaseUrl = (url: string): string | null => {
+  const trimmed = url.trim().replace(/\/+$/, '');
+  return /^https?:\/\/[^\s/?#]+(\/[^\s?#]*)?$/i.test(trimmed) ? trimmed : null;
+};
+
+// Selects the backend ApiClient talks to. The choice survives restarts;
+// switching ends the session, since tokens and cached data belong to the
+// backend that issued them.
+class ApiEnvironmentManager {
+  private current = createEnvironment('development', DEFAULT_API_BASE_URL);
+  private listeners = new Set<ApiEnvironmentListener>();
+
+  // Environments with a known URL, in menu order
+  getPresets(): ApiEnvironment[] {
+    return (Object.keys(PRESET_URLS) as (keyof typeof PRESET_URLS)[])
+      .filter(name => !!PRESET_URLS[name])
+      .map(name => createEnvironment(name, PRESET_URLS[name]));
+  }
+
+  getCurrent(): ApiEnvironment {
+    return this.current;
+  }
+
+  // Re-applies the environment chosen in an earlier session
+  async restore(): Promise<void> {
+    try {
+      const stored = await platformStorage.getItem(STORAGE_KEY);
+      if (!stored) {
+        return;
+      }
+      const { name, baseUrl } = JSON.parse(stored) as ApiEnvironment;
+      const presetUrl = name === 'custom' ? baseUrl : PRESET_URLS[name];
+      const normalized = presetUrl ? normalizeBaseUrl(presetUrl) : null;
+      if (!normalized) {
+        logger.warn('Ignoring stored API environment:', stored);
+        await platformStorage.removeItem(STORAGE_KEY);
+        return;
+      }
+      this.apply(createEnvironment(name, normalized));
+    } catch (error) {
+      logger.error('Failed to restore API environment:', error);
+    }
+  }
+
+  // The environment a switch would select, without switching. Throws for a
+  // URL switchTo would reject, so callers can check before ending a session.
+  resolve(name: ApiEnvironmentName, customUrl?: string): ApiEnvironment {
+    const url = name === 'custom' ? customUrl : PRESET_URLS[name];
+    const baseUrl = url ? normalizeBaseUrl(url) : null;
+    if (!baseUrl) {
+      throw new ApiError('Invalid API URL', 400, [
+        name === 'custom'
+          ? 'Enter a URL starting with http:// or https://'
+          : `No URL is configured for ${ENVIRONMENT_LABELS[name]}`,
+      ]);
+    }
+    return createEnvironment(name, baseUrl);
+  }
+
+  // Switches to a named environment, or to `customUrl` for 'custom'
+  async switchTo(
+    name: ApiEnvironmentName,
+    customUrl?: string
+  ): Promise<ApiEnvironment> {
+    const environment = this.resolve(name, customUrl);
+    logger.info('Switching API environment to', environment.baseUrl);
+
+    await apiClient.clearSession();
+    apiClient.clearHttpCache();
+    await referenceCache.clear();
+    await platformStorage.setItem(STORAGE_KEY, JSON.stringify(environment));
+    this.apply(environment);
+    return environment;
+  }
+
+  // Subscribe to environment changes; returns an unsubscribe function
+  subscribe(listener: ApiEnvironmentListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private apply(environment: ApiEnvironment): void {
+    this.current = environment;
+    apiClient.setBaseUrl(environment.baseUrl);
+    this.listeners.forEach(listener => listener(environment));
+  }
+}
+
+export const apiEnvironment = new ApiEnvironmentManager();
+export default apiEnvironment;
@@ -0,0 +1,216 @@
+import { ValidationError } from '../types';
+
+// Base class for every error raised while talking to the backend
+export class ApiError extends Error {
+  // Number of attempts made before this error was thrown
+  attempts = 1;
+  // Server-requested wait before retrying (from a Retry-After header)
+  retryAfterMs?: number;
+  // The server answered from an earlier request with the same idempotency
+  // key (Idempotent-Replayed: true)
+  idempotentReplay = false;
+  // Per-field problems reported by the backend, if any
+  fieldErrors: ValidationError[] = [];
+
+  constructor(
+    message: string,
+    public status: number,
+    public errors?: string[]
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+// The request never reached the server (offline, DNS, connection reset)
+export class NetworkError extends ApiError {
+  constructor(errors?: string[]) {
+    super('Network request failed', 0, errors);
+    this.name = 'NetworkError';
+  }
+}
+
+// Thrown when a request gets no response within its timeout
+export class TimeoutError extends ApiError {
+  constructor(public timeoutMs: number) {
+    super(`Request timed out after ${timeoutMs}ms`, 408, [
+      'The server took too long to respond',
+    ]);
+    this.name = 'TimeoutError';
+  }
+}
+
+// Thrown when the caller aborts a request through its AbortSignal
+export class RequestCancelledError extends ApiError {
+  constructor() {
+    super('Request was cancelled', 499, ['Request aborted by the caller']);
+    this.name = 'RequestCancelledError';
+  }
+}
+
+// 400 / 422: the request body failed server-side validation
+export class ValidationFailedError extends ApiError {
+  constructor(
+    message: string,
+    status: number,
+    errors?: string[],
+    fieldErrors: ValidationError[] = []
+  ) {
+    super(message, status, errors);
+    this.name = 'ValidationFailedError';
+    this.fieldErrors = fieldErrors;
+  }
+}
+
+// 401: missing, invalid or expired credentials
+export class UnauthorizedError extends ApiError {
+  constructor(message: string, errors?: string[]) {
+    super(message, 401, errors);
+    this.name = 'UnauthorizedError';
+  }
+}
+
+// 403: authenticated but not allowed to perform the action
+export class ForbiddenError extends ApiError {
+  constructor(message: string, errors?: string[]) {
+    super(message, 403, errors);
+    this.name = 'ForbiddenError';
+  }
+}
+
+// 404: the requested resource does not exist
+export class NotFoundError extends ApiError {
+  constructor(message: string, errors?: string[]) {
+    super(message, 404, errors);
+    this.name = 'NotFoundError';
+  }
+}
+
+// 409: the request conflicts with existing state (e.g. username taken)
+export class ConflictError extends ApiError {
+  constructor(
+    message: string,
+    errors?: string[],
+    fieldErrors: ValidationError[] = []
+  ) {
+    super(message, 409, errors);
+    this.name = 'ConflictError';
+    this.fieldErrors = fieldErrors;
+  }
+}
+
+// Thrown for a 409 when the server has already processed a request with the
+// same idempotency key, meaning the original attempt went through. Only used
+// when the key was sent before or the server says so; any other 409 is a
+// real conflict.
+export class DuplicateRequestError extends ConflictError {
+  constructor(message: string, errors?: string[]) {
+    super(message, errors);
+    this.name = 'DuplicateRequestError';
+  }
+}
+
+// 5xx: the backend failed to handle an otherwise valid request
+export class ServerError extends ApiError {
+  constructor(message: string, status: number, errors?: string[]) {
+    super(message, status, errors);
+    this.name = 'ServerError';
+  }
+}
+
+// The device is offline, so the mutation was saved to the outbox and will be
+// sent automatically once connectivity returns
+export class MutationQueuedError extends ApiError {
+  constructor(public outboxItemId: string) {
+    super('You are offline. This will be sent once you reconnect.', 0, [
+      'Saved to the offline outbox',
+    ]);
+    this.name = 'MutationQueuedError';
+  }
+}
+
+// The response arrived but did not match the declared schema
+export class DecodeError extends ApiError {
+  constructor(
+    public path: string,
+    public expected: string,
+    public received: string
+  ) {
+    super(`Unexpected response from server at ${path}`, 500, [
+      `Expected ${expected} at ${path} but received ${received}`,
+    ]);
+    this.name = 'DecodeError';
+  }
+}
+
+// Maps an HTTP error status onto the matching error class
+export const createApiError = (
+  status: number,
+  message: string,
+  errors?: string[],
+  fieldErrors: ValidationError[] = []
+): ApiError => {
+  if (status === 400 || status === 422) {
+    return new ValidationFailedError(message, status, errors, fieldErrors);
+  }
+  if (status === 401) {
+    return new UnauthorizedError(message, errors);
+  }
+  if (status === 403) {
+    return new ForbiddenError(message, errors);
+  }
+  if (status === 404) {
+    return new NotFoundError(message, errors);
+  }
+  if (status === 409) {
+    return new ConflictError(message, errors, fieldErrors);
+  }
+  if (status >= 500) {
+    return new ServerError(message, status, errors);
+  }
+
+  const error = new ApiError(message, status, errors);
+  error.fieldErrors = fieldErrors;
+  return error;
+};
+
+// User-facing description of an error, noting when retries were exhausted
+export const describeApiError = (error: unknown, fallback: string): string => {
+  const message =
+    error instanceof Error && error.message ? error.message : fallback;
+  if (error instanceof ApiError && error.attempts > 1) {
+    return `${message} (gave up after ${error.attempts} attempts)`;
+  }
+  return message;
+};
+
+// Why an ID token from a sign-in provider was rejected
+export type IdTokenFailure =
+  | 'malformed'
+  | 'unsupported-algorithm'
+  | 'unknown-key'
+  | 'unsuitable-key'
+  | 'signature'
+  | 'issuer'
+  | 'audience'
+  | 'expired'
+  | 'nonce';
+
+// The user closed an identity provider's sign-in page without finishing.
+// Not a failure: screens simply stay as they were.
+export class SignInCancelledError extends ApiError {
+  constructor(providerLabel: string) {
+    super(`${providerLabel} sign-in was cancelled`, 499, [
+      'Sign-in cancelled by the user',
+    ]);
+    this.name = 'SignInCancelledError';
+  }
+}
+
+// An ID token failed verification, so the sign-in must not be trusted
+export class IdTokenError extends UnauthorizedError {
+  constructor(public reason: IdTokenFailure, detail: string) {
+    super('Sign-in could not be verified', [detail]);
+    this.name = 'IdTokenError';
+  }
+}
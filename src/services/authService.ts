@@ -3,48 +3,53 @@ import {
   CompleteProfileData,
   CompleteProfileRequest,
   CreateUserRequest,
-  GoogleAuthRequest,
   LoginRequest,
+  ProviderAuthRequest,
   UserResponse,
 } from '../types';
-import { apiClient, ApiError } from './apiClient';
-
+import { decode } from '../utils/decoder';
+import { logger } from '../utils/logger';
+import { apiClient, CallOptions } from './apiClient';
+import { ApiError, NotFoundError, UnauthorizedError } from './apiErrors';
+import { loginResponseSchema, userResponseSchema } from './schemas';
+
+// Talks to the auth endpoints. Tokens it receives are not stored here;
+// sessionManager starts the session with them.
 class AuthService {
   // Username/email and password login (matches /auth/login endpoint)
-  async login(loginData: LoginRequest): Promise<AuthResponseData> {
+  async login(
+    loginData: LoginRequest,
+    options?: CallOptions
+  ): Promise<AuthResponseData> {
     try {
-      console.log('Attempting login with:', loginData);
+      logger.debug('Attempting login with:', loginData);
 
-      const response = await apiClient.post<AuthResponseData>(
+      const { data } = await apiClient.postData<unknown>(
         '/auth/login',
-        loginData
+        loginData,
+        options
       );
 
-      console.log('Auth service received response:', response);
-
-      // Backend returns data in format: { data: { user: {...} }, message, success }
-      // We need to extract the user and transform to expected format
-      const backendResponse = response as any;
-      if (backendResponse.data && backendResponse.data.user) {
-        const authResponse: AuthResponseData = {
-          user: backendResponse.data.user,
-          profileComplete: true, // Assuming profile is complete if login succeeds
-          token: backendResponse.token || 'temp-token', // Backend might not return token in login
-        };
+      logger.debug('Auth service received response:', data);
 
-        console.log('Transformed auth response:', authResponse);
+      // Backend returns data in format: { data: { user, token, refreshToken }, message, success }
+      const { user, token, refreshToken } = decode(
+        loginResponseSchema,
+        data,
+        'login'
+      );
+      const authResponse: AuthResponseData = {
+        user,
+        profileComplete: true, // Assuming profile is complete if login succeeds
+        token,
+        refreshToken,
+      };
 
-        // If the response includes a token, store it
-        if (authResponse.token) {
-          apiClient.setToken(authResponse.token);
-        }
+      logger.debug('Transformed auth response:', authResponse);
 
-        return authResponse;
-      } else {
-        throw new Error('Invalid response format from backend');
-      }
+      return authResponse;
     } catch (error) {
-      console.error('Login error:', error);
+      logger.error('Login error:', error);
       if (error instanceof ApiError) {
         throw error;
       }
@@ -54,26 +59,33 @@ class AuthService {
     }
   }
 
-  // Google OAuth login (matches /auth/google endpoint)
-  async googleLogin(credential: string): Promise<AuthResponseData> {
+  // Identity provider login (matches /auth/{provider}, e.g. /auth/google).
+  // The backend verifies the provider's ID token and signs the user in,
+  // creating the account on first use.
+  async providerLogin(
+    providerId: string,
+    idToken: string,
+    options?: CallOptions
+  ): Promise<AuthResponseData> {
     try {
-      const googleAuthRequest: GoogleAuthRequest = { token: credential };
-      const response = await apiClient.post<AuthResponseData>(
-        '/auth/google',
-        googleAuthRequest
+      const request: ProviderAuthRequest = { token: idToken };
+      const { data: response } = await apiClient.postData<AuthResponseData>(
+        `/auth/${encodeURIComponent(providerId)}`,
+        request,
+        options
+      );
+      response.user = decode(
+        userResponseSchema,
+        response.user,
+        `${providerId}-login.user`
       );
-
-      // If the response includes a token, store it
-      if (response.token) {
-        apiClient.setToken(response.token);
-      }
 
       return response;
     } catch (error) {
       if (error instanceof ApiError) {
         throw error;
       }
-      throw new ApiError('Google login failed', 500, [
+      throw new ApiError('Provider login failed', 500, [
         error instanceof Error ? error.message : 'Unknown error',
       ]);
     }
@@ -81,7 +93,8 @@ class AuthService {
 
   // Complete user profile (matches POST /users endpoint)
   async completeProfile(
-    profileData: CompleteProfileRequest
+    profileData: CompleteProfileRequest,
+    options?: CallOptions
   ): Promise<UserResponse> {
     try {
       const createUserRequest: CreateUserRequest = {
@@ -96,15 +109,12 @@ class AuthService {
         promptAnswers: profileData.promptAnswers,
       };
 
-      const response = await apiClient.post<any>('/users', createUserRequest);
-
-      // Backend returns data in format: { data: { user data }, message, success }
-      // Extract just the user data
-      if (response.data) {
-        return response.data;
-      } else {
-        throw new Error('Invalid response format from backend');
-      }
+      const { data } = await apiClient.postData<unknown>(
+        '/users',
+        createUserRequest,
+        options
+      );
+      return decode(userResponseSchema, data, 'user');
     } catch (error) {
       if (error instanceof ApiError) {
         throw error;
@@ -118,14 +128,16 @@ class AuthService {
   // Complete existing user profile (matches /users/{id}/complete-profile endpoint)
   async completeUserProfile(
     userId: string,
-    profileData: CompleteProfileData
+    profileData: CompleteProfileData,
+    options?: CallOptions
   ): Promise<UserResponse> {
     try {
-      const response = await apiClient.post<UserResponse>(
+      const { data } = await apiClient.postData<unknown>(
         `/users/${userId}/complete-profile`,
-        profileData
+        profileData,
+        options
       );
-      return response;
+      return decode(userResponseSchema, data, 'user');
     } catch (error) {
       if (error instanceof ApiError) {
         throw error;
@@ -141,13 +153,10 @@ class AuthService {
     try {
       // Note: /auth/logout endpoint not in OpenAPI spec
       // await apiClient.post<void>('/auth/logout');
-      apiClient.clearToken();
-
-      // Google sign out temporarily disabled
-      // await googleAuthService.signOut();
+      await apiClient.clearSession();
     } catch (error) {
-      // Clear token even if logout request fails
-      apiClient.clearToken();
+      // Clear session even if logout request fails
+      await apiClient.clearSession();
       if (error instanceof ApiError) {
         throw error;
       }
@@ -157,34 +166,29 @@ class AuthService {
     }
   }
 
-  // Get current user (placeholder - not in OpenAPI spec)
-  async getCurrentUser(): Promise<AuthResponseData> {
+  // Get the signed-in user from the server (matches GET /auth/me). Used on
+  // launch to check that the stored session is still valid.
+  async getCurrentUser(options?: CallOptions): Promise<AuthResponseData> {
     try {
-      // Note: This endpoint pattern is not in the OpenAPI spec
-      // You may need to implement a /auth/me endpoint or use a different approach
-      // For now, this is a placeholder implementation
-
-      // Placeholder: assume user is authenticated if token exists
-      const token = apiClient.getToken();
-      if (!token) {
-        throw new ApiError('Not authenticated', 401, [
+      if (!(await apiClient.isAuthenticated())) {
+        throw new UnauthorizedError('Not authenticated', [
           'No authentication token',
         ]);
       }
 
-      // This is a mock response - you'll need to implement proper user retrieval
+      const { data } = await apiClient.getData<unknown>('/auth/me', options);
+      const user = decode(userResponseSchema, data, 'user');
       return {
-        user: {
-          id: 'placeholder-id',
-          username: 'placeholder',
-          email: 'placeholder@example.com',
-        },
-        profileComplete: true,
+        user,
+        profileComplete: !!(user.dob && user.gender && user.orientation),
       };
     } catch (error) {
-      if (error instanceof ApiError && error.status === 401) {
-        // Clear invalid token
-        apiClient.clearToken();
+      // The session was revoked or the account no longer exists
+      if (
+        error instanceof UnauthorizedError ||
+        error instanceof NotFoundError
+      ) {
+        await apiClient.clearSession();
       }
       if (error instanceof ApiError) {
         throw error;
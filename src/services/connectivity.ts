@@ -0,0 +1,76 @@
+import NetInfo, { NetInfoState } from '@react-native-community/netinfo';
+import { focusManager, onlineManager } from '@tanstack/react-query';
+import { AppState, AppStateStatus, Platform } from 'react-native';
+import { logger } from '../utils/logger';
+
+// Unknown reachability (null) counts as online until proven otherwise
+export const isConnected = (state: NetInfoState): boolean =>
+  state.isConnected !== false && state.isInternetReachable !== false;
+
+// Feeds device connectivity and app focus into React Query, so queries pause
+// while offline and refetch on reconnect or when the app is foregrounded.
+// Everything else reads connectivity from onlineManager.
+class ConnectivityMonitor {
+  private started = false;
+  private deviceOnline = true;
+  private alwaysOnline = false;
+
+  // Installs the listeners; returns a function that restores React Query's
+  // defaults
+  start(): () => void {
+    if (this.started) {
+      return () => undefined;
+    }
+    this.started = true;
+
+    onlineManager.setEventListener(setOnline =>
+      NetInfo.addEventListener(state => {
+        this.deviceOnline = isConnected(state);
+        const online = this.alwaysOnline || this.deviceOnline;
+        if (online !== onlineManager.isOnline()) {
+          logger.info(online ? 'Back online' : 'Device went offline');
+        }
+        setOnline(online);
+      })
+    );
+
+    // On web React Query already listens for visibility changes
+    if (Platform.OS !== 'web') {
+      focusManager.setEventListener(handleFocus => {
+        const subscription = AppState.addEventListener(
+          'change',
+          (status: AppStateStatus) => handleFocus(status === 'active')
+        );
+        return () => subscription.remove();
+      });
+    }
+
+    return () => {
+      this.started = false;
+      // An empty listener stops the NetInfo and AppState subscriptions
+      onlineManager.setEventListener(() => undefined);
+      focusManager.setEventListener(() => undefined);
+      this.deviceOnline = true;
+      onlineManager.setOnline(true);
+    };
+  }
+
+  // Reports the app as online whatever the device says, e.g. while demo
+  // mode serves every request in-process
+  setAlwaysOnline(alwaysOnline: boolean): void {
+    this.alwaysOnline = alwaysOnline;
+    onlineManager.setOnline(alwaysOnline || this.deviceOnline);
+  }
+
+  isOnline(): boolean {
+    return onlineManager.isOnline();
+  }
+
+  // Subscribe to connectivity changes; returns an unsubscribe function
+  subscribe(listener: (isOnline: boolean) => void): () => void {
+    return onlineManager.subscribe(listener);
+  }
+}
+
+export const connectivity = new ConnectivityMonitor();
+export default connectivity;
@@ -8,28 +8,137 @@ import {
   JoinDateEventRequest,
   normalizeDateEvent,
 } from '../types';
-import { apiClient, ApiError } from './apiClient';
+import { onlineManager } from '@tanstack/react-query';
+import { decode } from '../utils/decoder';
+import { idempotencyKeys } from '../utils/idempotencyKeys';
+import { logger } from '../utils/logger';
+import { apiClient, CallOptions, RequestOptions } from './apiClient';
+import {
+  ApiError,
+  MutationQueuedError,
+  NetworkError,
+  RequestCancelledError,
+} from './apiErrors';
+import {
+  mutationOutbox,
+  OutboxMutationType,
+  OutboxPayloads,
+} from './mutationOutbox';
+import {
+  dateEventAttendeesSchema,
+  dateEventListSchema,
+  dateEventSchema,
+  dateRequestListSchema,
+  dateRequestSchema,
+} from './schemas';
+
+export interface MutationOptions extends CallOptions {
+  // Save the mutation to the offline outbox instead of failing when the
+  // device is offline (default true)
+  queueWhenOffline?: boolean;
+}
 
 class DateEventService {
+  constructor() {
+    // The outbox replays queued mutations through the same methods, with
+    // queuing disabled so a failed replay is not queued a second time
+    const replayOptions: MutationOptions = { queueWhenOffline: false };
+    mutationOutbox.setHandler('create-date-event', payload =>
+      this.createDateEvent(payload, replayOptions)
+    );
+    mutationOutbox.setHandler('join-date-event', payload =>
+      this.requestToJoinDateEvent(payload, replayOptions)
+    );
+    mutationOutbox.setHandler('respond-date-request', payload =>
+      this.respondToDateRequest(
+        payload.requestId,
+        payload.response,
+        replayOptions
+      )
+    );
+  }
+
+  // Sends a mutation, or queues it in the outbox when the device is offline
+  // and reports that with a MutationQueuedError
+  private async queueWhenOffline<K extends OutboxMutationType, T>(
+    type: K,
+    payload: OutboxPayloads[K],
+    options: MutationOptions | undefined,
+    send: () => Promise<T>
+  ): Promise<T> {
+    const canQueue = options?.queueWhenOffline !== false;
+    if (canQueue && !onlineManager.isOnline()) {
+      const item = await mutationOutbox.enqueue(type, payload);
+      throw new MutationQueuedError(item.id);
+    }
+
+    try {
+      return await send();
+    } catch (error) {
+      if (canQueue && error instanceof NetworkError) {
+        const item = await mutationOutbox.enqueue(type, payload);
+        throw new MutationQueuedError(item.id);
+      }
+      throw error;
+    }
+  }
+  // Runs a mutation with a persisted idempotency key. The key is kept while
+  // the outcome is unknown (network failures, 5xx) so that a later retry,
+  // even after an app restart, is recognised by the server as the same request.
+  private async withIdempotencyKey<T>(
+    fingerprint: string,
+    mutation: (
+      idempotency: Pick<
+        RequestOptions,
+        'idempotencyKey' | 'idempotencyKeyReused'
+      >
+    ) => Promise<T>
+  ): Promise<T> {
+    const { key, reused } = await idempotencyKeys.acquire(fingerprint);
+    try {
+      const result = await mutation({
+        idempotencyKey: key,
+        idempotencyKeyReused: reused,
+      });
+      await idempotencyKeys.release(fingerprint);
+      return result;
+    } catch (error) {
+      const outcomeUnknown =
+        error instanceof RequestCancelledError ||
+        (error instanceof ApiError &&
+          (error.status === 0 || error.status === 408 || error.status >= 500));
+      if (!outcomeUnknown) {
+        await idempotencyKeys.release(fingerprint);
+      }
+      throw error;
+    }
+  }
+
+  // Normalizes and validates a list of events from any date-events endpoint
+  private decodeEvents(events: unknown, path: string): DateEvent[] {
+    // Normalize the response data to handle casing inconsistencies
+    return decode(
+      dateEventListSchema,
+      Array.isArray(events) ? events.map(normalizeDateEvent) : events,
+      path
+    );
+  }
+
+  private decodeEvent(event: unknown, path: string): DateEvent {
+    return decode(dateEventSchema, normalizeDateEvent(event), path);
+  }
+
   // Get all date events (matches GET /date-events)
-  async getDateEvents(): Promise<DateEvent[]> {
+  async getDateEvents(options?: CallOptions): Promise<DateEvent[]> {
     try {
-      const response = await apiClient.get<any>('/date-events');
-      console.log('Date events service received:', response);
-
-      // Backend returns data in format: { data: [...events...], message, success }
-      // We need to extract the events array
-      const events =
-        response.data && Array.isArray(response.data)
-          ? response.data
-          : Array.isArray(response)
-          ? response
-          : [];
-
-      console.log('Extracted events:', events);
-      return events.map(normalizeDateEvent);
+      const { data: events } = await apiClient.getData<unknown>(
+        '/date-events',
+        options
+      );
+      logger.debug('Date events service received:', events);
+      return this.decodeEvents(events, 'date-events');
     } catch (error) {
-      console.error('Date events service error:', error);
+      logger.error('Date events service error:', error);
       if (error instanceof ApiError) {
         throw error;
       }
@@ -40,14 +149,31 @@ class DateEventService {
   }
 
   // Create a new date event (matches POST /date-events)
-  async createDateEvent(eventData: CreateDateEventRequest): Promise<DateEvent> {
+  async createDateEvent(
+    eventData: CreateDateEventRequest,
+    options?: MutationOptions
+  ): Promise<DateEvent> {
     try {
-      const response = await apiClient.post<DateEvent>(
-        '/date-events',
-        eventData
+      const fingerprint = [
+        'create-date-event',
+        eventData.hostUserId,
+        eventData.barId,
+        eventData.eventDate,
+        eventData.eventTime,
+      ].join(':');
+      const response = await this.queueWhenOffline(
+        'create-date-event',
+        eventData,
+        options,
+        () =>
+          this.withIdempotencyKey(fingerprint, idempotency =>
+            apiClient.postData<unknown>('/date-events', eventData, {
+              ...options,
+              ...idempotency,
+            })
+          )
       );
-      // Normalize the response data to handle casing inconsistencies
-      return normalizeDateEvent(response);
+      return this.decodeEvent(response.data, 'date-event');
     } catch (error) {
       if (error instanceof ApiError) {
         throw error;
@@ -60,7 +186,8 @@ class DateEventService {
 
   // Get compatible date events in area (matches GET /date-events/in-area v2.6.0)
   async getDateEventsInArea(
-    params: DateEventsInAreaRequest
+    params: DateEventsInAreaRequest,
+    options?: CallOptions
   ): Promise<DateEvent[]> {
     try {
       // Validate required parameters
@@ -90,26 +217,15 @@ class DateEventService {
           params.excludeRequested.toString()
         );
       }
-      const response = await apiClient.get<any>(
-        `/date-events/in-area?${queryParams}`
+      const { data: events } = await apiClient.getData<unknown>(
+        `/date-events/in-area?${queryParams}`,
+        options
       );
 
-      console.log('Date events in area API response:', response);
-
-      // Backend returns data in format: { data: [...events...], message, success }
-      // We need to extract the events array
-      const events =
-        response.data && Array.isArray(response.data)
-          ? response.data
-          : Array.isArray(response)
-          ? response
-          : [];
-
-      console.log('Extracted events before normalization:', events);
+      logger.debug('Extracted events before normalization:', events);
 
-      // Normalize the response data to handle casing inconsistencies
-      const normalizedEvents = events.map(normalizeDateEvent);
-      console.log('Events after normalization:', normalizedEvents);
+      const normalizedEvents = this.decodeEvents(events, 'date-events');
+      logger.debug('Events after normalization:', normalizedEvents);
 
       return normalizedEvents;
     } catch (error) {
@@ -124,7 +240,8 @@ class DateEventService {
 
   // Request to join a date event (matches POST /date-events/request)
   async requestToJoinDateEvent(
-    requestData: JoinDateEventRequest
+    requestData: JoinDateEventRequest,
+    options?: MutationOptions
   ): Promise<DateRequest> {
     try {
       // Validate required parameters
@@ -139,11 +256,24 @@ class DateEventService {
         ]);
       }
 
-      const response = await apiClient.post<DateRequest>(
-        '/date-events/request',
-        requestData
+      const fingerprint = [
+        'join-date-event',
+        requestData.dateEventId,
+        requestData.requesterId,
+      ].join(':');
+      const response = await this.queueWhenOffline(
+        'join-date-event',
+        requestData,
+        options,
+        () =>
+          this.withIdempotencyKey(fingerprint, idempotency =>
+            apiClient.postData<unknown>('/date-events/request', requestData, {
+              ...options,
+              ...idempotency,
+            })
+          )
       );
-      return response;
+      return decode(dateRequestSchema, response.data, 'date-request');
     } catch (error) {
       if (error instanceof ApiError) {
         throw error;
@@ -157,7 +287,8 @@ class DateEventService {
   // Respond to a date request (matches POST /date-events/request/{id}/respond)
   async respondToDateRequest(
     requestId: string,
-    response: DateRequestResponse
+    response: DateRequestResponse,
+    options?: MutationOptions
   ): Promise<DateRequest> {
     try {
       // Validate required parameters
@@ -172,11 +303,19 @@ class DateEventService {
         ]);
       }
 
-      const responseData = await apiClient.post<DateRequest>(
-        `/date-events/request/${requestId}/respond`,
-        response
+      // Responding twice with the same answer is safe, so allow retries
+      const { data } = await this.queueWhenOffline(
+        'respond-date-request',
+        { requestId, response },
+        options,
+        () =>
+          apiClient.postData<unknown>(
+            `/date-events/request/${requestId}/respond`,
+            response,
+            { ...options, idempotent: true }
+          )
       );
-      return responseData;
+      return decode(dateRequestSchema, data, 'date-request');
     } catch (error) {
       if (error instanceof ApiError) {
         throw error;
@@ -189,7 +328,10 @@ class DateEventService {
   // Get date requests for events hosted by a specific user
   // Since the OpenAPI spec doesn't have specific endpoints for user requests,
   // we get all date events and filter for the ones hosted by this user
-  async getIncomingDateRequests(hostUserId: string): Promise<DateRequest[]> {
+  async getIncomingDateRequests(
+    hostUserId: string,
+    options?: CallOptions
+  ): Promise<DateRequest[]> {
     try {
       // Validate required parameters
       if (!hostUserId || hostUserId.trim() === '') {
@@ -199,7 +341,7 @@ class DateEventService {
       }
 
       // Get all date events and filter for events hosted by this user
-      const allEvents = await this.getDateEvents();
+      const allEvents = await this.getDateEvents(options);
       const myEvents = allEvents.filter(
         event => event.hostUserId === hostUserId
       );
@@ -231,7 +373,10 @@ class DateEventService {
   // Get date requests made by a specific user
   // Since the OpenAPI spec doesn't have specific endpoints for user requests,
   // we get all date events and filter for requests made by this user
-  async getOutgoingDateRequests(requesterId: string): Promise<DateRequest[]> {
+  async getOutgoingDateRequests(
+    requesterId: string,
+    options?: CallOptions
+  ): Promise<DateRequest[]> {
     try {
       // Validate required parameters
       if (!requesterId || requesterId.trim() === '') {
@@ -241,7 +386,7 @@ class DateEventService {
       }
 
       // Get all date events and find requests made by this user
-      const allEvents = await this.getDateEvents();
+      const allEvents = await this.getDateEvents(options);
       const allRequests: DateRequest[] = [];
 
       allEvents.forEach(event => {
@@ -271,7 +416,10 @@ class DateEventService {
   }
 
   // Get all events for a specific user (matches GET /date-events/user/{userId}/events)
-  async getUserEvents(userId: string): Promise<DateEvent[]> {
+  async getUserEvents(
+    userId: string,
+    options?: CallOptions
+  ): Promise<DateEvent[]> {
     try {
       // Validate required parameters
       if (!userId || userId.trim() === '') {
@@ -280,13 +428,11 @@ class DateEventService {
         ]);
       }
 
-      const response = await apiClient.get<DateEvent[]>(
-        `/date-events/user/${userId}/events`
+      const { data: events } = await apiClient.getData<unknown>(
+        `/date-events/user/${userId}/events`,
+        options
       );
-      // Normalize the response data to handle casing inconsistencies
-      return Array.isArray(response)
-        ? response.map(normalizeDateEvent)
-        : response;
+      return this.decodeEvents(events, 'user-events');
     } catch (error) {
       if (error instanceof ApiError) {
         throw error;
@@ -298,7 +444,10 @@ class DateEventService {
   }
 
   // Get active events for a specific user (matches GET /date-events/user/{userId}/active)
-  async getUserActiveEvents(userId: string): Promise<DateEvent[]> {
+  async getUserActiveEvents(
+    userId: string,
+    options?: CallOptions
+  ): Promise<DateEvent[]> {
     try {
       // Validate required parameters
       if (!userId || userId.trim() === '') {
@@ -307,13 +456,11 @@ class DateEventService {
         ]);
       }
 
-      const response = await apiClient.get<DateEvent[]>(
-        `/date-events/user/${userId}/active`
+      const { data: events } = await apiClient.getData<unknown>(
+        `/date-events/user/${userId}/active`,
+        options
       );
-      // Normalize the response data to handle casing inconsistencies
-      return Array.isArray(response)
-        ? response.map(normalizeDateEvent)
-        : response;
+      return this.decodeEvents(events, 'user-active-events');
     } catch (error) {
       if (error instanceof ApiError) {
         throw error;
@@ -327,12 +474,16 @@ class DateEventService {
   // Legacy methods for backward compatibility (these endpoints are not in the OpenAPI spec)
 
   // Get date event by ID (placeholder - not in OpenAPI spec)
-  async getDateEvent(eventId: string): Promise<DateEvent> {
+  async getDateEvent(
+    eventId: string,
+    options?: CallOptions
+  ): Promise<DateEvent> {
     try {
-      const response = await apiClient.get<DateEvent>(
-        `/date-events/${eventId}`
+      const { data } = await apiClient.getData<unknown>(
+        `/date-events/${eventId}`,
+        options
       );
-      return normalizeDateEvent(response);
+      return this.decodeEvent(data, 'date-event');
     } catch (error) {
       if (error instanceof ApiError) {
         throw error;
@@ -345,13 +496,21 @@ class DateEventService {
 
   // Get date events with attendees (placeholder - not in OpenAPI spec)
   async getDateEventWithAttendees(
-    eventId: string
+    eventId: string,
+    options?: CallOptions
   ): Promise<DateEventWithAttendees> {
     try {
-      const response = await apiClient.get<DateEventWithAttendees>(
-        `/date-events/${eventId}/attendees`
+      const { data: payload } = await apiClient.getData<unknown>(
+        `/date-events/${eventId}/attendees`,
+        options
       );
-      return response;
+      const { attendees } = decode(
+        dateEventAttendeesSchema,
+        payload,
+        'date-event'
+      );
+      const event = this.decodeEvent(payload, 'date-event');
+      return { ...event, attendees };
     } catch (error) {
       if (error instanceof ApiError) {
         throw error;
@@ -363,7 +522,10 @@ class DateEventService {
   }
 
   // Get available (open) requests for a specific user
-  async getAvailableRequests(userId: string): Promise<DateRequest[]> {
+  async getAvailableRequests(
+    userId: string,
+    options?: CallOptions
+  ): Promise<DateRequest[]> {
     try {
       // Validate required parameters
       if (!userId || userId.trim() === '') {
@@ -372,20 +534,14 @@ class DateEventService {
         ]);
       }
 
-      const response = await apiClient.get<any>(
-        `/date-events/available/${userId}`
+      const { data: requests } = await apiClient.getData<unknown>(
+        `/date-events/available/${userId}`,
+        options
       );
 
-      // Handle different response formats
-      const requests = Array.isArray(response)
-        ? response
-        : response.data && Array.isArray(response.data)
-        ? response.data
-        : [];
-
-      return requests;
+      return decode(dateRequestListSchema, requests, 'available-requests');
     } catch (error) {
-      console.error('Get available requests error:', error);
+      logger.error('Get available requests error:', error);
       if (error instanceof ApiError) {
         throw error;
       }
@@ -0,0 +1,75 @@
+import { HealthResponse } from '../types';
+import { decode } from '../utils/decoder';
+import { logger } from '../utils/logger';
+import { apiClient, CallOptions } from './apiClient';
+import { ApiError, NetworkError, TimeoutError } from './apiErrors';
+import { healthResponseSchema } from './schemas';
+
+// Keep the startup gate snappy; a slow /health is as good as no /health
+const HEALTH_TIMEOUT_MS = 5000;
+
+// Values of HealthResponse.status and services.database that mean "up"
+const HEALTHY_STATES = ['ok', 'up', 'healthy', 'connected'];
+
+// 'ok': usable. 'maintenance': the API or its database is down.
+// 'offline': the backend could not be reached at all.
+export type BackendState = 'ok' | 'maintenance' | 'offline';
+
+export interface BackendHealth {
+  state: BackendState;
+  checkedAt: number;
+  // The backend's own report, when it sent one
+  health?: HealthResponse;
+  error?: ApiError;
+}
+
+const isHealthy = (value: string | undefined): boolean =>
+  value === undefined || HEALTHY_STATES.includes(value.toLowerCase());
+
+class HealthService {
+  // Pings GET /health and classifies the result. Never throws: a failure is
+  // reported through the returned state.
+  async check(options?: CallOptions): Promise<BackendHealth> {
+    const checkedAt = Date.now();
+    try {
+      const body = await apiClient.get<unknown>('/health', {
+        timeoutMs: HEALTH_TIMEOUT_MS,
+        retry: false,
+        ...options,
+      });
+      const health = decode(healthResponseSchema, body, 'health');
+      const state =
+        isHealthy(health.status) && isHealthy(health.services?.database)
+          ? 'ok'
+          : 'maintenance';
+      if (state !== 'ok') {
+        logger.warn('Backend reports it is unhealthy:', health);
+      }
+      return { state, checkedAt, health };
+    } catch (error) {
+      const apiError =
+        error instanceof ApiError
+          ? error
+          : new ApiError('Health check failed', 500, [
+              error instanceof Error ? error.message : 'Unknown error',
+            ]);
+      logger.warn('Health check failed:', apiError);
+      return { state: this.classify(apiError), checkedAt, error: apiError };
+    }
+  }
+
+  private classify(error: ApiError): BackendState {
+    if (error instanceof NetworkError || error instanceof TimeoutError) {
+      return 'offline';
+    }
+    if (error.status >= 500) {
+      return 'maintenance';
+    }
+    // Anything else (e.g. a backend without /health) proves the API answers
+    return 'ok';
+  }
+}
+
+// Export singleton instance
+export const healthService = new HealthService();
+export default healthService;
@@ -0,0 +1,154 @@
+import { logger } from '../utils/logger';
+import { Interceptor } from './interceptors';
+
+// Defaults keep the cache small enough to live in memory on low-end devices
+const DEFAULT_MAX_ENTRIES = 100;
+const DEFAULT_MAX_BYTES = 5 * 1024 * 1024;
+
+export interface HttpCacheEntry {
+  etag?: string;
+  lastModified?: string;
+  body: string;
+  contentType: string;
+  // Fetched with credentials, so it belongs to the signed-in user
+  private: boolean;
+}
+
+interface HttpCacheOptions {
+  maxEntries?: number;
+  maxBytes?: number;
+}
+
+// Validator-based cache for GET responses. Bodies are kept per URL together
+// with their ETag / Last-Modified so the server can answer 304 Not Modified
+// instead of sending an unchanged payload again. Least recently used entries
+// are evicted first once either bound is reached.
+export class HttpCache {
+  private entries = new Map<string, HttpCacheEntry>();
+  private totalBytes = 0;
+  private maxEntries: number;
+  private maxBytes: number;
+
+  constructor(options: HttpCacheOptions = {}) {
+    this.maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+    this.maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES;
+  }
+
+  get(url: string): HttpCacheEntry | undefined {
+    const entry = this.entries.get(url);
+    if (entry) {
+      // Re-insert to mark the entry as most recently used
+      this.entries.delete(url);
+      this.entries.set(url, entry);
+    }
+    return entry;
+  }
+
+  set(url: string, entry: HttpCacheEntry): void {
+    this.delete(url);
+    if (entry.body.length > this.maxBytes) {
+      return;
+    }
+
+    this.entries.set(url, entry);
+    this.totalBytes += entry.body.length;
+
+    for (const [oldestUrl] of this.entries) {
+      if (
+        this.entries.size <= this.maxEntries &&
+        this.totalBytes <= this.maxBytes
+      ) {
+        break;
+      }
+      this.delete(oldestUrl);
+    }
+  }
+
+  delete(url: string): void {
+    const entry = this.entries.get(url);
+    if (entry) {
+      this.totalBytes -= entry.body.length;
+      this.entries.delete(url);
+    }
+  }
+
+  // Drops every response fetched on behalf of the signed-in user
+  evictPrivate(): void {
+    for (const [url, entry] of this.entries) {
+      if (entry.private) {
+        this.delete(url);
+      }
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.totalBytes = 0;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+// Sends If-None-Match / If-Modified-Since for cached GETs and turns a 304
+// into the cached body. Must run before the JSON interceptor.
+export const createHttpCacheInterceptor = (cache: HttpCache): Interceptor => ({
+  name: 'httpCache',
+  onRequest: request => {
+    if (request.method !== 'GET') {
+      return;
+    }
+
+    const entry = cache.get(request.url);
+    if (!entry) {
+      return;
+    }
+    // Keep the entry for this request in case it is evicted meanwhile
+    request.meta.cachedEntry = entry;
+    if (entry.etag) {
+      request.headers['If-None-Match'] = entry.etag;
+    }
+    if (entry.lastModified) {
+      request.headers['If-Modified-Since'] = entry.lastModified;
+    }
+  },
+  onResponse: async context => {
+    const { request, response } = context;
+    if (request.method !== 'GET') {
+      return;
+    }
+
+    const cachedEntry = request.meta.cachedEntry as HttpCacheEntry | undefined;
+    if (response.status === 304 && cachedEntry) {
+      logger.debug(`Serving ${request.endpoint} from HTTP cache`);
+      context.response = new Response(cachedEntry.body, {
+        status: 200,
+        headers: { 'Content-Type': cachedEntry.contentType },
+      });
+      return;
+    }
+    if (!response.ok) {
+      return;
+    }
+
+    const etag = response.headers.get('ETag') ?? undefined;
+    const lastModified = response.headers.get('Last-Modified') ?? undefined;
+    if (!etag && !lastModified) {
+      cache.delete(request.url);
+      return;
+    }
+
+    try {
+      cache.set(request.url, {
+        etag,
+        lastModified,
+        body: await response.clone().text(),
+        contentType: response.headers.get('Content-Type') ?? 'application/json',
+        private: !!request.headers.Authorization,
+      });
+    } catch (error) {
+      logger.warn(`Failed to cache ${request.endpoint}:`, error);
+    }
+  },
+});
@@ -0,0 +1,181 @@
+import { decodeJWT } from '../utils/jwt';
+import { logger } from '../utils/logger';
+import { isRS256SigningKey, RsaPublicJwk, verifyRS256 } from '../utils/rsa';
+import { IdTokenError, NetworkError, ServerError } from './apiErrors';
+
+// Keys are kept this long unless the provider's Cache-Control says otherwise
+const DEFAULT_JWKS_TTL_MS = 60 * 60 * 1000;
+// An unknown key id triggers a refetch (the provider rotated its keys), but
+// no more often than this
+const MIN_JWKS_REFETCH_MS = 60 * 1000;
+// Allowed difference between our clock and the provider's
+const CLOCK_SKEW_MS = 60 * 1000;
+
+export interface Jwk extends RsaPublicJwk {
+  kid: string;
+}
+
+// What the ID token must say for the sign-in to be accepted
+export interface IdTokenExpectations {
+  // Accepted "iss" values (Google uses two spellings)
+  issuers: string[];
+  // The app's OAuth client ID
+  audience: string;
+  // The nonce sent with the authorization request
+  nonce: string;
+  jwksUri: string;
+}
+
+export interface IdTokenClaims {
+  iss: string;
+  sub: string;
+  aud: string | string[];
+  exp: number;
+  iat?: number;
+  nonce?: string;
+  azp?: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+  picture?: string;
+}
+
+interface CachedKeys {
+  keys: Jwk[];
+  fetchedAt: number;
+  expiresAt: number;
+}
+
+const maxAgeMs = (cacheControl: string | null): number | null => {
+  const match = cacheControl?.match(/max-age=(\d+)/);
+  return match ? Number(match[1]) * 1000 : null;
+};
+
+// Signing keys published by identity providers, fetched on first use and
+// kept in memory until they expire
+class JwksCache {
+  private entries = new Map<string, CachedKeys>();
+  private pending = new Map<string, Promise<CachedKeys>>();
+
+  async getKey(jwksUri: string, kid: string): Promise<Jwk | null> {
+    let entry = this.entries.get(jwksUri);
+    if (!entry || Date.now() >= entry.expiresAt) {
+      entry = await this.fetchKeys(jwksUri);
+    }
+
+    let key = entry.keys.find(candidate => candidate.kid === kid);
+    if (!key && Date.now() - entry.fetchedAt >= MIN_JWKS_REFETCH_MS) {
+      logger.debug('Unknown signing key, refetching JWKS');
+      entry = await this.fetchKeys(jwksUri);
+      key = entry.keys.find(candidate => candidate.kid === kid);
+    }
+    return key ?? null;
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  // Concurrent sign-ins share one fetch
+  private fetchKeys(jwksUri: string): Promise<CachedKeys> {
+    let request = this.pending.get(jwksUri);
+    if (!request) {
+      request = this.performFetch(jwksUri).finally(() => {
+        this.pending.delete(jwksUri);
+      });
+      this.pending.set(jwksUri, request);
+    }
+    return request;
+  }
+
+  private async performFetch(jwksUri: string): Promise<CachedKeys> {
+    let response: Response;
+    try {
+      response = await fetch(jwksUri);
+    } catch (error) {
+      throw new NetworkError([
+        error instanceof Error ? error.message : 'Unknown error',
+      ]);
+    }
+    if (!response.ok) {
+      throw new ServerError('Could not load sign-in keys', response.status, [
+        `JWKS request returned ${response.status}`,
+      ]);
+    }
+
+    const { keys } = await response.json();
+    const now = Date.now();
+    const entry: CachedKeys = {
+      keys: Array.isArray(keys) ? keys : [],
+      fetchedAt: now,
+      expiresAt:
+        now +
+        (maxAgeMs(response.headers.get('Cache-Control')) ??
+          DEFAULT_JWKS_TTL_MS),
+    };
+    this.entries.set(jwksUri, entry);
+    return entry;
+  }
+}
+
+export const jwksCache = new JwksCache();
+
+// Checks an ID token's signature against the provider's published keys and
+// its claims against what this sign-in expects. Throws IdTokenError with the
+// reason when anything is off.
+export const verifyIdToken = async (
+  idToken: string,
+  expected: IdTokenExpectations
+): Promise<IdTokenClaims> => {
+  let decoded;
+  try {
+    decoded = decodeJWT(idToken);
+  } catch {
+    throw new IdTokenError('malformed', 'ID token is not a valid JWT');
+  }
+  const { header, signingInput, signature } = decoded;
+  const claims = decoded.payload as IdTokenClaims;
+
+  if (header.alg !== 'RS256') {
+    throw new IdTokenError(
+      'unsupported-algorithm',
+      `Unsupported signing algorithm ${header.alg}`
+    );
+  }
+  const key = await jwksCache.getKey(expected.jwksUri, header.kid);
+  if (!key) {
+    throw new IdTokenError('unknown-key', `Unknown signing key ${header.kid}`);
+  }
+  if (!isRS256SigningKey(key)) {
+    throw new IdTokenError(
+      'unsuitable-key',
+      `Key ${header.kid} is not an RS256 signing key`
+    );
+  }
+  if (!verifyRS256(signingInput, signature, key)) {
+    throw new IdTokenError('signature', 'ID token signature is invalid');
+  }
+
+  if (!expected.issuers.includes(claims.iss)) {
+    throw new IdTokenError('issuer', `Unexpected issuer ${claims.iss}`);
+  }
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  // With several audiences the token must say it was issued to us
+  if (
+    !audiences.includes(expected.audience) ||
+    (audiences.length > 1 && claims.azp !== expected.audience)
+  ) {
+    throw new IdTokenError('audience', 'ID token was issued to another app');
+  }
+  if (
+    typeof claims.exp !== 'number' ||
+    Date.now() >= claims.exp * 1000 + CLOCK_SKEW_MS
+  ) {
+    throw new IdTokenError('expired', 'ID token has expired');
+  }
+  if (claims.nonce !== expected.nonce) {
+    throw new IdTokenError('nonce', 'ID token nonce does not match');
+  }
+
+  return claims;
+};
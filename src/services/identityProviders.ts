@@ -0,0 +1,188 @@
+import {
+  array,
+  decode,
+  object,
+  optional,
+  string,
+  withDefault,
+} from '../utils/decoder';
+import { logger } from '../utils/logger';
+import { ApiError, NetworkError, ServerError } from './apiErrors';
+
+const DEFAULT_SCOPES = ['openid', 'profile', 'email'];
+
+// Provider ids become part of the login path (/auth/{id}), so they must not
+// shadow the other auth endpoints
+const RESERVED_PROVIDER_IDS = ['login', 'refresh', 'logout', 'me'];
+
+// An OpenID Connect provider users can sign in with
+export interface IdentityProviderConfig {
+  // Stable key sent to the backend, e.g. 'google'
+  id: string;
+  // Shown on buttons, e.g. 'Google'
+  label: string;
+  // URL of the provider's /.well-known/openid-configuration document
+  discoveryUrl: string;
+  clientId: string;
+  scopes: string[];
+  // Other "iss" values the provider signs with besides the discovered one
+  issuerAliases?: string[];
+}
+
+// The parts of a provider's discovery document a sign-in needs
+export interface OidcDiscovery {
+  issuer: string;
+  authorizationEndpoint: string;
+  tokenEndpoint: string;
+  jwksUri: string;
+}
+
+const providerConfigSchema = object<IdentityProviderConfig>({
+  id: string,
+  label: string,
+  discoveryUrl: string,
+  clientId: string,
+  scopes: withDefault(array(string), DEFAULT_SCOPES),
+  issuerAliases: optional(array(string)),
+});
+
+// As published at the discovery URL
+interface DiscoveryDocument {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+const discoverySchema = object<DiscoveryDocument>({
+  issuer: string,
+  authorization_endpoint: string,
+  token_endpoint: string,
+  jwks_uri: string,
+});
+
+// Google is built in; it only needs a client ID. Further providers come
+// from EXPO_PUBLIC_OIDC_PROVIDERS, a JSON array of IdentityProviderConfig.
+const loadConfiguredProviders = (): IdentityProviderConfig[] => {
+  const providers: IdentityProviderConfig[] = [];
+
+  const googleClientId = process.env.EXPO_PUBLIC_GOOGLE_WEB_CLIENT_ID;
+  if (googleClientId) {
+    providers.push({
+      id: 'google',
+      label: 'Google',
+      discoveryUrl:
+        'https://accounts.google.com/.well-known/openid-configuration',
+      clientId: googleClientId,
+      scopes: DEFAULT_SCOPES,
+      // Google issues ID tokens under both spellings
+      issuerAliases: ['accounts.google.com'],
+    });
+  }
+
+  const configured = process.env.EXPO_PUBLIC_OIDC_PROVIDERS;
+  if (configured) {
+    try {
+      providers.push(
+        ...decode(
+          array(providerConfigSchema),
+          JSON.parse(configured),
+          'EXPO_PUBLIC_OIDC_PROVIDERS'
+        )
+      );
+    } catch (error) {
+      logger.error('Ignoring invalid EXPO_PUBLIC_OIDC_PROVIDERS:', error);
+    }
+  }
+
+  return providers;
+};
+
+// The identity providers offered for sign-in and account linking, and their
+// discovery documents, fetched on first use and kept for the app's lifetime
+class IdentityProviderRegistry {
+  private providers: IdentityProviderConfig[] = [];
+  private discoveries = new Map<string, Promise<OidcDiscovery>>();
+
+  // Replaces the configured providers, e.g. from tests
+  configure(providers: IdentityProviderConfig[]): void {
+    const seen = new Set<string>();
+    this.providers = providers.filter(provider => {
+      if (
+        !/^[a-z0-9-]+$/.test(provider.id) ||
+        RESERVED_PROVIDER_IDS.includes(provider.id) ||
+        seen.has(provider.id)
+      ) {
+        logger.warn('Ignoring identity provider with bad id:', provider.id);
+        return false;
+      }
+      seen.add(provider.id);
+      return true;
+    });
+    this.discoveries.clear();
+  }
+
+  // Providers in the order they were configured
+  list(): IdentityProviderConfig[] {
+    return this.providers;
+  }
+
+  get(providerId: string): IdentityProviderConfig {
+    const provider = this.providers.find(
+      candidate => candidate.id === providerId
+    );
+    if (!provider) {
+      throw new ApiError('Unknown identity provider', 400, [
+        `${providerId} is not configured`,
+      ]);
+    }
+    return provider;
+  }
+
+  // Concurrent sign-ins share one fetch; a failed fetch is retried next time
+  discover(providerId: string): Promise<OidcDiscovery> {
+    let discovery = this.discoveries.get(providerId);
+    if (!discovery) {
+      discovery = this.fetchDiscovery(this.get(providerId));
+      discovery.catch(() => this.discoveries.delete(providerId));
+      this.discoveries.set(providerId, discovery);
+    }
+    return discovery;
+  }
+
+  private async fetchDiscovery(
+    provider: IdentityProviderConfig
+  ): Promise<OidcDiscovery> {
+    let response: Response;
+    try {
+      response = await fetch(provider.discoveryUrl);
+    } catch (error) {
+      throw new NetworkError([
+        error instanceof Error ? error.message : 'Unknown error',
+      ]);
+    }
+    if (!response.ok) {
+      throw new ServerError(
+        `Could not reach ${provider.label}`,
+        response.status,
+        [`Discovery request returned ${response.status}`]
+      );
+    }
+
+    const document = decode(
+      discoverySchema,
+      await response.json(),
+      `${provider.id}.discovery`
+    );
+    return {
+      issuer: document.issuer,
+      authorizationEndpoint: document.authorization_endpoint,
+      tokenEndpoint: document.token_endpoint,
+      jwksUri: document.jwks_uri,
+    };
+  }
+}
+
+export const identityProviders = new IdentityProviderRegistry();
+identityProviders.configure(loadConfiguredProviders());
+export default identityProviders;
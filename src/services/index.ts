@@ -1,7 +1,18 @@
 // Re-export all services for easy importing
 export * from './apiClient';
+export * from './apiEnvironment';
+export * from './apiErrors';
 export * from './authService';
+export * from './connectivity';
 export * from './dateEventService';
-export * from './googleAuthService';
+export * from './healthService';
+export * from './httpCache';
+export * from './identityProviders';
+export * from './idTokenVerifier';
+export * from './interceptors';
+export * from './mutationOutbox';
+export * from './oidcService';
+export * from './referenceCache';
+export * from './sessionManager';
 export * from './userService';
 export * from './venueService';
@@ -0,0 +1,164 @@
+import { ErrorResponse, ValidationError } from '../types';
+import { logger } from '../utils/logger';
+import { ApiError, createApiError, ServerError } from './apiErrors';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+// A request about to be sent. Request hooks may change any field in place.
+export interface RequestContext {
+  method: HttpMethod;
+  endpoint: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: any;
+  // Scratch space for passing values (e.g. start times) to later hooks
+  meta: Record<string, unknown>;
+}
+
+export interface ResponseContext {
+  request: RequestContext;
+  response: Response;
+  // Parsed body, set by the JSON interceptor
+  data?: unknown;
+}
+
+// Hooks run in registration order. A request hook may return a Response to
+// answer the request itself without touching the network (useful for fakes);
+// an error hook may return a different error to throw instead.
+export interface Interceptor {
+  name: string;
+  onRequest?: (
+    request: RequestContext
+  ) => void | Response | Promise<void | Response>;
+  onResponse?: (context: ResponseContext) => void | Promise<void>;
+  onError?: (
+    error: ApiError,
+    request: RequestContext
+  ) => void | ApiError | Promise<void | ApiError>;
+}
+
+// Parses a Retry-After header given either in seconds or as an HTTP date
+export const parseRetryAfter = (value: string | null): number | undefined => {
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+  return undefined;
+};
+
+// Pulls the message and per-field problems out of an error body
+export const parseErrorBody = (
+  errorData: Partial<ErrorResponse>
+): { message?: string; errors: string[]; fieldErrors: ValidationError[] } => {
+  const errors: string[] = [];
+  let fieldErrors: ValidationError[] = [];
+
+  // details may be plain messages or { field, message } entries
+  if (errorData.details && Array.isArray(errorData.details)) {
+    errorData.details.forEach(detail => {
+      if (typeof detail === 'string') {
+        errors.push(detail);
+      } else if (detail && detail.field) {
+        fieldErrors.push(detail);
+        errors.push(detail.message);
+      }
+    });
+  }
+  if (errorData.errors && Array.isArray(errorData.errors)) {
+    fieldErrors = fieldErrors.concat(
+      errorData.errors.filter(fieldError => fieldError && fieldError.field)
+    );
+  }
+  if (errorData.error && errors.length === 0) {
+    errors.push(errorData.error);
+  }
+
+  return { message: errorData.message || undefined, errors, fieldErrors };
+};
+
+// Turns a non-2xx response into the matching ApiError subclass
+const toApiError = async (response: Response): Promise<ApiError> => {
+  let errorMessage = `HTTP ${response.status}: ${response.statusText}`;
+  let errors: string[] = [];
+  let fieldErrors: ValidationError[] = [];
+
+  try {
+    const errorData: ErrorResponse = await response.json();
+    const parsed = parseErrorBody(errorData);
+    errorMessage = parsed.message || errorMessage;
+    errors = parsed.errors;
+    fieldErrors = parsed.fieldErrors;
+  } catch {
+    errors = [response.statusText];
+  }
+
+  const error = createApiError(
+    response.status,
+    errorMessage,
+    errors,
+    fieldErrors
+  );
+  error.retryAfterMs = parseRetryAfter(response.headers.get('Retry-After'));
+  error.idempotentReplay =
+    response.headers.get('Idempotent-Replayed') === 'true';
+  return error;
+};
+
+// Sends JSON and parses JSON bodies, throwing typed errors for failures
+export const jsonInterceptor: Interceptor = {
+  name: 'json',
+  onRequest: request => {
+    request.headers['Content-Type'] = 'application/json';
+  },
+  onResponse: async context => {
+    const { response } = context;
+    if (!response.ok) {
+      throw await toApiError(response);
+    }
+
+    try {
+      context.data = await response.json();
+    } catch {
+      throw new ServerError('Invalid JSON response', 500, [
+        'Server returned invalid JSON',
+      ]);
+    }
+  },
+};
+
+// Adds the bearer token of the current session, if the request should carry
+// one
+export const createAuthInterceptor = (
+  getToken: (request: RequestContext) => string | null
+): Interceptor => ({
+  name: 'auth',
+  onRequest: request => {
+    const token = getToken(request);
+    if (token) {
+      request.headers.Authorization = `Bearer ${token}`;
+    }
+  },
+});
+
+// Logs outgoing mutations and failed requests
+export const loggingInterceptor: Interceptor = {
+  name: 'logging',
+  onRequest: request => {
+    if (request.method !== 'GET') {
+      logger.debug(
+        `API ${request.method} request to: ${request.url}`,
+        request.body
+      );
+    }
+  },
+  onError: (error, request) => {
+    logger.error(`Fetch error for ${request.url}:`, error);
+  },
+};
@@ -0,0 +1,339 @@
+import { onlineManager } from '@tanstack/react-query';
+import * as Crypto from 'expo-crypto';
+import { AppState } from 'react-native';
+import {
+  CreateDateEventRequest,
+  DateRequestResponse,
+  JoinDateEventRequest,
+} from '../types';
+import { logger } from '../utils/logger';
+import { platformStorage } from '../utils/platformStorage';
+import { ApiError, ConflictError, DuplicateRequestError } from './apiErrors';
+
+const STORAGE_KEY = 'mutationOutbox';
+// An item is marked failed after this many transient failures
+const MAX_ATTEMPTS = 5;
+// How often pending items are retried while they keep failing
+const RETRY_INTERVAL_MS = 30 * 1000;
+// Sent items stay listed for a while so users can see they went through
+const SENT_RETENTION_MS = 60 * 60 * 1000;
+
+// Payload stored for each kind of queued mutation
+export interface OutboxPayloads {
+  'create-date-event': CreateDateEventRequest;
+  'join-date-event': JoinDateEventRequest;
+  'respond-date-request': { requestId: string; response: DateRequestResponse };
+}
+
+export type OutboxMutationType = keyof OutboxPayloads;
+
+export type OutboxItemStatus = 'pending' | 'sent' | 'failed' | 'conflict';
+
+interface OutboxItemBase {
+  id: string;
+  status: OutboxItemStatus;
+  attempts: number;
+  createdAt: number;
+  updatedAt: number;
+  error?: string;
+}
+
+export type OutboxItem = {
+  [K in OutboxMutationType]: OutboxItemBase & {
+    type: K;
+    payload: OutboxPayloads[K];
+  };
+}[OutboxMutationType];
+
+export type OutboxHandler<K extends OutboxMutationType> = (
+  payload: OutboxPayloads[K]
+) => Promise<unknown>;
+
+type OutboxListener = (items: OutboxItem[]) => void;
+
+interface StartOptions {
+  // Called whenever a queued mutation reaches the server
+  onSent?: (item: OutboxItem) => void;
+}
+
+// Persistent queue of mutations made while offline. Items are replayed in
+// the order they were queued once connectivity returns; a transient failure
+// stops the replay so later items never overtake earlier ones.
+class MutationOutbox {
+  private items: OutboxItem[] | null = null;
+  // Serialises read-modify-write cycles on the stored queue
+  private lock: Promise<unknown> = Promise.resolve();
+  private replayPromise: Promise<void> | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private listeners = new Set<OutboxListener>();
+  private handlers: { [K in OutboxMutationType]?: OutboxHandler<K> } = {};
+  private onSent?: (item: OutboxItem) => void;
+
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.lock.then(task);
+    this.lock = result.catch(() => undefined);
+    return result;
+  }
+
+  private async load(): Promise<OutboxItem[]> {
+    if (this.items) {
+      return this.items;
+    }
+
+    try {
+      const stored = await platformStorage.getItem(STORAGE_KEY);
+      const items: OutboxItem[] = stored ? JSON.parse(stored) : [];
+      // Forget items that were sent a while ago
+      const now = Date.now();
+      this.items = items.filter(
+        item =>
+          item.status !== 'sent' || now - item.updatedAt < SENT_RETENTION_MS
+      );
+    } catch (error) {
+      logger.error('Failed to load mutation outbox:', error);
+      this.items = [];
+    }
+    return this.items;
+  }
+
+  private async save(items: OutboxItem[]): Promise<void> {
+    this.items = items;
+    await platformStorage.setItem(STORAGE_KEY, JSON.stringify(items));
+    this.listeners.forEach(listener => {
+      try {
+        listener(items);
+      } catch (error) {
+        logger.error('Outbox listener failed:', error);
+      }
+    });
+  }
+
+  private update(
+    id: string,
+    changes: Partial<OutboxItemBase>
+  ): Promise<OutboxItem | undefined> {
+    return this.exclusive(async () => {
+      const items = await this.load();
+      let updated: OutboxItem | undefined;
+      const next = items.map(item => {
+        if (item.id !== id) {
+          return item;
+        }
+        updated = { ...item, ...changes, updatedAt: Date.now() };
+        return updated;
+      });
+      await this.save(next);
+      return updated;
+    });
+  }
+
+  // Registers the function that performs a queued mutation of the given type
+  setHandler<K extends OutboxMutationType>(
+    type: K,
+    handler: OutboxHandler<K>
+  ): void {
+    (this.handlers as Record<K, OutboxHandler<K>>)[type] = handler;
+  }
+
+  // Subscribe to queue changes; returns an unsubscribe function
+  subscribe(listener: OutboxListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  async getItems(): Promise<OutboxItem[]> {
+    return this.exclusive(() => this.load());
+  }
+
+  // Queues a mutation. Queuing the same pending mutation twice (e.g. a
+  // double tap while offline) returns the existing item.
+  enqueue<K extends OutboxMutationType>(
+    type: K,
+    payload: OutboxPayloads[K]
+  ): Promise<OutboxItem> {
+    return this.exclusive(async () => {
+      const items = await this.load();
+      const serialized = JSON.stringify(payload);
+      const existing = items.find(
+        item =>
+          item.status === 'pending' &&
+          item.type === type &&
+          JSON.stringify(item.payload) === serialized
+      );
+      if (existing) {
+        return existing;
+      }
+
+      const now = Date.now();
+      const item = {
+        id: Crypto.randomUUID(),
+        type,
+        payload,
+        status: 'pending',
+        attempts: 0,
+        createdAt: now,
+        updatedAt: now,
+      } as OutboxItem;
+      await this.save([...items, item]);
+      logger.info(`Queued ${type} for when the device is back online`);
+      return item;
+    });
+  }
+
+  // Puts a failed or conflicting item back in the queue and replays it
+  async retry(id: string): Promise<void> {
+    await this.update(id, { status: 'pending', attempts: 0, error: undefined });
+    await this.replay();
+  }
+
+  // Removes an item from the queue, e.g. once the user acknowledged a failure
+  dismiss(id: string): Promise<void> {
+    return this.exclusive(async () => {
+      const items = await this.load();
+      await this.save(items.filter(item => item.id !== id));
+    });
+  }
+
+  // Drops every queued mutation, used when the user logs out
+  clear(): Promise<void> {
+    return this.exclusive(async () => {
+      this.cancelRetry();
+      this.items = [];
+      await platformStorage.removeItem(STORAGE_KEY);
+      this.listeners.forEach(listener => listener([]));
+    });
+  }
+
+  // Sends pending items in order. Concurrent calls share one replay.
+  replay(): Promise<void> {
+    if (!this.replayPromise) {
+      this.replayPromise = this.performReplay().finally(() => {
+        this.replayPromise = null;
+      });
+    }
+    return this.replayPromise;
+  }
+
+  private async performReplay(): Promise<void> {
+    this.cancelRetry();
+    if (!onlineManager.isOnline()) {
+      return;
+    }
+    const pending = (await this.getItems()).filter(
+      item => item.status === 'pending'
+    );
+
+    for (const item of pending) {
+      const handler = this.handlers[item.type] as
+        | ((payload: OutboxItem['payload']) => Promise<unknown>)
+        | undefined;
+      if (!handler) {
+        logger.warn(`No outbox handler registered for ${item.type}`);
+        return;
+      }
+
+      try {
+        await handler(item.payload);
+        const sent = await this.update(item.id, {
+          status: 'sent',
+          error: undefined,
+        });
+        if (sent) {
+          this.onSent?.(sent);
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+
+        // The server already applied this mutation on an earlier attempt
+        if (error instanceof DuplicateRequestError) {
+          const sent = await this.update(item.id, { status: 'sent' });
+          if (sent) {
+            this.onSent?.(sent);
+          }
+          continue;
+        }
+        if (error instanceof ConflictError) {
+          await this.update(item.id, { status: 'conflict', error: message });
+          continue;
+        }
+
+        const transient =
+          error instanceof ApiError &&
+          (error.status === 0 || error.status === 408 || error.status >= 499);
+        if (!transient) {
+          await this.update(item.id, { status: 'failed', error: message });
+          continue;
+        }
+
+        const attempts = item.attempts + 1;
+        if (attempts >= MAX_ATTEMPTS) {
+          await this.update(item.id, {
+            status: 'failed',
+            attempts,
+            error: message,
+          });
+          continue;
+        }
+
+        // Stop here so later items are not sent ahead of this one
+        await this.update(item.id, { attempts, error: message });
+        logger.warn(`Outbox replay paused after ${item.type} failed:`, error);
+        this.scheduleRetry();
+        return;
+      }
+    }
+  }
+
+  // For triggers nobody awaits: a storage failure is logged rather than left
+  // as an unhandled rejection
+  private replayInBackground(): void {
+    this.replay().catch(error => {
+      logger.error('Outbox replay failed:', error);
+    });
+  }
+
+  private scheduleRetry(): void {
+    this.cancelRetry();
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.replayInBackground();
+    }, RETRY_INTERVAL_MS);
+  }
+
+  private cancelRetry(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  // Replays the queue now and whenever the app comes back online or to the
+  // foreground. Returns a function that stops listening.
+  start(options: StartOptions = {}): () => void {
+    this.onSent = options.onSent;
+
+    const unsubscribeOnline = onlineManager.subscribe(isOnline => {
+      if (isOnline) {
+        this.replayInBackground();
+      }
+    });
+    const appStateSubscription = AppState.addEventListener('change', state => {
+      if (state === 'active') {
+        this.replayInBackground();
+      }
+    });
+    this.replayInBackground();
+
+    return () => {
+      unsubscribeOnline();
+      appStateSubscription.remove();
+      this.cancelRetry();
+      this.onSent = undefined;
+    };
+  }
+}
+
+export const mutationOutbox = new MutationOutbox();
+export default mutationOutbox;
@@ -0,0 +1,172 @@
+import * as AuthSession from 'expo-auth-session';
+import * as Crypto from 'expo-crypto';
+import * as WebBrowser from 'expo-web-browser';
+import { bytesToBase64Url } from '../utils/jwt';
+import { logger } from '../utils/logger';
+import { ApiError, NetworkError, SignInCancelledError } from './apiErrors';
+import { identityProviders } from './identityProviders';
+import { verifyIdToken } from './idTokenVerifier';
+
+// Complete the auth session on web
+WebBrowser.maybeCompleteAuthSession();
+
+export interface OidcSignInResult {
+  providerId: string;
+  // Verified ID token, passed on to the backend
+  idToken: string;
+  user: {
+    email: string;
+    name: string;
+    photo?: string;
+  };
+}
+
+// What is needed to finish a sign-in once the provider redirects back with
+// a code
+export interface OidcAuthorization {
+  providerId: string;
+  code: string;
+  // PKCE secret whose hash was sent with the authorization request
+  codeVerifier: string;
+  redirectUri: string;
+  // Sent with the authorization request; the ID token must echo it
+  nonce: string;
+}
+
+// Signs the user in with any configured OpenID Connect provider using the
+// authorization code flow with PKCE
+class OidcService {
+  async signIn(providerId: string): Promise<OidcSignInResult> {
+    const provider = identityProviders.get(providerId);
+    try {
+      const discovery = await identityProviders.discover(providerId);
+
+      // Use a more reliable redirect URI setup for Expo
+      const redirectUri = AuthSession.makeRedirectUri({
+        scheme: 'tonightmobile',
+        path: 'auth',
+      });
+
+      logger.debug('Redirect URI:', redirectUri);
+
+      // AuthRequest adds the PKCE challenge and a random state, and rejects
+      // a redirect whose state does not match
+      const nonce = bytesToBase64Url(Crypto.getRandomBytes(16));
+      const request = new AuthSession.AuthRequest({
+        clientId: provider.clientId,
+        scopes: provider.scopes,
+        responseType: AuthSession.ResponseType.Code,
+        redirectUri,
+        usePKCE: true,
+        extraParams: { nonce },
+      });
+
+      logger.debug(`Starting ${provider.label} auth request...`);
+
+      const result = await request.promptAsync({
+        authorizationEndpoint: discovery.authorizationEndpoint,
+      });
+
+      logger.debug('Auth result type:', result.type);
+
+      if (result.type === 'success' && result.params.code) {
+        if (!request.codeVerifier) {
+          throw new Error('PKCE code verifier missing');
+        }
+        return await this.exchangeCode({
+          providerId,
+          code: result.params.code,
+          codeVerifier: request.codeVerifier,
+          redirectUri,
+          nonce,
+        });
+      } else if (result.type === 'cancel' || result.type === 'dismiss') {
+        throw new SignInCancelledError(provider.label);
+      } else if (result.type === 'error') {
+        throw new Error(
+          `Authentication error: ${
+            result.error?.description || 'Unknown error'
+          }`
+        );
+      }
+
+      throw new Error(`Authentication failed: ${result.type}`);
+    } catch (error) {
+      if (error instanceof SignInCancelledError) {
+        logger.debug(`${provider.label} sign-in cancelled`);
+      } else {
+        logger.error(`${provider.label} sign-in failed:`, error);
+      }
+      throw error;
+    }
+  }
+
+  // Exchanges the authorization code for tokens and verifies the ID token
+  // before anything in it is used
+  async exchangeCode(
+    authorization: OidcAuthorization
+  ): Promise<OidcSignInResult> {
+    const provider = identityProviders.get(authorization.providerId);
+    const discovery = await identityProviders.discover(provider.id);
+
+    let response: Response;
+    try {
+      response = await fetch(discovery.tokenEndpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body: new URLSearchParams({
+          client_id: provider.clientId,
+          code: authorization.code,
+          code_verifier: authorization.codeVerifier,
+          grant_type: 'authorization_code',
+          redirect_uri: authorization.redirectUri,
+        }).toString(),
+      });
+    } catch (error) {
+      throw new NetworkError([
+        error instanceof Error ? error.message : 'Unknown error',
+      ]);
+    }
+
+    let tokens;
+    try {
+      tokens = await response.json();
+    } catch {
+      throw new ApiError(`${provider.label} sign-in failed`, response.status, [
+        'Token endpoint did not return JSON',
+      ]);
+    }
+    if (!response.ok) {
+      throw new ApiError(`${provider.label} sign-in failed`, response.status, [
+        tokens.error_description || tokens.error || 'Token exchange failed',
+      ]);
+    }
+    if (!tokens.id_token) {
+      throw new ApiError(`${provider.label} sign-in failed`, 500, [
+        `No ID token received from ${provider.label}`,
+      ]);
+    }
+
+    const claims = await verifyIdToken(tokens.id_token, {
+      issuers: [discovery.issuer, ...(provider.issuerAliases ?? [])],
+      audience: provider.clientId,
+      nonce: authorization.nonce,
+      jwksUri: discovery.jwksUri,
+    });
+
+    return {
+      providerId: provider.id,
+      idToken: tokens.id_token,
+      user: {
+        email: claims.email ?? '',
+        name: claims.name ?? '',
+        photo: claims.picture,
+      },
+    };
+  }
+}
+
+export const oidcService = new OidcService();
+export default oidcService;
@@ -0,0 +1,78 @@
+import { logger } from '../utils/logger';
+import { platformStorage } from '../utils/platformStorage';
+
+const STORAGE_PREFIX = 'referenceCache:';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Reference endpoints whose responses rarely change and are the same for
+// every user, with how long a stored copy is served without asking again
+export const REFERENCE_ENDPOINTS: Record<string, number> = {
+  '/venues/cities': DAY_MS,
+  '/prompts/categories': DAY_MS,
+};
+
+export interface ReferenceCacheEntry {
+  body: unknown;
+  storedAt: number;
+}
+
+// Short-lived memoisation of reference data, persisted in platformStorage so
+// pickers fill instantly on launch and keep working offline
+class ReferenceCache {
+  private memory = new Map<string, ReferenceCacheEntry>();
+
+  // Time to live for an endpoint, or undefined when it is not cached
+  ttlFor(endpoint: string): number | undefined {
+    return REFERENCE_ENDPOINTS[endpoint];
+  }
+
+  isFresh(endpoint: string, entry: ReferenceCacheEntry): boolean {
+    const ttlMs = this.ttlFor(endpoint);
+    return ttlMs !== undefined && Date.now() - entry.storedAt < ttlMs;
+  }
+
+  async read(endpoint: string): Promise<ReferenceCacheEntry | null> {
+    const cached = this.memory.get(endpoint);
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      const stored = await platformStorage.getItem(STORAGE_PREFIX + endpoint);
+      if (!stored) {
+        return null;
+      }
+      const entry: ReferenceCacheEntry = JSON.parse(stored);
+      this.memory.set(endpoint, entry);
+      return entry;
+    } catch (error) {
+      logger.warn(`Failed to read cached ${endpoint}:`, error);
+      return null;
+    }
+  }
+
+  async write(endpoint: string, body: unknown): Promise<void> {
+    const entry: ReferenceCacheEntry = { body, storedAt: Date.now() };
+    this.memory.set(endpoint, entry);
+    try {
+      await platformStorage.setItem(
+        STORAGE_PREFIX + endpoint,
+        JSON.stringify(entry)
+      );
+    } catch (error) {
+      logger.warn(`Failed to cache ${endpoint}:`, error);
+    }
+  }
+
+  async clear(): Promise<void> {
+    this.memory.clear();
+    await Promise.all(
+      Object.keys(REFERENCE_ENDPOINTS).map(endpoint =>
+        platformStorage.removeItem(STORAGE_PREFIX + endpoint)
+      )
+    );
+  }
+}
+
+export const referenceCache = new ReferenceCache();
+export default referenceCache;
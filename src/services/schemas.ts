@@ -0,0 +1,169 @@
+import {
+  City,
+  DateEvent,
+  DateEventStatus,
+  DateEventWithAttendees,
+  DateRequest,
+  DateRequestStatus,
+  Gender,
+  HealthResponse,
+  LoginResponse,
+  Orientation,
+  PublicUserProfile,
+  UserPromptAnswer,
+  UserResponse,
+  Venue,
+  VenueSearchResponse,
+  VenueType,
+} from '../types';
+import {
+  array,
+  boolean,
+  Decoder,
+  lazy,
+  number,
+  object,
+  oneOf,
+  optional,
+  string,
+  withDefault,
+} from '../utils/decoder';
+
+// Runtime schemas for the payloads services hand to the UI. They mirror the
+// interfaces in src/types and are checked at the service boundary so that a
+// malformed response fails with a DecodeError instead of crashing a screen.
+
+const genderSchema: Decoder<Gender> = oneOf(
+  'male',
+  'female',
+  'non-binary',
+  'other'
+);
+
+const orientationSchema: Decoder<Orientation> = oneOf(
+  'straight',
+  'gay',
+  'lesbian',
+  'bisexual',
+  'pansexual',
+  'asexual',
+  'other'
+);
+
+const promptAnswerSchema = object<UserPromptAnswer>({
+  categoryId: string,
+  questionId: string,
+  answer: string,
+});
+
+export const userResponseSchema = object<UserResponse>({
+  id: string,
+  username: string,
+  email: string,
+  dob: optional(string),
+  gender: optional(genderSchema),
+  orientation: optional(orientationSchema),
+  showGender: optional(boolean),
+  showOrientation: optional(boolean),
+  promptAnswers: optional(array(promptAnswerSchema)),
+  linkedProviders: optional(array(string)),
+});
+
+export const publicUserProfileSchema = object<PublicUserProfile>({
+  id: string,
+  username: string,
+  dob: string,
+  gender: optional(genderSchema),
+  orientation: optional(orientationSchema),
+  promptAnswers: withDefault(array(promptAnswerSchema), []),
+});
+
+export const venueSchema = object<Venue>({
+  id: string,
+  name: string,
+  // Some providers omit these; screens fall back to the venue name
+  address: withDefault(string, ''),
+  city: withDefault(string, ''),
+  lat: number,
+  lng: number,
+  rating: optional(number),
+  userRatingCount: optional(number),
+  types: optional(array(string)),
+  type: optional(oneOf<VenueType>('bar', 'restaurant', 'coffee-shop')),
+});
+
+export const citySchema = object<City>({
+  key: string,
+  name: string,
+  lat: number,
+  lng: number,
+  radius: optional(number),
+});
+
+export const dateRequestSchema: Decoder<DateRequest> = object<DateRequest>({
+  id: string,
+  requesterUserId: string,
+  requesterId: optional(string),
+  hostId: optional(string),
+  dateEventId: string,
+  status: oneOf<DateRequestStatus>('pending', 'accepted', 'declined'),
+  requestedAt: string,
+  requester: optional(userResponseSchema),
+  host: optional(userResponseSchema),
+  dateEvent: optional(lazy(() => dateEventSchema)),
+});
+
+// Expects events that already went through normalizeDateEvent
+export const dateEventSchema: Decoder<DateEvent> = object<DateEvent>({
+  id: string,
+  hostUserId: string,
+  acceptedUserId: optional(string),
+  barId: string,
+  eventDate: string,
+  eventTime: string,
+  eventDateTime: withDefault(string, ''),
+  isOpen: withDefault(boolean, false),
+  lat: optional(number),
+  lng: optional(number),
+  status: oneOf<DateEventStatus>('open', 'accepted', 'rejected', 'cancelled'),
+  createdAt: withDefault(string, ''),
+  updatedAt: optional(string),
+  venue: optional(venueSchema),
+  hostUser: optional(userResponseSchema),
+  acceptedUser: optional(userResponseSchema),
+  requests: optional(array(dateRequestSchema)),
+});
+
+export const dateEventListSchema = array(dateEventSchema);
+export const dateRequestListSchema = array(dateRequestSchema);
+export const venueListSchema = array(venueSchema);
+export const cityListSchema = array(citySchema);
+
+export const venueSearchResponseSchema = object<VenueSearchResponse>({
+  venues: venueListSchema,
+  totalResults: optional(number),
+});
+
+export const loginResponseSchema = object<LoginResponse>({
+  user: userResponseSchema,
+  token: optional(string),
+  refreshToken: optional(string),
+});
+
+// The event itself is decoded separately, after normalizing its casing
+export const dateEventAttendeesSchema = object<
+  Pick<DateEventWithAttendees, 'attendees'>
+>({
+  attendees: array(userResponseSchema),
+});
+
+export const healthResponseSchema = object<HealthResponse>({
+  status: string,
+  timestamp: withDefault(string, ''),
+  environment: optional(string),
+  services: optional(
+    object<NonNullable<HealthResponse['services']>>({
+      database: optional(string),
+    })
+  ),
+});
@@ -0,0 +1,279 @@
+import {
+  AuthResponseData,
+  CompleteProfileRequest,
+  LoginRequest,
+  UserResponse,
+} from '../types';
+import { getJWTExpiry } from '../utils/jwt';
+import { logger } from '../utils/logger';
+import { secureStorage } from '../utils/platformStorage';
+import { apiClient } from './apiClient';
+import { NotFoundError, UnauthorizedError } from './apiErrors';
+import { authService } from './authService';
+import { mutationOutbox } from './mutationOutbox';
+import { userService } from './userService';
+
+// Encrypted, since it holds the user's email, date of birth and orientation
+const STORAGE_KEY = 'session';
+
+// Launch waits this long for the server to confirm the stored session
+const SESSION_CHECK_TIMEOUT_MS = 5000;
+
+// Provider logins record the provider's id, e.g. 'google'
+export type LoginMethod = 'password' | 'signup' | 'demo' | string;
+
+// Why the last session ended, so the UI can explain a sudden logout
+export type SessionEndReason = 'logout' | 'expired' | 'revoked' | 'deleted';
+
+export interface SessionState {
+  // 'loading' until the stored session has been restored on launch
+  status: 'loading' | 'signed-in' | 'signed-out';
+  user: UserResponse | null;
+  loginMethod: LoginMethod | null;
+  // When the access token expires (epoch ms), if the token says so
+  expiresAt: number | null;
+  endReason: SessionEndReason | null;
+}
+
+type SessionListener = (state: SessionState) => void;
+
+interface StoredSession {
+  user: UserResponse;
+  loginMethod: LoginMethod | null;
+}
+
+const SIGNED_OUT: Omit<SessionState, 'endReason'> = {
+  status: 'signed-out',
+  user: null,
+  loginMethod: null,
+  expiresAt: null,
+};
+
+// Owns the signed-in user and keeps storage, ApiClient tokens and the UI in
+// step. Every login, logout, account deletion and forced expiry goes through
+// here; AuthContext only renders the current state.
+class SessionManager {
+  private state: SessionState = {
+    ...SIGNED_OUT,
+    status: 'loading',
+    endReason: null,
+  };
+  private listeners = new Set<SessionListener>();
+  private restorePromise: Promise<void> | null = null;
+
+  constructor() {
+    apiClient.onSessionExpired(() => {
+      logger.warn('Session expired, logging out');
+      this.end('expired').catch(error => {
+        logger.error('Failed to end expired session:', error);
+      });
+    });
+    apiClient.onSessionChanged(tokens => {
+      const expiresAt = tokens ? getJWTExpiry(tokens.accessToken) : null;
+      if (
+        this.state.status === 'signed-in' &&
+        expiresAt !== this.state.expiresAt
+      ) {
+        this.setState({ ...this.state, expiresAt });
+      }
+    });
+  }
+
+  getState(): SessionState {
+    return this.state;
+  }
+
+  // Subscribe to session changes; returns an unsubscribe function
+  subscribe(listener: SessionListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Restores the stored session on launch and checks it with the server.
+  // Safe to call more than once; later calls wait for the first.
+  restore(): Promise<void> {
+    if (!this.restorePromise) {
+      this.restorePromise = this.performRestore();
+    }
+    return this.restorePromise;
+  }
+
+  async loginWithPassword(credentials: LoginRequest): Promise<UserResponse> {
+    return this.begin(await authService.login(credentials), 'password');
+  }
+
+  // Signs in with a verified ID token from an identity provider
+  async loginWithProvider(
+    providerId: string,
+    idToken: string
+  ): Promise<UserResponse> {
+    return this.begin(
+      await authService.providerLogin(providerId, idToken),
+      providerId
+    );
+  }
+
+  async signup(profileData: CompleteProfileRequest): Promise<UserResponse> {
+    const user = await authService.completeProfile(profileData);
+    return this.begin({ user, profileComplete: true }, 'signup');
+  }
+
+  // Starts a session from an auth response obtained elsewhere (e.g. demo mode)
+  async begin(
+    auth: AuthResponseData,
+    loginMethod: LoginMethod
+  ): Promise<UserResponse> {
+    if (auth.token) {
+      await apiClient.setSession({
+        accessToken: auth.token,
+        refreshToken: auth.refreshToken ?? null,
+      });
+    }
+    await this.save({ user: auth.user, loginMethod });
+    this.setState({
+      status: 'signed-in',
+      user: auth.user,
+      loginMethod,
+      expiresAt: auth.token ? getJWTExpiry(auth.token) : null,
+      endReason: null,
+    });
+    return auth.user;
+  }
+
+  // Replaces the stored user after a profile change
+  async updateUser(user: UserResponse): Promise<void> {
+    if (this.state.status !== 'signed-in') {
+      logger.warn('updateUser called without a session');
+      return;
+    }
+    await this.save({ user, loginMethod: this.state.loginMethod });
+    this.setState({ ...this.state, user });
+  }
+
+  // Lets the signed-in user also sign in with this provider from now on
+  async linkProvider(providerId: string, idToken: string): Promise<void> {
+    const userId = this.requireUserId();
+    await this.updateUser(
+      await userService.linkIdentity(userId, providerId, idToken)
+    );
+  }
+
+  async unlinkProvider(providerId: string): Promise<void> {
+    const userId = this.requireUserId();
+    await this.updateUser(await userService.unlinkIdentity(userId, providerId));
+  }
+
+  async logout(): Promise<void> {
+    try {
+      await authService.logout();
+    } catch (error) {
+      // The session is ended locally either way
+      logger.warn('Logout request failed:', error);
+    }
+    await this.end('logout');
+  }
+
+  // Deletes the signed-in account on the server, then ends the session
+  async deleteAccount(): Promise<void> {
+    const userId = this.requireUserId();
+    await userService.deleteUser(userId);
+    await this.end('deleted');
+  }
+
+  private requireUserId(): string {
+    const userId = this.state.user?.id;
+    if (!userId) {
+      throw new Error('No user logged in');
+    }
+    return userId;
+  }
+
+  private async performRestore(): Promise<void> {
+    try {
+      const stored = await this.load();
+      if (!stored) {
+        this.setState({ ...SIGNED_OUT, endReason: null });
+        return;
+      }
+
+      // Accounts created through signup have no tokens yet, so there is
+      // no session to verify
+      if (!(await apiClient.isAuthenticated())) {
+        this.resume(stored);
+        return;
+      }
+
+      try {
+        const { user } = await authService.getCurrentUser({
+          timeoutMs: SESSION_CHECK_TIMEOUT_MS,
+        });
+        // Pick up changes made on another device
+        await this.save({ ...stored, user });
+        this.resume({ ...stored, user });
+      } catch (error) {
+        if (
+          error instanceof UnauthorizedError ||
+          error instanceof NotFoundError
+        ) {
+          logger.warn('Stored session is no longer valid, logging out');
+          await this.end('revoked');
+          return;
+        }
+        // Offline or server trouble: carry on with the stored user
+        logger.warn('Could not verify the stored session:', error);
+        this.resume(stored);
+      }
+    } catch (error) {
+      logger.error('Failed to restore session:', error);
+      this.setState({ ...SIGNED_OUT, endReason: null });
+    }
+  }
+
+  private resume(stored: StoredSession): void {
+    const token = apiClient.getToken();
+    this.setState({
+      status: 'signed-in',
+      user: stored.user,
+      loginMethod: stored.loginMethod,
+      expiresAt: token ? getJWTExpiry(token) : null,
+      endReason: null,
+    });
+  }
+
+  // Clears every trace of the session: tokens, stored user and the mutations
+  // queued on the user's behalf
+  private async end(reason: SessionEndReason): Promise<void> {
+    // Keep the first reason when the session is ended twice, e.g. an expired
+    // token found on launch and then rejected by the server
+    const endReason =
+      this.state.status === 'signed-out' ? this.state.endReason : reason;
+    this.setState({ ...SIGNED_OUT, endReason });
+    try {
+      await apiClient.clearSession();
+      await secureStorage.removeItem(STORAGE_KEY);
+      await mutationOutbox.clear();
+    } catch (error) {
+      logger.error('Failed to clear session data:', error);
+    }
+  }
+
+  private async load(): Promise<StoredSession | null> {
+    const stored = await secureStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : null;
+  }
+
+  private async save(session: StoredSession): Promise<void> {
+    await secureStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+  }
+
+  private setState(state: SessionState): void {
+    this.state = state;
+    this.listeners.forEach(listener => listener(state));
+  }
+}
+
+// Export singleton instance
+export const sessionManager = new SessionManager();
+export default sessionManager;
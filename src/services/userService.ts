@@ -1,21 +1,27 @@
 import { PromptCategory } from '../constants/promptCategories';
 import {
+  LinkIdentityRequest,
   PublicUserProfile,
   UpdateProfileRequest,
   UserFilterRequest,
   UserResponse,
   UserSearchResult,
 } from '../types';
-import { apiClient, ApiError } from './apiClient';
+import { decode } from '../utils/decoder';
+import { logger } from '../utils/logger';
+import { apiClient, CallOptions } from './apiClient';
+import { ApiError } from './apiErrors';
+import { publicUserProfileSchema, userResponseSchema } from './schemas';
 
 class UserService {
   // Get prompt categories from backend
-  async getPromptCategories(): Promise<PromptCategory[]> {
+  async getPromptCategories(options?: CallOptions): Promise<PromptCategory[]> {
     try {
-      const response = await apiClient.get<PromptCategory[]>(
-        '/prompts/categories'
+      const { data } = await apiClient.getData<PromptCategory[]>(
+        '/prompts/categories',
+        options
       );
-      return response;
+      return data;
     } catch (error: any) {
       if (error instanceof ApiError) {
         throw error;
@@ -27,13 +33,19 @@ class UserService {
   }
 
   // Get user by ID (matches OpenAPI /users/{id} endpoint)
-  async getUserById(userId: string): Promise<UserResponse> {
+  async getUserById(
+    userId: string,
+    options?: CallOptions
+  ): Promise<UserResponse> {
     try {
       if (!userId || userId === 'undefined') {
         throw new ApiError('User ID is required', 400, ['Invalid user ID']);
       }
-      const response = await apiClient.get<UserResponse>(`/users/${userId}`);
-      return response;
+      const { data } = await apiClient.getData<unknown>(
+        `/users/${userId}`,
+        options
+      );
+      return decode(userResponseSchema, data, 'user');
     } catch (error) {
       if (error instanceof ApiError) {
         throw error;
@@ -47,7 +59,8 @@ class UserService {
   // Update user profile (matches OpenAPI PUT /users/{id}/profile endpoint)
   async updateProfile(
     userId: string,
-    userData: UpdateProfileRequest
+    userData: UpdateProfileRequest,
+    options?: CallOptions
   ): Promise<UserResponse> {
     try {
       if (!userId || userId === 'undefined') {
@@ -56,11 +69,12 @@ class UserService {
         ]);
       }
 
-      const response = await apiClient.put<UserResponse>(
+      const { data } = await apiClient.putData<unknown>(
         `/users/${userId}/profile`,
-        userData
+        userData,
+        { ...options, idempotent: true }
       );
-      return response;
+      return decode(userResponseSchema, data, 'user');
     } catch (error) {
       if (error instanceof ApiError) {
         throw error;
@@ -72,7 +86,10 @@ class UserService {
   }
 
   // Search users with filters
-  async searchUsers(filters: UserFilterRequest): Promise<UserSearchResult[]> {
+  async searchUsers(
+    filters: UserFilterRequest,
+    options?: CallOptions
+  ): Promise<UserSearchResult[]> {
     try {
       // Build query parameters
       const queryParams = new URLSearchParams();
@@ -124,8 +141,11 @@ class UserService {
       const endpoint = `/users/search${
         queryParams.toString() ? `?${queryParams.toString()}` : ''
       }`;
-      const response = await apiClient.get<UserSearchResult[]>(endpoint);
-      return response;
+      const { data } = await apiClient.getData<UserSearchResult[]>(
+        endpoint,
+        options
+      );
+      return data;
     } catch (error) {
       if (error instanceof ApiError) {
         throw error;
@@ -137,22 +157,26 @@ class UserService {
   }
 
   // Get public user profile (uses GET /users/{id}/profile endpoint)
-  async getPublicProfile(userId: string): Promise<PublicUserProfile> {
+  async getPublicProfile(
+    userId: string,
+    options?: CallOptions
+  ): Promise<PublicUserProfile> {
     try {
       if (!userId || userId === 'undefined') {
         throw new ApiError('User ID is required', 400, ['Invalid user ID']);
       }
 
-      console.log('👤 Getting public profile for user:', userId);
+      logger.debug('👤 Getting public profile for user:', userId);
 
-      const response = await apiClient.get<PublicUserProfile>(
-        `/users/${userId}/profile`
+      const { data } = await apiClient.getData<unknown>(
+        `/users/${userId}/profile`,
+        options
       );
 
-      console.log('✅ Public profile loaded:', response);
-      return response;
+      logger.debug('✅ Public profile loaded:', data);
+      return decode(publicUserProfileSchema, data, 'public-profile');
     } catch (error) {
-      console.error('❌ Public profile error:', error);
+      logger.error('❌ Public profile error:', error);
       if (error instanceof ApiError) {
         throw error;
       }
@@ -162,8 +186,59 @@ class UserService {
     }
   }
 
+  // Link an identity provider to the account (POST /users/{id}/identities).
+  // The ID token proves the user controls the provider account.
+  async linkIdentity(
+    userId: string,
+    providerId: string,
+    idToken: string,
+    options?: CallOptions
+  ): Promise<UserResponse> {
+    try {
+      const request: LinkIdentityRequest = {
+        provider: providerId,
+        token: idToken,
+      };
+      const { data } = await apiClient.postData<unknown>(
+        `/users/${userId}/identities`,
+        request,
+        options
+      );
+      return decode(userResponseSchema, data, 'user');
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      throw new ApiError('Failed to link account', 500, [
+        error instanceof Error ? error.message : 'Unknown error',
+      ]);
+    }
+  }
+
+  // Unlink an identity provider (DELETE /users/{id}/identities/{provider})
+  async unlinkIdentity(
+    userId: string,
+    providerId: string,
+    options?: CallOptions
+  ): Promise<UserResponse> {
+    try {
+      const { data } = await apiClient.deleteData<unknown>(
+        `/users/${userId}/identities/${encodeURIComponent(providerId)}`,
+        { ...options, idempotent: true }
+      );
+      return decode(userResponseSchema, data, 'user');
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      throw new ApiError('Failed to unlink account', 500, [
+        error instanceof Error ? error.message : 'Unknown error',
+      ]);
+    }
+  }
+
   // Delete user account (matches OpenAPI DELETE /users/{id} endpoint)
-  async deleteUser(userId: string): Promise<void> {
+  async deleteUser(userId: string, options?: CallOptions): Promise<void> {
     try {
       if (!userId || userId === 'undefined') {
         throw new ApiError('User ID is required for account deletion', 400, [
@@ -171,7 +246,10 @@ class UserService {
         ]);
       }
 
-      await apiClient.delete(`/users/${userId}`);
+      await apiClient.deleteData<void>(`/users/${userId}`, {
+        ...options,
+        idempotent: true,
+      });
     } catch (error) {
       if (error instanceof ApiError) {
         throw error;
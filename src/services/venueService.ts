@@ -1,16 +1,27 @@
-import { Bar, CoffeeShop, Restaurant, Venue } from '../types';
-import { apiClient, ApiError } from './apiClient';
+import { Bar, City, CoffeeShop, Restaurant, Venue } from '../types';
+import { decode } from '../utils/decoder';
+import { logger } from '../utils/logger';
+import { apiClient, CallOptions } from './apiClient';
+import { ApiError, DecodeError, RequestCancelledError } from './apiErrors';
+import {
+  cityListSchema,
+  venueListSchema,
+  venueSearchResponseSchema,
+} from './schemas';
 
 class VenueService {
   // Get bars with flexible search including venue type filter
-  async getBars(params: {
-    city?: string;
-    lat?: number;
-    lng?: number;
-    radius?: number;
-    venueTypes?: string[];
-    eventDate?: string; // Date filtering for venue availability/events
-  }): Promise<Bar[]> {
+  async getBars(
+    params: {
+      city?: string;
+      lat?: number;
+      lng?: number;
+      radius?: number;
+      venueTypes?: string[];
+      eventDate?: string; // Date filtering for venue availability/events
+    },
+    options?: CallOptions
+  ): Promise<Bar[]> {
     try {
       let lat = params.lat;
       let lng = params.lng;
@@ -18,7 +29,7 @@ class VenueService {
 
       // If city is provided but no coordinates, get city coordinates
       if (params.city && (!lat || !lng)) {
-        const cityData = await this.getCityCoordinates(params.city);
+        const cityData = await this.getCityCoordinates(params.city, options);
         if (cityData) {
           lat = cityData.lat;
           lng = cityData.lng;
@@ -59,9 +70,9 @@ class VenueService {
 
       // Use single venues/search endpoint with type filtering
       const endpoint = `/venues/search${queryString}`;
-      console.log('Fetching venues from endpoint:', endpoint);
-      const venues = await this.fetchVenuesFromEndpoint(endpoint);
-      console.log('Venues service returned:', venues.length, 'venues');
+      logger.debug('Fetching venues from endpoint:', endpoint);
+      const venues = await this.fetchVenuesFromEndpoint(endpoint, options);
+      logger.debug('Venues service returned:', venues.length, 'venues');
       return venues;
     } catch (error) {
       if (error instanceof ApiError) {
@@ -74,38 +85,41 @@ class VenueService {
   }
 
   // Helper method to fetch venues from a specific endpoint
-  private async fetchVenuesFromEndpoint(endpoint: string): Promise<Bar[]> {
+  private async fetchVenuesFromEndpoint(
+    endpoint: string,
+    options?: CallOptions
+  ): Promise<Bar[]> {
     try {
-      console.log('API call to:', endpoint);
-      const response = await apiClient.get<any>(endpoint);
-      console.log('API response:', response);
-
-      // Handle different response formats:
-      // /venues/search returns: { venues: [...], searchCenter, radiusMeters, venueTypes, totalResults }
-      // Other endpoints return: { data: [...venues...], success: true, message: "..." }
-      const venues =
-        response.venues && Array.isArray(response.venues)
-          ? response.venues
-          : response.data && Array.isArray(response.data)
-          ? response.data
-          : [];
-
-      console.log('Parsed venues from response:', venues.length);
-      return venues;
+      logger.debug('API call to:', endpoint);
+      const { data } = await apiClient.getData<unknown>(endpoint, options);
+      logger.debug('API response:', data);
+
+      return decode(venueSearchResponseSchema, data, 'venue-search').venues;
     } catch (error) {
+      // Cancellation and malformed payloads must reach the caller rather
+      // than look like "no venues"
+      if (
+        error instanceof RequestCancelledError ||
+        error instanceof DecodeError
+      ) {
+        throw error;
+      }
       // Log error but don't throw to allow other endpoints to succeed
-      console.warn(`Failed to fetch from ${endpoint}:`, error);
+      logger.warn(`Failed to fetch from ${endpoint}:`, error);
       return [];
     }
   }
 
   // Get restaurants with flexible search (city name or coordinates)
-  async getRestaurants(params: {
-    city?: string;
-    lat?: number;
-    lng?: number;
-    radius?: number;
-  }): Promise<Restaurant[]> {
+  async getRestaurants(
+    params: {
+      city?: string;
+      lat?: number;
+      lng?: number;
+      radius?: number;
+    },
+    options?: CallOptions
+  ): Promise<Restaurant[]> {
     try {
       const queryParams = new URLSearchParams();
 
@@ -122,7 +136,8 @@ class VenueService {
       const endpoint = `/restaurants${
         queryParams.toString() ? `?${queryParams.toString()}` : ''
       }`;
-      return await apiClient.get<Restaurant[]>(endpoint);
+      const { data } = await apiClient.getData<unknown>(endpoint, options);
+      return decode(venueListSchema, data, 'restaurants');
     } catch (error) {
       if (error instanceof ApiError) {
         throw error;
@@ -134,12 +149,15 @@ class VenueService {
   }
 
   // Get coffee shops with flexible search (city name or coordinates)
-  async getCoffeeShops(params: {
-    city?: string;
-    lat?: number;
-    lng?: number;
-    radius?: number;
-  }): Promise<CoffeeShop[]> {
+  async getCoffeeShops(
+    params: {
+      city?: string;
+      lat?: number;
+      lng?: number;
+      radius?: number;
+    },
+    options?: CallOptions
+  ): Promise<CoffeeShop[]> {
     try {
       const queryParams = new URLSearchParams();
 
@@ -156,7 +174,8 @@ class VenueService {
       const endpoint = `/coffee-shops${
         queryParams.toString() ? `?${queryParams.toString()}` : ''
       }`;
-      return await apiClient.get<CoffeeShop[]>(endpoint);
+      const { data } = await apiClient.getData<unknown>(endpoint, options);
+      return decode(venueListSchema, data, 'coffee-shops');
     } catch (error) {
       if (error instanceof ApiError) {
         throw error;
@@ -168,12 +187,15 @@ class VenueService {
   }
 
   // Search all venues by location (matches /venues/search endpoint)
-  async searchVenues(params: {
-    lat: number;
-    lng: number;
-    radius?: number;
-    venueTypes?: ('bar' | 'restaurant' | 'coffee-shop')[];
-  }): Promise<Venue[]> {
+  async searchVenues(
+    params: {
+      lat: number;
+      lng: number;
+      radius?: number;
+      venueTypes?: ('bar' | 'restaurant' | 'coffee-shop')[];
+    },
+    options?: CallOptions
+  ): Promise<Venue[]> {
     try {
       const queryParams = new URLSearchParams({
         lat: params.lat.toString(),
@@ -196,7 +218,8 @@ class VenueService {
       }
 
       const endpoint = `/venues/search?${queryParams.toString()}`;
-      return await apiClient.get<Venue[]>(endpoint);
+      const { data } = await apiClient.getData<unknown>(endpoint, options);
+      return decode(venueSearchResponseSchema, data, 'venue-search').venues;
     } catch (error) {
       if (error instanceof ApiError) {
         throw error;
@@ -208,12 +231,15 @@ class VenueService {
   }
 
   // Search bars specifically (matches /venues/bars/search endpoint)
-  async searchBars(params: {
-    lat: number;
-    lng: number;
-    radius?: number;
-    query?: string;
-  }): Promise<Bar[]> {
+  async searchBars(
+    params: {
+      lat: number;
+      lng: number;
+      radius?: number;
+      query?: string;
+    },
+    options?: CallOptions
+  ): Promise<Bar[]> {
     try {
       const queryParams = new URLSearchParams({
         lat: params.lat.toString(),
@@ -229,7 +255,8 @@ class VenueService {
       }
 
       const endpoint = `/venues/bars/search?${queryParams.toString()}`;
-      return await apiClient.get<Bar[]>(endpoint);
+      const { data } = await apiClient.getData<unknown>(endpoint, options);
+      return decode(venueListSchema, data, 'bars');
     } catch (error) {
       if (error instanceof ApiError) {
         throw error;
@@ -241,12 +268,15 @@ class VenueService {
   }
 
   // Search restaurants specifically (matches /venues/restaurants/search endpoint)
-  async searchRestaurants(params: {
-    lat: number;
-    lng: number;
-    radius?: number;
-    query?: string;
-  }): Promise<Restaurant[]> {
+  async searchRestaurants(
+    params: {
+      lat: number;
+      lng: number;
+      radius?: number;
+      query?: string;
+    },
+    options?: CallOptions
+  ): Promise<Restaurant[]> {
     try {
       const queryParams = new URLSearchParams({
         lat: params.lat.toString(),
@@ -262,7 +292,8 @@ class VenueService {
       }
 
       const endpoint = `/venues/restaurants/search?${queryParams.toString()}`;
-      return await apiClient.get<Restaurant[]>(endpoint);
+      const { data } = await apiClient.getData<unknown>(endpoint, options);
+      return decode(venueListSchema, data, 'restaurants');
     } catch (error) {
       if (error instanceof ApiError) {
         throw error;
@@ -274,12 +305,15 @@ class VenueService {
   }
 
   // Search coffee shops specifically (matches /venues/coffee-shops/search endpoint)
-  async searchCoffeeShops(params: {
-    lat: number;
-    lng: number;
-    radius?: number;
-    query?: string;
-  }): Promise<CoffeeShop[]> {
+  async searchCoffeeShops(
+    params: {
+      lat: number;
+      lng: number;
+      radius?: number;
+      query?: string;
+    },
+    options?: CallOptions
+  ): Promise<CoffeeShop[]> {
     try {
       const queryParams = new URLSearchParams({
         lat: params.lat.toString(),
@@ -295,7 +329,8 @@ class VenueService {
       }
 
       const endpoint = `/venues/coffee-shops/search?${queryParams.toString()}`;
-      return await apiClient.get<CoffeeShop[]>(endpoint);
+      const { data } = await apiClient.getData<unknown>(endpoint, options);
+      return decode(venueListSchema, data, 'coffee-shops');
     } catch (error) {
       if (error instanceof ApiError) {
         throw error;
@@ -307,16 +342,19 @@ class VenueService {
   }
 
   // Get all venues in a city (convenience method)
-  async getVenuesInCity(city: string): Promise<{
+  async getVenuesInCity(
+    city: string,
+    options?: CallOptions
+  ): Promise<{
     bars: Bar[];
     restaurants: Restaurant[];
     coffeeShops: CoffeeShop[];
   }> {
     try {
       const [bars, restaurants, coffeeShops] = await Promise.all([
-        this.getBars({ city }),
-        this.getRestaurants({ city }),
-        this.getCoffeeShops({ city }),
+        this.getBars({ city }, options),
+        this.getRestaurants({ city }, options),
+        this.getCoffeeShops({ city }, options),
       ]);
 
       return { bars, restaurants, coffeeShops };
@@ -330,19 +368,21 @@ class VenueService {
     }
   }
 
+  // Fetch and validate the city list
+  private async fetchCities(options?: CallOptions): Promise<City[]> {
+    const { data } = await apiClient.getData<unknown>(
+      '/venues/cities',
+      options
+    );
+    return decode(cityListSchema, data, 'cities');
+  }
+
   // Get available cities from the backend
-  async getCities(): Promise<string[]> {
+  async getCities(options?: CallOptions): Promise<string[]> {
     try {
-      const response = await apiClient.get<any>('/venues/cities');
-
-      // Backend returns data in format: { data: [{key, name, lat, lng, radius}...], message, success }
-      if (response.data && Array.isArray(response.data)) {
-        // Extract city names from city objects
-        return response.data.map((city: any) => city.name || city.key);
-      }
-
-      // Fallback to empty array if data format is unexpected
-      return [];
+      const cities = await this.fetchCities(options);
+      // Extract city names from city objects
+      return cities.map(city => city.name || city.key);
     } catch (error) {
       if (error instanceof ApiError) {
         throw error;
@@ -355,32 +395,36 @@ class VenueService {
 
   // Get city coordinates from the backend
   async getCityCoordinates(
-    cityName: string
+    cityName: string,
+    options?: CallOptions
   ): Promise<{ lat: number; lng: number; radius: number } | null> {
     try {
-      const response = await apiClient.get<any>('/venues/cities');
-
-      // Backend returns data in format: { data: [{key, name, lat, lng, radius}...], message, success }
-      if (response.data && Array.isArray(response.data)) {
-        // Find city by name (case insensitive)
-        const city = response.data.find(
-          (c: any) =>
-            c.name?.toLowerCase() === cityName.toLowerCase() ||
-            c.key?.toLowerCase() === cityName.toLowerCase()
-        );
-
-        if (city) {
-          return {
-            lat: city.lat,
-            lng: city.lng,
-            radius: city.radius || 5000,
-          };
-        }
+      const cities = await this.fetchCities(options);
+
+      // Find city by name (case insensitive)
+      const city = cities.find(
+        c =>
+          c.name.toLowerCase() === cityName.toLowerCase() ||
+          c.key.toLowerCase() === cityName.toLowerCase()
+      );
+
+      if (city) {
+        return {
+          lat: city.lat,
+          lng: city.lng,
+          radius: city.radius || 5000,
+        };
       }
 
       return null;
     } catch (error) {
-      console.warn('Failed to get city coordinates:', error);
+      if (
+        error instanceof RequestCancelledError ||
+        error instanceof DecodeError
+      ) {
+        throw error;
+      }
+      logger.warn('Failed to get city coordinates:', error);
       return null;
     }
   }
@@ -10,7 +10,8 @@ export interface ErrorResponse {
   success: false;
   message: string;
   error?: string;
-  details?: string[];
+  details?: (string | ValidationError)[];
+  errors?: ValidationError[]; // Field-level validation problems
 }
 
 // Validation Error
@@ -42,6 +42,8 @@ export interface UserResponse {
   showGender?: boolean;
   showOrientation?: boolean;
   promptAnswers?: UserPromptAnswer[];
+  // Ids of the identity providers the account can sign in with
+  linkedProviders?: string[];
 }
 
 // Public User Profile Interface (matches OpenAPI PublicUserProfile schema)
@@ -70,8 +72,18 @@ export interface LoginRequest {
   password: string;
 }
 
-// Google Auth Request Interface (matches OpenAPI GoogleAuthRequest schema)
-export interface GoogleAuthRequest {
+// Identity provider login request (POST /auth/{provider}); the token is the
+// provider's ID token
+export interface ProviderAuthRequest {
+  token: string;
+}
+
+// For backwards compatibility (matches OpenAPI GoogleAuthRequest schema)
+export type GoogleAuthRequest = ProviderAuthRequest;
+
+// Link Identity Request Interface (POST /users/{id}/identities)
+export interface LinkIdentityRequest {
+  provider: string;
   token: string;
 }
 
@@ -125,6 +137,26 @@ export interface AuthResponseData {
   user: UserResponse;
   profileComplete: boolean;
   token?: string; // Optional token field for API authentication
+  refreshToken?: string; // Long-lived token used to renew the access token
+}
+
+// Login Response (matches the /auth/login data payload)
+export interface LoginResponse {
+  user: UserResponse;
+  token?: string;
+  refreshToken?: string;
+}
+
+// Refresh Token Request (matches /auth/refresh endpoint)
+export interface RefreshTokenRequest {
+  refreshToken: string;
+}
+
+// Refresh Token Response (backend may return either accessToken or token)
+export interface RefreshTokenResponse {
+  accessToken?: string;
+  token?: string;
+  refreshToken?: string;
 }
 
 // User Search Filters
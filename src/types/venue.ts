@@ -44,8 +44,26 @@ export interface VenueSearchRequest {
   venueTypes?: VenueType[];
 }
 
+// Venue Search Response (matches /venues/search, which wraps its results)
+export interface VenueSearchResponse {
+  venues: Venue[];
+  searchCenter?: { lat: number; lng: number };
+  radiusMeters?: number;
+  venueTypes?: VenueType[];
+  totalResults?: number;
+}
+
 // Venue Detail Response (for specific venue requests)
 export interface VenueDetail extends Venue {
   // Additional venue details could be added here if needed
   // e.g., hours, photos, reviews, etc.
 }
+
+// City Interface (matches /venues/cities response entries)
+export interface City {
+  key: string;
+  name: string;
+  lat: number;
+  lng: number;
+  radius?: number; // Default search radius in meters
+}
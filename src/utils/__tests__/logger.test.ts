@@ -0,0 +1,114 @@
+import { consoleSink, LogEntry, logger, redact } from '../logger';
+
+describe('redact', () => {
+  it('hides tokens, emails and coordinates by key', () => {
+    expect(
+      redact({
+        accessToken: 'a',
+        refresh_token: 'b',
+        headers: { Authorization: 'Bearer c' },
+        email: 'alex@example.com',
+        latitude: 51.5,
+        lng: -0.12,
+        coordinates: [51.5, -0.12],
+        name: 'Alex',
+      })
+    ).toEqual({
+      accessToken: '[REDACTED]',
+      refresh_token: '[REDACTED]',
+      headers: { Authorization: '[REDACTED]' },
+      email: '[REDACTED]',
+      latitude: '[REDACTED]',
+      lng: '[REDACTED]',
+      coordinates: '[REDACTED]',
+      name: 'Alex',
+    });
+  });
+
+  it('scrubs bearer tokens, emails and coordinates from text', () => {
+    expect(
+      redact(
+        'GET /dates?lat=51.5&lng=-0.12&page=2 for alex@example.com with Bearer abc.def-ghi'
+      )
+    ).toBe(
+      'GET /dates?lat=[REDACTED]&lng=[REDACTED]&page=2 for [REDACTED] with Bearer [REDACTED]'
+    );
+  });
+
+  it('keeps the error message but redacts what it contains', () => {
+    const error = new Error('No account for alex@example.com');
+
+    expect(redact(error)).toMatchObject({
+      name: 'Error',
+      message: 'No account for [REDACTED]',
+    });
+  });
+
+  it('leaves the original value untouched', () => {
+    const session = { user: { email: 'alex@example.com' } };
+
+    redact(session);
+
+    expect(session.user.email).toBe('alex@example.com');
+  });
+
+  it('handles cycles and deep nesting', () => {
+    const cyclic: Record<string, unknown> = { name: 'loop' };
+    cyclic.self = cyclic;
+    const deep = { a: { b: { c: { d: { e: { f: { g: 1 } } } } } } };
+
+    expect(redact(cyclic)).toEqual({ name: 'loop', self: '[Circular]' });
+    expect(JSON.stringify(redact(deep))).toContain('[Truncated]');
+  });
+});
+
+describe('logger', () => {
+  let entries: LogEntry[];
+
+  beforeEach(() => {
+    entries = [];
+    logger.setSinks([entry => entries.push(entry)]);
+    logger.setLevel('debug');
+  });
+
+  afterEach(() => {
+    logger.setSinks([consoleSink]);
+    logger.setLevel('silent');
+  });
+
+  it('redacts the message and data before they reach a sink', () => {
+    logger.info('Signed in alex@example.com', { refreshToken: 'secret' });
+
+    expect(entries).toEqual([
+      expect.objectContaining({
+        level: 'info',
+        message: 'Signed in [REDACTED]',
+        data: [{ refreshToken: '[REDACTED]' }],
+      }),
+    ]);
+  });
+
+  it('drops entries below the configured level', () => {
+    logger.setLevel('warn');
+
+    logger.debug('debug');
+    logger.info('info');
+    logger.warn('warn');
+    logger.error('error');
+
+    expect(entries.map(entry => entry.level)).toEqual(['warn', 'error']);
+  });
+
+  it('keeps writing to other sinks when one throws', () => {
+    logger.setSinks([
+      () => {
+        throw new Error('sink failed');
+      },
+      entry => entries.push(entry),
+    ]);
+
+    logger.warn('still logged');
+
+    expect(entries).toHaveLength(1);
+  });
+});
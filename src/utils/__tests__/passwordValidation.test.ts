@@ -0,0 +1,53 @@
+import {
+  getPasswordStrengthColor,
+  getPasswordStrengthText,
+  validatePassword,
+} from '../passwordValidation';
+
+describe('validatePassword', () => {
+  it.each([
+    ['', 'empty'],
+    ['123', 'too short'],
+    ['password', 'missing uppercase, number and special character'],
+    ['Password1', 'missing a special character'],
+    ['12345678', 'only numbers'],
+    ['PASSWORD123!', 'missing a lowercase letter'],
+  ])('rejects %p (%s)', password => {
+    expect(validatePassword(password).isValid).toBe(false);
+  });
+
+  it.each(['Password1!', 'MyStr0ng!P@ssw0rd'])('accepts %p', password => {
+    const result = validatePassword(password);
+
+    expect(result.isValid).toBe(true);
+    expect(result.errors).toEqual([]);
+  });
+
+  it('lists every unmet requirement', () => {
+    expect(validatePassword('abc').errors).toEqual([
+      'At least 8 characters',
+      'At least one uppercase letter',
+      'At least one number',
+      'At least one special character (!@#$%^&*()_+-=[]{}|;:,.<>?)',
+    ]);
+  });
+
+  it.each([
+    ['abc', 'weak'],
+    ['password', 'fair'],
+    ['Password1', 'good'],
+    ['Password1!', 'strong'],
+    ['MyStr0ng!P@ssw0rd', 'strong'],
+  ])('rates %p as %s', (password, strength) => {
+    expect(validatePassword(password).strength).toBe(strength);
+  });
+});
+
+describe('password strength labels', () => {
+  it('maps every strength to a label and colour', () => {
+    expect(getPasswordStrengthText('weak')).toBe('Weak');
+    expect(getPasswordStrengthText('strong')).toBe('Strong');
+    expect(getPasswordStrengthColor('weak')).toBe('#ff4444');
+    expect(getPasswordStrengthColor('good')).toBe('#44aa44');
+  });
+});
@@ -0,0 +1,113 @@
+import type * as SecureStoreModule from 'expo-secure-store';
+import type { Platform } from 'react-native';
+
+type StorageModule = typeof import('../platformStorage');
+
+const profile = JSON.stringify({
+  user: { id: 'u1', email: 'alex@example.com', dob: '1994-03-12' },
+  loginMethod: 'password',
+});
+
+describe('secureStorage', () => {
+  // Every test starts from a fresh install with empty storage and keystore
+  let platformStorage: StorageModule['platformStorage'];
+  let secureStorage: StorageModule['secureStorage'];
+  let SecureStore: typeof SecureStoreModule;
+
+  const launch = (platform: typeof Platform.OS = 'ios') => {
+    jest.resetModules();
+    jest.requireActual<typeof import('react-native')>(
+      'react-native'
+    ).Platform.OS = platform;
+    jest
+      .requireActual<typeof import('../logger')>('../logger')
+      .logger.setLevel('silent');
+    // Mocked in jest.setup.ts. Spied on before platformStorage takes its
+    // copy, so tests can make single calls fail.
+    SecureStore =
+      jest.requireMock<typeof SecureStoreModule>('expo-secure-store');
+    jest.spyOn(SecureStore, 'getItemAsync');
+    ({ platformStorage, secureStorage } =
+      jest.requireActual<StorageModule>('../platformStorage'));
+  };
+
+  beforeEach(() => {
+    launch();
+  });
+
+  it('keeps secrets in the keystore', async () => {
+    await secureStorage.setSecret('authToken', 'access-1');
+
+    expect(await secureStorage.getSecret('authToken')).toBe('access-1');
+    expect(await SecureStore.getItemAsync('authToken')).toBe('access-1');
+    expect(await platformStorage.getItem('authToken')).toBeNull();
+
+    await secureStorage.removeSecret('authToken');
+    expect(await secureStorage.getSecret('authToken')).toBeNull();
+  });
+
+  it('encrypts items at rest', async () => {
+    await secureStorage.setItem('session', profile);
+
+    const stored = await platformStorage.getItem('secure:session');
+    expect(stored).not.toBeNull();
+    expect(stored).not.toContain('alex@example.com');
+    expect(await secureStorage.getItem('session')).toBe(profile);
+  });
+
+  it('uses a fresh nonce for every write', async () => {
+    await secureStorage.setItem('session', profile);
+    const first = await platformStorage.getItem('secure:session');
+    await secureStorage.setItem('session', profile);
+
+    expect(await platformStorage.getItem('secure:session')).not.toBe(first);
+  });
+
+  it('discards an item that no longer decrypts', async () => {
+    await secureStorage.setItem('session', profile);
+    const stored = (await platformStorage.getItem('secure:session'))!;
+    // Flip the last byte of the authentication tag
+    const last = (parseInt(stored.slice(-2), 16) ^ 1)
+      .toString(16)
+      .padStart(2, '0');
+    await platformStorage.setItem('secure:session', stored.slice(0, -2) + last);
+
+    expect(await secureStorage.getItem('session')).toBeNull();
+    expect(await platformStorage.getItem('secure:session')).toBeNull();
+  });
+
+  it('keeps an item it cannot read while the keystore is unavailable', async () => {
+    await platformStorage.setItem('secure:session', 'ab'.repeat(48));
+    jest
+      .mocked(SecureStore.getItemAsync)
+      .mockRejectedValueOnce(new Error('Keychain locked'));
+
+    expect(await secureStorage.getItem('session')).toBeNull();
+    expect(await platformStorage.getItem('secure:session')).toBe(
+      'ab'.repeat(48)
+    );
+  });
+
+  it('reports an item it could not encrypt', async () => {
+    jest
+      .mocked(SecureStore.getItemAsync)
+      .mockRejectedValueOnce(new Error('Keychain locked'));
+
+    await expect(secureStorage.setItem('session', profile)).rejects.toThrow(
+      'Keychain locked'
+    );
+    expect(await platformStorage.getItem('secure:session')).toBeNull();
+  });
+
+  it('only keeps values in memory on the web', async () => {
+    launch('web');
+
+    await secureStorage.setSecret('authToken', 'access-1');
+    await secureStorage.setItem('session', profile);
+
+    expect(secureStorage.mode).toBe('memory');
+    expect(await secureStorage.getSecret('authToken')).toBe('access-1');
+    expect(await secureStorage.getItem('session')).toBe(profile);
+    expect(await SecureStore.getItemAsync('authToken')).toBeNull();
+  });
+});
@@ -0,0 +1,187 @@
+import type { StorageMigration } from '../storageMigrations';
+
+type StorageModule = typeof import('../platformStorage');
+type MigrationsModule = typeof import('../storageMigrations');
+
+const user = { id: 'u1', username: 'alex', email: 'alex@example.com' };
+
+describe('storage migrations', () => {
+  // Every test starts from a fresh install with empty storage and keystore
+  let platformStorage: StorageModule['platformStorage'];
+  let secureStorage: StorageModule['secureStorage'];
+  let runStorageMigrations: MigrationsModule['runStorageMigrations'];
+  let STORAGE_MIGRATIONS: MigrationsModule['STORAGE_MIGRATIONS'];
+
+  beforeEach(() => {
+    jest.resetModules();
+    jest
+      .requireActual<typeof import('../logger')>('../logger')
+      .logger.setLevel('silent');
+    ({ platformStorage, secureStorage } =
+      jest.requireActual<StorageModule>('../platformStorage'));
+    ({ runStorageMigrations, STORAGE_MIGRATIONS } =
+      jest.requireActual<MigrationsModule>('../storageMigrations'));
+  });
+
+  const only = (version: number) =>
+    STORAGE_MIGRATIONS.filter(migration => migration.version === version);
+
+  describe('runStorageMigrations', () => {
+    const step = (
+      version: number,
+      up: StorageMigration['up'] = async () => {}
+    ): StorageMigration => ({
+      version,
+      description: `step ${version}`,
+      up: jest.fn(up),
+    });
+
+    it('runs pending steps in order and records the version', async () => {
+      const steps = [
+        step(1, async store => store.setItem('order', '1')),
+        step(2, async store =>
+          store.setItem('order', (await store.getItem('order')) + ',2')
+        ),
+      ];
+
+      await expect(runStorageMigrations(steps)).resolves.toBe(2);
+
+      expect(await platformStorage.getItem('order')).toBe('1,2');
+      expect(await platformStorage.getItem('storageSchemaVersion')).toBe('2');
+    });
+
+    it('skips steps that already ran', async () => {
+      await runStorageMigrations([step(1)]);
+      const steps = [step(1), step(2)];
+
+      await runStorageMigrations(steps);
+
+      expect(steps[0].up).not.toHaveBeenCalled();
+      expect(steps[1].up).toHaveBeenCalledTimes(1);
+    });
+
+    it('leaves storage untouched when a step throws', async () => {
+      await platformStorage.setItem('kept', 'original');
+      const steps = [
+        step(1, async store => {
+          store.setItem('kept', 'changed');
+          store.removeItem('kept');
+          throw new Error('Unexpected shape');
+        }),
+        step(2),
+      ];
+
+      await expect(runStorageMigrations(steps)).resolves.toBe(0);
+
+      expect(await platformStorage.getItem('kept')).toBe('original');
+      expect(steps[1].up).not.toHaveBeenCalled();
+
+      // Retried on the next launch
+      await runStorageMigrations([step(1), step(2)]);
+      expect(await platformStorage.getItem('storageSchemaVersion')).toBe('2');
+    });
+
+    it('puts back earlier writes when a later one fails', async () => {
+      await platformStorage.setItem('plain', 'original');
+      await secureStorage.setItem('secure', 'original');
+      jest.spyOn(secureStorage, 'setItem').mockResolvedValue();
+
+      const version = await runStorageMigrations([
+        step(1, async store => {
+          store.setItem('plain', 'changed');
+          store.setSecureItem('secure', 'changed');
+          store.removeItem('other');
+        }),
+      ]);
+
+      expect(version).toBe(0);
+      expect(await platformStorage.getItem('plain')).toBe('original');
+    });
+  });
+
+  describe('1: move credentials out of plaintext storage', () => {
+    it('moves tokens to the keystore and the profile to encrypted storage', async () => {
+      const session = JSON.stringify({ user, loginMethod: 'password' });
+      await platformStorage.setItem('authToken', 'access-1');
+      await platformStorage.setItem('refreshToken', 'refresh-1');
+      await platformStorage.setItem('session', session);
+
+      await runStorageMigrations(only(1));
+
+      expect(await secureStorage.getSecret('authToken')).toBe('access-1');
+      expect(await secureStorage.getSecret('refreshToken')).toBe('refresh-1');
+      expect(await secureStorage.getItem('session')).toBe(session);
+      for (const key of ['authToken', 'refreshToken', 'session']) {
+        expect(await platformStorage.getItem(key)).toBeNull();
+      }
+    });
+
+    it('does nothing on a fresh install', async () => {
+      await expect(runStorageMigrations(only(1))).resolves.toBe(1);
+
+      expect(await secureStorage.getSecret('authToken')).toBeNull();
+    });
+  });
+
+  describe('2: replace the stored user with a session', () => {
+    const storedSession = async () =>
+      JSON.parse((await secureStorage.getItem('session'))!);
+
+    it('unwraps a user saved in the response envelope', async () => {
+      await secureStorage.setItem(
+        'userData',
+        JSON.stringify({ data: user, success: true, message: 'OK' })
+      );
+
+      await runStorageMigrations(only(2));
+
+      expect(await storedSession()).toEqual({ user, loginMethod: null });
+      expect(await secureStorage.getItem('userData')).toBeNull();
+    });
+
+    it('keeps a user saved as-is', async () => {
+      await secureStorage.setItem('userData', JSON.stringify(user));
+
+      await runStorageMigrations(only(2));
+
+      expect(await storedSession()).toEqual({ user, loginMethod: null });
+    });
+
+    it('prefers an existing session', async () => {
+      const session = JSON.stringify({ user, loginMethod: 'google' });
+      await secureStorage.setItem('session', session);
+      await secureStorage.setItem('userData', JSON.stringify(user));
+
+      await runStorageMigrations(only(2));
+
+      expect(await secureStorage.getItem('session')).toBe(session);
+      expect(await secureStorage.getItem('userData')).toBeNull();
+    });
+
+    it('drops a user that cannot be parsed', async () => {
+      await secureStorage.setItem('userData', '{"id": "u1"');
+
+      await expect(runStorageMigrations(only(2))).resolves.toBe(2);
+
+      expect(await secureStorage.getItem('session')).toBeNull();
+      expect(await secureStorage.getItem('userData')).toBeNull();
+    });
+  });
+
+  it('upgrades a pre-secure-storage install end to end', async () => {
+    await platformStorage.setItem('authToken', 'access-1');
+    await platformStorage.setItem(
+      'userData',
+      JSON.stringify({ data: user, success: true })
+    );
+
+    await runStorageMigrations();
+
+    expect(await secureStorage.getSecret('authToken')).toBe('access-1');
+    expect(JSON.parse((await secureStorage.getItem('session'))!)).toEqual({
+      user,
+      loginMethod: null,
+    });
+    expect(await platformStorage.getItem('userData')).toBeNull();
+  });
+});
@@ -0,0 +1,99 @@
+import { DecodeError } from '../services/apiErrors';
+
+// A decoder checks an unknown value at runtime and returns it typed, or
+// throws a DecodeError naming the path of the first offending field.
+export type Decoder<T> = (value: unknown, path: string) => T;
+
+type RequiredKeys<T> = {
+  [K in keyof T]-?: Partial<Pick<T, K>> extends Pick<T, K> ? never : K;
+}[keyof T];
+type OptionalKeys<T> = Exclude<keyof T, RequiredKeys<T>>;
+
+// Required properties must be decoded; optional ones may be. Properties that
+// are not listed pass through untouched (the backend adds extra fields).
+export type ObjectShape<T> = { [K in RequiredKeys<T>]: Decoder<T[K]> } & {
+  [K in OptionalKeys<T>]?: Decoder<T[K]>;
+};
+
+const describe = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+};
+
+const fail = (path: string, expected: string, value: unknown): never => {
+  throw new DecodeError(path, expected, describe(value));
+};
+
+export const string: Decoder<string> = (value, path) =>
+  typeof value === 'string' ? value : fail(path, 'string', value);
+
+export const number: Decoder<number> = (value, path) =>
+  typeof value === 'number' && !Number.isNaN(value)
+    ? value
+    : fail(path, 'number', value);
+
+export const boolean: Decoder<boolean> = (value, path) =>
+  typeof value === 'boolean' ? value : fail(path, 'boolean', value);
+
+export const oneOf =
+  <T extends string>(...allowed: T[]): Decoder<T> =>
+  (value, path) =>
+    allowed.includes(value as T)
+      ? (value as T)
+      : fail(path, `one of ${allowed.join(', ')}`, value);
+
+// Treats null and undefined as absent
+export const optional =
+  <T>(decoder: Decoder<T>): Decoder<T | undefined> =>
+  (value, path) =>
+    value === undefined || value === null ? undefined : decoder(value, path);
+
+// Substitutes a fallback when the value is absent
+export const withDefault =
+  <T>(decoder: Decoder<T>, fallback: T): Decoder<T> =>
+  (value, path) =>
+    value === undefined || value === null ? fallback : decoder(value, path);
+
+export const array =
+  <T>(decoder: Decoder<T>): Decoder<T[]> =>
+  (value, path) => {
+    if (!Array.isArray(value)) {
+      return fail(path, 'array', value);
+    }
+    return value.map((item, index) => decoder(item, `${path}[${index}]`));
+  };
+
+export const object =
+  <T>(shape: ObjectShape<T>): Decoder<T> =>
+  (value, path) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      return fail(path, 'object', value);
+    }
+
+    const input = value as Record<string, unknown>;
+    const result: Record<string, unknown> = { ...input };
+    Object.entries(shape).forEach(([key, decoder]) => {
+      const decoded = (decoder as Decoder<unknown>)(
+        input[key],
+        `${path}.${key}`
+      );
+      if (decoded !== undefined) {
+        result[key] = decoded;
+      }
+    });
+    return result as T;
+  };
+
+// Defers building a decoder, for schemas that reference each other
+export const lazy =
+  <T>(build: () => Decoder<T>): Decoder<T> =>
+  (value, path) =>
+    build()(value, path);
+
+// Runs a decoder from the root of a payload
+export const decode = <T>(
+  decoder: Decoder<T>,
+  value: unknown,
+  root = 'response'
+): T => decoder(value, root);
@@ -1,164 +0,0 @@
-/**
- * Test Suite for Delete Account Feature
- *
- * This file contains tests for the delete account functionality
- * including confirmation modal, API integration, and user flow.
- */
-
-import { userService } from '../services/userService';
-
-// Mock test to verify delete user API call structure
-export const testDeleteUserAPI = async () => {
-  console.log('Testing Delete User API...');
-
-  // Test cases for delete user functionality
-  const testCases = [
-    {
-      description: 'Should reject invalid user ID',
-      userId: '',
-      expectedError: true,
-    },
-    {
-      description: 'Should reject undefined user ID',
-      userId: 'undefined',
-      expectedError: true,
-    },
-    {
-      description: 'Should accept valid user ID format',
-      userId: '12345',
-      expectedError: false,
-      mockCall: true, // Don't actually call API in test
-    },
-  ];
-
-  let passed = 0;
-  let failed = 0;
-
-  for (const testCase of testCases) {
-    try {
-      if (testCase.mockCall) {
-        // Mock successful API call for valid case
-        console.log(
-          `✅ PASS: ${testCase.description} - Would call DELETE /users/${testCase.userId}`
-        );
-        passed++;
-      } else {
-        // Test validation logic
-        await userService.deleteUser(testCase.userId);
-        if (testCase.expectedError) {
-          console.log(
-            `❌ FAIL: ${testCase.description} - Should have thrown error`
-          );
-          failed++;
-        } else {
-          console.log(`✅ PASS: ${testCase.description}`);
-          passed++;
-        }
-      }
-    } catch (error: any) {
-      if (testCase.expectedError) {
-        console.log(
-          `✅ PASS: ${testCase.description} - Correctly threw error: ${error.message}`
-        );
-        passed++;
-      } else {
-        console.log(
-          `❌ FAIL: ${testCase.description} - Unexpected error: ${error.message}`
-        );
-        failed++;
-      }
-    }
-  }
-
-  console.log(`\nDelete User API Tests: ${passed} passed, ${failed} failed`);
-  return { passed, failed };
-};
-
-// Test confirmation modal validation
-export const testDeleteConfirmation = () => {
-  console.log('Testing Delete Confirmation Logic...');
-
-  const testInputs = [
-    { input: 'delete', valid: true, description: 'Exact match lowercase' },
-    { input: 'DELETE', valid: true, description: 'Uppercase match' },
-    { input: 'Delete', valid: true, description: 'Mixed case match' },
-    { input: 'delte', valid: false, description: 'Misspelled' },
-    { input: 'del', valid: false, description: 'Partial word' },
-    { input: '', valid: false, description: 'Empty input' },
-    { input: 'delete account', valid: false, description: 'Extra words' },
-    { input: ' delete ', valid: false, description: 'With spaces' },
-  ];
-
-  let passed = 0;
-  let failed = 0;
-
-  testInputs.forEach(({ input, valid, description }) => {
-    const isValid = input.toLowerCase() === 'delete';
-    const success = isValid === valid;
-
-    if (success) {
-      console.log(`✅ PASS: ${description} - "${input}"`);
-      passed++;
-    } else {
-      console.log(
-        `❌ FAIL: ${description} - "${input}" (Expected: ${valid}, Got: ${isValid})`
-      );
-      failed++;
-    }
-  });
-
-  console.log(
-    `\nDelete Confirmation Tests: ${passed} passed, ${failed} failed`
-  );
-  return { passed, failed };
-};
-
-// Test the complete delete flow
-export const testDeleteAccountFlow = () => {
-  console.log('Testing Delete Account Flow...');
-
-  const flowSteps = [
-    '1. User clicks "Delete Account" button in profile',
-    '2. Modal opens with warning and confirmation input',
-    '3. User must type "delete" to enable confirmation',
-    '4. API call is made to DELETE /users/{userId}',
-    '5. User data is cleared from local storage',
-    '6. User is redirected to login screen',
-    '7. Account and all data is permanently deleted',
-  ];
-
-  console.log('Delete Account Flow:');
-  flowSteps.forEach(step => {
-    console.log(`   ${step}`);
-  });
-
-  console.log('\n✅ Delete Account Flow Documented');
-  return { steps: flowSteps.length };
-};
-
-// Run all tests
-export const runDeleteAccountTests = () => {
-  console.log('=== Delete Account Feature Tests ===\n');
-
-  const confirmationResults = testDeleteConfirmation();
-  console.log('');
-  const flowResults = testDeleteAccountFlow();
-  console.log('');
-
-  // Note: API test would need mock implementation to avoid actual API calls
-  console.log(
-    'Note: API tests should be run with proper mocking in a test environment'
-  );
-
-  console.log('\n=== Test Summary ===');
-  console.log(
-    `Total Confirmation Tests: ${
-      confirmationResults.passed + confirmationResults.failed
-    }`
-  );
-  console.log(`Flow Steps Documented: ${flowResults.steps}`);
-  console.log('Delete Account feature implementation complete! 🎉');
-};
-
-// Example usage:
-// runDeleteAccountTests();
@@ -0,0 +1,52 @@
+import {
+  ApiError,
+  ConflictError,
+  ValidationFailedError,
+} from '../services/apiErrors';
+
+export type FieldErrors<F extends string> = Partial<Record<F, string>>;
+
+// Maps backend errors onto the form fields they concern, so screens can show
+// e.g. "Username already taken" under the username input instead of an alert.
+// Structured { field, message } entries win; for validation and conflict
+// errors without them, a field named in the message is used as a fallback.
+export const mapApiErrorToFields = <F extends string>(
+  error: unknown,
+  fields: readonly F[]
+): FieldErrors<F> => {
+  const fieldErrors: FieldErrors<F> = {};
+  if (!(error instanceof ApiError)) {
+    return fieldErrors;
+  }
+
+  const findField = (name: string) =>
+    fields.find(field => field.toLowerCase() === name.toLowerCase());
+
+  error.fieldErrors.forEach(({ field, message }) => {
+    const formField = findField(field);
+    if (formField && !fieldErrors[formField]) {
+      fieldErrors[formField] = message;
+    }
+  });
+
+  if (
+    Object.keys(fieldErrors).length === 0 &&
+    (error instanceof ValidationFailedError || error instanceof ConflictError)
+  ) {
+    const messages = [error.message, ...(error.errors || [])];
+    messages.forEach(message => {
+      const mentioned = fields.find(field =>
+        new RegExp(`\\b${field}\\b`, 'i').test(message)
+      );
+      if (mentioned && !fieldErrors[mentioned]) {
+        fieldErrors[mentioned] = message;
+      }
+    });
+  }
+
+  return fieldErrors;
+};
+
+export const hasFieldErrors = <F extends string>(
+  fieldErrors: FieldErrors<F>
+): boolean => Object.keys(fieldErrors).length > 0;
@@ -0,0 +1,89 @@
+import * as Crypto from 'expo-crypto';
+import { logger } from './logger';
+import { platformStorage } from './platformStorage';
+
+const STORAGE_KEY = 'idempotencyKeys';
+// Keys older than this are assumed to be forgotten by the backend
+const KEY_TTL_MS = 24 * 60 * 60 * 1000;
+
+interface StoredIdempotencyKey {
+  key: string;
+  createdAt: number;
+}
+
+type IdempotencyKeyMap = Record<string, StoredIdempotencyKey>;
+
+export interface AcquiredIdempotencyKey {
+  key: string;
+  // Left over from an earlier attempt whose outcome is unknown
+  reused: boolean;
+}
+
+// Persists in-flight idempotency keys so a retry after an app kill reuses the
+// key of the original attempt. Entries are indexed by an operation fingerprint
+// describing what the mutation does (e.g. "join-date-event:<eventId>:<userId>").
+class IdempotencyKeyStore {
+  // Serialises read-modify-write cycles so a double tap gets the same key
+  private lock: Promise<unknown> = Promise.resolve();
+
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.lock.then(task);
+    this.lock = result.catch(() => undefined);
+    return result;
+  }
+
+  private async load(): Promise<IdempotencyKeyMap> {
+    try {
+      const stored = await platformStorage.getItem(STORAGE_KEY);
+      if (!stored) {
+        return {};
+      }
+
+      // Drop expired entries while loading
+      const keys: IdempotencyKeyMap = JSON.parse(stored);
+      const now = Date.now();
+      return Object.fromEntries(
+        Object.entries(keys).filter(
+          ([, entry]) => now - entry.createdAt < KEY_TTL_MS
+        )
+      );
+    } catch (error) {
+      logger.error('Failed to load idempotency keys:', error);
+      return {};
+    }
+  }
+
+  private async save(keys: IdempotencyKeyMap): Promise<void> {
+    await platformStorage.setItem(STORAGE_KEY, JSON.stringify(keys));
+  }
+
+  // Returns the pending key for an operation, creating one if needed
+  acquire(fingerprint: string): Promise<AcquiredIdempotencyKey> {
+    return this.exclusive(async () => {
+      const keys = await this.load();
+      const existing = keys[fingerprint];
+      if (existing) {
+        return { key: existing.key, reused: true };
+      }
+
+      const key = Crypto.randomUUID();
+      keys[fingerprint] = { key, createdAt: Date.now() };
+      await this.save(keys);
+      return { key, reused: false };
+    });
+  }
+
+  // Forgets the key once the operation has definitively succeeded or failed
+  release(fingerprint: string): Promise<void> {
+    return this.exclusive(async () => {
+      const keys = await this.load();
+      if (keys[fingerprint]) {
+        delete keys[fingerprint];
+        await this.save(keys);
+      }
+    });
+  }
+}
+
+export const idempotencyKeys = new IdempotencyKeyStore();
+export default idempotencyKeys;
@@ -0,0 +1,68 @@
+export interface DecodedJWT {
+  header: Record<string, any>;
+  payload: Record<string, any>;
+  // "<header>.<payload>" exactly as received, which is what gets signed
+  signingInput: string;
+  signature: Uint8Array;
+}
+
+export const base64UrlToBytes = (value: string): Uint8Array => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='));
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+};
+
+export const bytesToBase64Url = (bytes: Uint8Array): string =>
+  btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+
+const decodeJSONPart = (part: string): Record<string, any> => {
+  const json = decodeURIComponent(
+    Array.from(base64UrlToBytes(part))
+      .map(byte => '%' + ('00' + byte.toString(16)).slice(-2))
+      .join('')
+  );
+  return JSON.parse(json);
+};
+
+// Splits a JWT into its parts without verifying anything
+export const decodeJWT = (token: string): DecodedJWT => {
+  try {
+    const [header, payload, signature, ...rest] = token.split('.');
+    if (!header || !payload || signature === undefined || rest.length) {
+      throw new Error('Wrong number of parts');
+    }
+    return {
+      header: decodeJSONPart(header),
+      payload: decodeJSONPart(payload),
+      signingInput: `${header}.${payload}`,
+      signature: base64UrlToBytes(signature),
+    };
+  } catch {
+    throw new Error('Invalid JWT token');
+  }
+};
+
+// Decodes the payload of a JWT without verifying its signature. Only for
+// reading claims the app trusts for other reasons (e.g. expiry of its own
+// access token); ID tokens go through verifyIdToken.
+export const parseJWTPayload = (token: string): Record<string, any> => {
+  try {
+    return decodeJSONPart(token.split('.')[1]);
+  } catch {
+    throw new Error('Invalid JWT token');
+  }
+};
+
+// Expiry of a JWT in epoch milliseconds, or null when the token is opaque
+// or has no exp claim
+export const getJWTExpiry = (token: string): number | null => {
+  try {
+    const { exp } = parseJWTPayload(token);
+    return typeof exp === 'number' ? exp * 1000 : null;
+  } catch {
+    return null;
+  }
+};
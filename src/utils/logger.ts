@@ -0,0 +1,177 @@
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export interface LogEntry {
+  level: LogLevel;
+  message: string;
+  // Extra values passed alongside the message, already redacted
+  data: unknown[];
+  timestamp: string;
+}
+
+// A destination for log entries (console, crash reporter, file, …)
+export type LogSink = (entry: LogEntry) => void;
+
+const LEVEL_PRIORITY: Record<LogLevel | 'silent', number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  silent: 100,
+};
+
+const REDACTED = '[REDACTED]';
+const MAX_DEPTH = 6;
+
+// Object keys whose values never reach a sink. Matches e.g. password,
+// accessToken, refreshToken, Authorization, email, lat/lng and coordinates.
+const SENSITIVE_KEY =
+  /password|token|authorization|secret|credential|email|^(lat|lng|lon|long|latitude|longitude|coordinates|userLocation|searchCenter)$/i;
+
+// Patterns scrubbed from free text such as messages and URLs
+const SENSITIVE_TEXT: [RegExp, string][] = [
+  [/Bearer\s+[\w\-.~+/]+=*/gi, `Bearer ${REDACTED}`],
+  [/[\w.+-]+@[\w-]+\.[\w.-]+/g, REDACTED],
+  [
+    /\b(lat|lng|latitude|longitude|password|token|email)=[^&\s]*/gi,
+    `$1=${REDACTED}`,
+  ],
+];
+
+const redactText = (text: string): string =>
+  SENSITIVE_TEXT.reduce(
+    (result, [pattern, replacement]) => result.replace(pattern, replacement),
+    text
+  );
+
+// Returns a copy of value with sensitive fields and text replaced. The
+// original is left untouched so callers can keep using it.
+export const redact = (
+  value: unknown,
+  depth = 0,
+  seen = new WeakSet<object>()
+): unknown => {
+  if (typeof value === 'string') {
+    return redactText(value);
+  }
+  if (typeof value !== 'object' || value === null) {
+    return value;
+  }
+  if (seen.has(value)) {
+    return '[Circular]';
+  }
+  if (depth >= MAX_DEPTH) {
+    return '[Truncated]';
+  }
+  seen.add(value);
+
+  if (Array.isArray(value)) {
+    return value.map(item => redact(item, depth + 1, seen));
+  }
+
+  const source: Record<string, unknown> =
+    value instanceof Error
+      ? { ...value, name: value.name, message: value.message }
+      : (value as Record<string, unknown>);
+
+  return Object.fromEntries(
+    Object.entries(source).map(([key, entry]) => [
+      key,
+      SENSITIVE_KEY.test(key) ? REDACTED : redact(entry, depth + 1, seen),
+    ])
+  );
+};
+
+export const consoleSink: LogSink = ({ level, message, data }) => {
+  const write =
+    level === 'error'
+      ? console.error
+      : level === 'warn'
+      ? console.warn
+      : level === 'info'
+      ? console.info
+      : console.log;
+  write(message, ...data);
+};
+
+const resolveDefaultLevel = (): LogLevel | 'silent' => {
+  const configured = process.env.EXPO_PUBLIC_LOG_LEVEL as
+    | LogLevel
+    | 'silent'
+    | undefined;
+  if (configured && configured in LEVEL_PRIORITY) {
+    return configured;
+  }
+  // Production builds are silent unless a level is configured explicitly
+  return __DEV__ ? 'debug' : 'silent';
+};
+
+// Leveled logger that redacts secrets before handing entries to its sinks
+class Logger {
+  private level: LogLevel | 'silent' = resolveDefaultLevel();
+  private sinks: LogSink[] = [consoleSink];
+
+  setLevel(level: LogLevel | 'silent'): void {
+    this.level = level;
+  }
+
+  getLevel(): LogLevel | 'silent' {
+    return this.level;
+  }
+
+  // Adds a sink; returns a function that removes it again
+  addSink(sink: LogSink): () => void {
+    this.sinks.push(sink);
+    return () => {
+      this.sinks = this.sinks.filter(registered => registered !== sink);
+    };
+  }
+
+  // Replaces every sink, e.g. to drop the console sink in tests
+  setSinks(sinks: LogSink[]): void {
+    this.sinks = [...sinks];
+  }
+
+  isEnabled(level: LogLevel): boolean {
+    return LEVEL_PRIORITY[level] >= LEVEL_PRIORITY[this.level];
+  }
+
+  debug(message: string, ...data: unknown[]): void {
+    this.write('debug', message, data);
+  }
+
+  info(message: string, ...data: unknown[]): void {
+    this.write('info', message, data);
+  }
+
+  warn(message: string, ...data: unknown[]): void {
+    this.write('warn', message, data);
+  }
+
+  error(message: string, ...data: unknown[]): void {
+    this.write('error', message, data);
+  }
+
+  private write(level: LogLevel, message: string, data: unknown[]): void {
+    if (!this.isEnabled(level)) {
+      return;
+    }
+
+    const entry: LogEntry = {
+      level,
+      message: redactText(message),
+      data: data.map(value => redact(value)),
+      timestamp: new Date().toISOString(),
+    };
+
+    this.sinks.forEach(sink => {
+      try {
+        sink(entry);
+      } catch {
+        // A broken sink must never take the app down with it
+      }
+    });
+  }
+}
+
+export const logger = new Logger();
+export default logger;
@@ -1,5 +1,15 @@
+import { xchacha20poly1305 } from '@noble/ciphers/chacha';
+import {
+  bytesToHex,
+  bytesToUtf8,
+  hexToBytes,
+  utf8ToBytes,
+} from '@noble/ciphers/utils';
 import { Platform } from 'react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Crypto from 'expo-crypto';
+import * as SecureStore from 'expo-secure-store';
+import { logger } from './logger';
 
 // Platform-aware storage utility
 class PlatformStorage {
@@ -18,7 +28,7 @@ class PlatformStorage {
         return await AsyncStorage.getItem(key);
       }
     } catch (error) {
-      console.error('Failed to get item from storage:', error);
+      logger.error('Failed to get item from storage:', error);
       return null;
     }
   }
@@ -35,7 +45,7 @@ class PlatformStorage {
         await AsyncStorage.setItem(key, value);
       }
     } catch (error) {
-      console.error('Failed to set item in storage:', error);
+      logger.error('Failed to set item in storage:', error);
     }
   }
 
@@ -51,10 +61,166 @@ class PlatformStorage {
         await AsyncStorage.removeItem(key);
       }
     } catch (error) {
-      console.error('Failed to remove item from storage:', error);
+      logger.error('Failed to remove item from storage:', error);
     }
   }
 }
 
 export const platformStorage = new PlatformStorage();
+
+// Per-install encryption key, kept in the keystore
+const ENCRYPTION_KEY = 'secureStorage.key';
+const ENCRYPTED_PREFIX = 'secure:';
+const NONCE_LENGTH = 24;
+
+export type SecureStorageMode = 'keystore' | 'memory';
+
+// How @noble/ciphers reports a ciphertext whose authentication tag does not
+// match the key
+const isAuthenticationFailure = (error: unknown): boolean =>
+  error instanceof Error && error.message === 'invalid tag';
+
+// Storage for credentials and personal data. On native, secrets live in the
+// OS keystore (Keychain / Keystore) and larger JSON blobs are encrypted with a
+// per-install key before they reach AsyncStorage. The web has no safe place
+// to keep either, so there everything is held in memory only and is gone on
+// reload. Values written in plaintext by older versions are moved here by
+// storage migration 1 (see storageMigrations).
+class SecureStorage {
+  readonly mode: SecureStorageMode =
+    Platform.OS === 'web' ? 'memory' : 'keystore';
+  private memory = new Map<string, string>();
+  private keyPromise: Promise<Uint8Array> | null = null;
+
+  // Secrets are small values such as tokens, stored in the keystore as-is
+  async getSecret(key: string): Promise<string | null> {
+    if (this.mode === 'memory') {
+      return this.memory.get(key) ?? null;
+    }
+    try {
+      return await SecureStore.getItemAsync(key);
+    } catch (error) {
+      logger.error('Failed to read from the keystore:', error);
+      return null;
+    }
+  }
+
+  async setSecret(key: string, value: string): Promise<void> {
+    if (this.mode === 'memory') {
+      this.memory.set(key, value);
+      return;
+    }
+    try {
+      await SecureStore.setItemAsync(key, value);
+    } catch (error) {
+      logger.error('Failed to write to the keystore:', error);
+    }
+  }
+
+  async removeSecret(key: string): Promise<void> {
+    if (this.mode === 'memory') {
+      this.memory.delete(key);
+      return;
+    }
+    try {
+      await SecureStore.deleteItemAsync(key);
+    } catch (error) {
+      logger.error('Failed to remove from the keystore:', error);
+    }
+  }
+
+  // Items can be any size; they are encrypted before being written
+  async getItem(key: string): Promise<string | null> {
+    if (this.mode === 'memory') {
+      return this.memory.get(ENCRYPTED_PREFIX + key) ?? null;
+    }
+    const stored = await platformStorage.getItem(ENCRYPTED_PREFIX + key);
+    if (!stored) {
+      return null;
+    }
+    let encryptionKey: Uint8Array;
+    try {
+      encryptionKey = await this.getKey();
+    } catch (error) {
+      // The keystore may be locked or busy; the item is kept for next time
+      logger.error(`Failed to load the key to read "${key}":`, error);
+      return null;
+    }
+    try {
+      return this.decrypt(stored, encryptionKey);
+    } catch (error) {
+      // The key was lost (e.g. restored from a backup) or the data was
+      // tampered with; either way it can never be read again
+      if (isAuthenticationFailure(error)) {
+        logger.error(`Failed to decrypt "${key}", discarding it:`, error);
+        await platformStorage.removeItem(ENCRYPTED_PREFIX + key);
+      } else {
+        logger.error(`Failed to read "${key}":`, error);
+      }
+      return null;
+    }
+  }
+
+  // Fails when the value cannot be encrypted, e.g. the keystore is locked
+  async setItem(key: string, value: string): Promise<void> {
+    if (this.mode === 'memory') {
+      this.memory.set(ENCRYPTED_PREFIX + key, value);
+      return;
+    }
+    try {
+      await platformStorage.setItem(
+        ENCRYPTED_PREFIX + key,
+        await this.encrypt(value)
+      );
+    } catch (error) {
+      logger.error(`Failed to encrypt "${key}":`, error);
+      throw error;
+    }
+  }
+
+  async removeItem(key: string): Promise<void> {
+    if (this.mode === 'memory') {
+      this.memory.delete(ENCRYPTED_PREFIX + key);
+      return;
+    }
+    await platformStorage.removeItem(ENCRYPTED_PREFIX + key);
+  }
+
+  private async encrypt(value: string): Promise<string> {
+    const nonce = Crypto.getRandomBytes(NONCE_LENGTH);
+    const cipher = xchacha20poly1305(await this.getKey(), nonce);
+    const sealed = cipher.encrypt(utf8ToBytes(value));
+    return bytesToHex(nonce) + bytesToHex(sealed);
+  }
+
+  private decrypt(stored: string, encryptionKey: Uint8Array): string {
+    const bytes = hexToBytes(stored);
+    const nonce = bytes.subarray(0, NONCE_LENGTH);
+    const cipher = xchacha20poly1305(encryptionKey, nonce);
+    return bytesToUtf8(cipher.decrypt(bytes.subarray(NONCE_LENGTH)));
+  }
+
+  // Loads the install's encryption key, creating it on first use
+  private getKey(): Promise<Uint8Array> {
+    if (!this.keyPromise) {
+      this.keyPromise = this.loadKey().catch(error => {
+        this.keyPromise = null;
+        throw error;
+      });
+    }
+    return this.keyPromise;
+  }
+
+  private async loadKey(): Promise<Uint8Array> {
+    const stored = await SecureStore.getItemAsync(ENCRYPTION_KEY);
+    if (stored) {
+      return hexToBytes(stored);
+    }
+    const key = Crypto.getRandomBytes(32);
+    await SecureStore.setItemAsync(ENCRYPTION_KEY, bytesToHex(key));
+    return key;
+  }
+}
+
+export const secureStorage = new SecureStorage();
 export default platformStorage;
@@ -0,0 +1,92 @@
+import { sha256 } from '@noble/hashes/sha2';
+import { utf8ToBytes } from '@noble/hashes/utils';
+import { base64UrlToBytes } from './jwt';
+
+// Public half of an RSA key as published in a JWKS (base64url modulus and
+// exponent)
+export interface RsaPublicJwk {
+  kty: string;
+  alg?: string;
+  use?: string;
+  n: string;
+  e: string;
+}
+
+// An RSA key that, where it says what it is for, is meant for RS256
+// signatures. A key published for another algorithm or for encryption must
+// not be used to check signatures.
+export const isRS256SigningKey = (key: RsaPublicJwk): boolean =>
+  key.kty === 'RSA' &&
+  (key.alg === undefined || key.alg === 'RS256') &&
+  (key.use === undefined || key.use === 'sig');
+
+// DER prefix of a SHA-256 DigestInfo (RFC 8017, section 9.2)
+const SHA256_DIGEST_INFO = Uint8Array.from([
+  0x30, 0x31, 0x30, 0x0d, 0x06, 0x09, 0x60, 0x86, 0x48, 0x01, 0x65, 0x03, 0x04,
+  0x02, 0x01, 0x05, 0x00, 0x04, 0x20,
+]);
+
+const bytesToBigInt = (bytes: Uint8Array): bigint =>
+  bytes.reduce((value, byte) => (value << 8n) | BigInt(byte), 0n);
+
+const bigIntToBytes = (value: bigint, length: number): Uint8Array => {
+  const bytes = new Uint8Array(length);
+  for (let i = length - 1; i >= 0; i--) {
+    bytes[i] = Number(value & 0xffn);
+    value >>= 8n;
+  }
+  return bytes;
+};
+
+const modPow = (base: bigint, exponent: bigint, modulus: bigint): bigint => {
+  let result = 1n;
+  base %= modulus;
+  while (exponent > 0n) {
+    if (exponent & 1n) {
+      result = (result * base) % modulus;
+    }
+    base = (base * base) % modulus;
+    exponent >>= 1n;
+  }
+  return result;
+};
+
+// Verifies an RSASSA-PKCS1-v1_5 SHA-256 signature, the JWS "RS256"
+// algorithm. Only needs the public key, so plain BigInt arithmetic is enough.
+export const verifyRS256 = (
+  message: string,
+  signature: Uint8Array,
+  key: RsaPublicJwk
+): boolean => {
+  if (!isRS256SigningKey(key)) {
+    return false;
+  }
+  const modulus = base64UrlToBytes(key.n);
+  const n = bytesToBigInt(modulus);
+  const e = bytesToBigInt(base64UrlToBytes(key.e));
+  // Ignore a leading zero byte some encoders add to the modulus
+  const length = modulus[0] === 0 ? modulus.length - 1 : modulus.length;
+
+  const s = bytesToBigInt(signature);
+  if (signature.length !== length || s >= n) {
+    return false;
+  }
+  const encoded = bigIntToBytes(modPow(s, e, n), length);
+
+  // EMSA-PKCS1-v1_5: 0x00 0x01 0xff..0xff 0x00 DigestInfo hash
+  const digest = sha256(utf8ToBytes(message));
+  const expected = new Uint8Array(length).fill(0xff);
+  expected[0] = 0x00;
+  expected[1] = 0x01;
+  const tail = length - SHA256_DIGEST_INFO.length - digest.length;
+  expected[tail - 1] = 0x00;
+  expected.set(SHA256_DIGEST_INFO, tail);
+  expected.set(digest, tail + SHA256_DIGEST_INFO.length);
+
+  // Compare every byte so the time taken does not reveal where they differ
+  let difference = 0;
+  for (let i = 0; i < length; i++) {
+    difference |= encoded[i] ^ expected[i];
+  }
+  return difference === 0;
+};
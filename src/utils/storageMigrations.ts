@@ -0,0 +1,225 @@
+import { logger } from './logger';
+import { platformStorage, secureStorage } from './platformStorage';
+
+// Where the installed schema version is kept. Always plaintext, so it can be
+// read before anything else.
+const VERSION_KEY = 'storageSchemaVersion';
+
+// The three places data can live: plain platformStorage, keystore secrets
+// and encrypted items (see secureStorage)
+type StorageTier = 'plain' | 'secret' | 'secure';
+
+// What a migration step can read and write. Writes are staged and only reach
+// storage once the step has finished, so a step that throws changes nothing.
+export interface MigrationStore {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+  getSecret(key: string): Promise<string | null>;
+  setSecret(key: string, value: string): void;
+  removeSecret(key: string): void;
+  getSecureItem(key: string): Promise<string | null>;
+  setSecureItem(key: string, value: string): void;
+  removeSecureItem(key: string): void;
+}
+
+export interface StorageMigration {
+  // Schema version after this step; steps run in ascending order
+  version: number;
+  description: string;
+  up: (store: MigrationStore) => Promise<void>;
+}
+
+const read = (tier: StorageTier, key: string): Promise<string | null> => {
+  switch (tier) {
+    case 'plain':
+      return platformStorage.getItem(key);
+    case 'secret':
+      return secureStorage.getSecret(key);
+    case 'secure':
+      return secureStorage.getItem(key);
+  }
+};
+
+const write = (
+  tier: StorageTier,
+  key: string,
+  value: string | null
+): Promise<void> => {
+  switch (tier) {
+    case 'plain':
+      return value === null
+        ? platformStorage.removeItem(key)
+        : platformStorage.setItem(key, value);
+    case 'secret':
+      return value === null
+        ? secureStorage.removeSecret(key)
+        : secureStorage.setSecret(key, value);
+    case 'secure':
+      return value === null
+        ? secureStorage.removeItem(key)
+        : secureStorage.setItem(key, value);
+  }
+};
+
+interface StagedWrite {
+  tier: StorageTier;
+  key: string;
+  // null removes the key
+  value: string | null;
+}
+
+// Collects a step's writes and applies them all at once. Reads see the
+// step's own staged writes.
+class StagedStore implements MigrationStore {
+  private writes = new Map<string, StagedWrite>();
+
+  getItem = (key: string) => this.get('plain', key);
+  setItem = (key: string, value: string) => this.stage('plain', key, value);
+  removeItem = (key: string) => this.stage('plain', key, null);
+  getSecret = (key: string) => this.get('secret', key);
+  setSecret = (key: string, value: string) => this.stage('secret', key, value);
+  removeSecret = (key: string) => this.stage('secret', key, null);
+  getSecureItem = (key: string) => this.get('secure', key);
+  setSecureItem = (key: string, value: string) =>
+    this.stage('secure', key, value);
+  removeSecureItem = (key: string) => this.stage('secure', key, null);
+
+  // Applies new values before removals, so data being moved always exists
+  // somewhere. If any value does not read back as written, the values
+  // already written are put back and the removals are skipped.
+  async commit(): Promise<void> {
+    const staged = [...this.writes.values()];
+    const sets = staged.filter(({ value }) => value !== null);
+    const removals = staged.filter(({ value }) => value === null);
+
+    const previous: StagedWrite[] = [];
+    try {
+      for (const { tier, key, value } of sets) {
+        previous.push({ tier, key, value: await read(tier, key) });
+        await write(tier, key, value);
+        if ((await read(tier, key)) !== value) {
+          throw new Error(`Failed to write "${key}"`);
+        }
+      }
+    } catch (error) {
+      for (const { tier, key, value } of previous.reverse()) {
+        await write(tier, key, value);
+      }
+      throw error;
+    }
+
+    for (const { tier, key } of removals) {
+      await write(tier, key, null);
+    }
+  }
+
+  private async get(tier: StorageTier, key: string): Promise<string | null> {
+    const staged = this.writes.get(`${tier}:${key}`);
+    return staged ? staged.value : read(tier, key);
+  }
+
+  private stage(tier: StorageTier, key: string, value: string | null): void {
+    this.writes.set(`${tier}:${key}`, { tier, key, value });
+  }
+}
+
+// Moves a plaintext value into another tier
+const moveFromPlaintext = async (
+  store: MigrationStore,
+  key: string,
+  to: 'secret' | 'secure'
+): Promise<void> => {
+  const value = await store.getItem(key);
+  if (value === null) {
+    return;
+  }
+  if (to === 'secret') {
+    store.setSecret(key, value);
+  } else {
+    store.setSecureItem(key, value);
+  }
+  store.removeItem(key);
+};
+
+// Every change to what the app keeps on the device, oldest first. Append new
+// steps with the next version number; never edit or reorder shipped ones.
+export const STORAGE_MIGRATIONS: StorageMigration[] = [
+  {
+    version: 1,
+    description: 'Move credentials out of plaintext storage',
+    up: async store => {
+      await moveFromPlaintext(store, 'authToken', 'secret');
+      await moveFromPlaintext(store, 'refreshToken', 'secret');
+      await moveFromPlaintext(store, 'session', 'secure');
+      await moveFromPlaintext(store, 'userData', 'secure');
+    },
+  },
+  {
+    version: 2,
+    description: 'Replace the stored user with a session',
+    up: async store => {
+      const legacy = await store.getSecureItem('userData');
+      if (legacy === null) {
+        return;
+      }
+      store.removeSecureItem('userData');
+      if (await store.getSecureItem('session')) {
+        return;
+      }
+
+      let user;
+      try {
+        user = JSON.parse(legacy);
+      } catch {
+        // Nothing to recover; the user logs in again
+        logger.warn('Dropping unreadable stored user');
+        return;
+      }
+      // Early versions saved the whole { data, success } response
+      if (user?.data && user.success) {
+        user = user.data;
+      }
+      store.setSecureItem(
+        'session',
+        JSON.stringify({ user, loginMethod: null })
+      );
+    },
+  },
+];
+
+// The schema version this build reads and writes
+export const STORAGE_SCHEMA_VERSION =
+  STORAGE_MIGRATIONS[STORAGE_MIGRATIONS.length - 1].version;
+
+// Brings stored data up to the current schema. Must finish before anything
+// reads storage. Never throws: a failed step is logged, stops the run and is
+// retried on the next launch. Resolves with the installed version.
+export const runStorageMigrations = async (
+  migrations: StorageMigration[] = STORAGE_MIGRATIONS
+): Promise<number> => {
+  let version = Number(await platformStorage.getItem(VERSION_KEY)) || 0;
+
+  for (const migration of migrations) {
+    if (migration.version <= version) {
+      continue;
+    }
+    try {
+      const store = new StagedStore();
+      await migration.up(store);
+      await store.commit();
+    } catch (error) {
+      // Later steps build on this one, so they wait for it
+      logger.error(
+        `Storage migration ${migration.version} (${migration.description}) failed:`,
+        error
+      );
+      break;
+    }
+    version = migration.version;
+    await platformStorage.setItem(VERSION_KEY, String(version));
+    logger.info(`Storage migrated to version ${version}`);
+  }
+
+  return version;
+};